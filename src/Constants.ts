@@ -22,6 +22,10 @@ export const vscode_mt_issues_url = "https://github.com/swdotcom/swdc-vscode-mus
 export const DEFAULT_CURRENTLY_PLAYING_TRACK_CHECK_SECONDS = 45;
 export const DEFAULT_SESSION_THRESHOLD_SECONDS = 60 * 15;
 
+// bump the version when the shape of the cached music data changes
+export const MUSIC_CACHE_VERSION = 1;
+export const MUSIC_CACHE_TTL_SECONDS = 60 * 60 * 24;
+
 export const MUSIC_TIME_EXT_ID = "softwaredotcom.music-time";
 export const CODE_TIME_EXT_ID = "softwaredotcom.swdc-vscode";
 export const EDITOR_OPS_EXT_ID = "softwaredotcom.editor-ops";
@@ -44,3 +48,8 @@ export const RECOMMENDATION_LIMIT = 25;
 export const SPOTIFY_LIKED_SONGS_PLAYLIST_NAME = "Liked Songs";
 export const SPOTIFY_LIKED_SONGS_PLAYLIST_ID = "liked-songs-playlist";
 export const RECOMMENDATION_PLAYLIST_ID = "recommendation-playlist";
+export const SEARCH_RESULTS_PLAYLIST_ID = "search-results-playlist";
+export const ARTIST_PLAYLIST_ID = "artist-playlist";
+export const FLOW_PLAYLIST_NAME = "Music Time Flow";
+export const FLOW_PLAYLIST_MAX_TRACKS = 50;
+export const DEFAULT_FLOW_PLAYLIST_MIN_PLAYS = 2;
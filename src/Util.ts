@@ -85,6 +85,42 @@ export function getMusicTimeMarkdownFile() {
   return getFile("MusicTime.html");
 }
 
+export function getMusicCacheFile() {
+  return getFile("musicTimeCache.json");
+}
+
+export function getPlayerStateFile() {
+  return getFile("musicTimePlayerState.json");
+}
+
+export function getPlayerLeaderLockFile() {
+  // not created here, the lock only exists while a window holds it
+  return path.join(getSoftwareDir(), "musicTimePlayer.lock");
+}
+
+export function getMusicSessionLogFile() {
+  // one json record per line, appended as tracks finish
+  return path.join(getSoftwareDir(), "musicTimeSessions.jsonl");
+}
+
+export function getMusicSessionActivityFile() {
+  // the last record written by the leader window
+  return path.join(getSoftwareDir(), "musicTimeSessionActivity.json");
+}
+
+export function getMusicSessionActivityDir() {
+  // one file per window with its coding activity, combined by the leader window
+  const dir = path.join(getSoftwareDir(), "musicTimeSessionActivity");
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir);
+  }
+  return dir;
+}
+
+export function getMusicMutationQueueFile() {
+  return path.join(getSoftwareDir(), "musicTimeMutationQueue.json");
+}
+
 export function getSoftwareDir() {
   const homedir = os.homedir();
   const softwareDataDir = isWindows() ? `${homedir}\\${SOFTWARE_DIRECTORY}` : `${homedir}/${SOFTWARE_DIRECTORY}`;
@@ -324,20 +360,25 @@ export function normalizeGithubEmail(email: string, filterOutNonEmails = true) {
   return email;
 }
 
-export function getSongDisplayName(name) {
+/**
+ * Shortens the name to about the max length, 0 keeps the whole name
+ * @param name
+ * @param maxLength
+ */
+export function getSongDisplayName(name, maxLength: number = 14) {
   if (!name) {
     return "";
   }
   let displayName = "";
   name = name.trim();
-  if (name.length > 14) {
+  if (maxLength > 0 && name.length > maxLength) {
     const parts = name.split(" ");
     for (let i = 0; i < parts.length; i++) {
       displayName = `${displayName} ${parts[i]}`;
-      if (displayName.length >= 12) {
-        if (displayName.length > 14) {
-          // trim it down to at least 14
-          displayName = `${displayName.substring(0, 14)}`;
+      if (displayName.length >= maxLength - 2) {
+        if (displayName.length > maxLength) {
+          // trim it down to the max length
+          displayName = `${displayName.substring(0, maxLength)}`;
         }
         displayName = `${displayName}..`;
         break;
@@ -349,6 +390,24 @@ export function getSongDisplayName(name) {
   return displayName.trim();
 }
 
+/**
+ * Formats a track position as m:ss
+ * @param millis
+ */
+export function formatTrackTime(millis: number) {
+  const totalSeconds = Math.max(Math.floor((millis || 0) / 1000), 0);
+  const seconds = totalSeconds % 60;
+  return `${Math.floor(totalSeconds / 60)}:${seconds < 10 ? "0" : ""}${seconds}`;
+}
+
+/**
+ * Escapes text for webview html, in content and in quoted attributes
+ * @param value
+ */
+export function escapeHtml(value: string) {
+  return `${value ?? ""}`.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+}
+
 export function launchWebUrl(url) {
   if (!websocketAlive()) {
     try {
@@ -439,3 +498,11 @@ export function getImage(name: string) {
   const file = path.join(resourcePath, name);
   return file;
 }
+
+export function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -1,18 +1,22 @@
 import { commands, Disposable, window, ExtensionContext } from "vscode";
 import { MusicControlManager } from "./music/MusicControlManager";
 import { getMusicTimePluginId, launchMusicAnalytics, launchWebUrl, getPluginUuid } from "./Util";
-import { PlaylistItem, PlayerName, PlayerDevice, playSpotifyDevice, TrackStatus } from "cody-music";
+import { PlaylistItem, PlayerName, PlayerDevice, playSpotifyDevice, TrackStatus, Track, PlayerContext } from "cody-music";
 import { SocialShareManager } from "./social/SocialShareManager";
 import { showGenreSelections, showMoodSelections } from "./selector/RecTypeSelectorManager";
 import { showSortPlaylistMenu } from "./selector/SortPlaylistSelectorManager";
 import { showDeviceSelectorMenu } from "./selector/SpotifyDeviceSelectorManager";
 import { MusicCommandUtil } from "./music/MusicCommandUtil";
 import { showSearchInput } from "./selector/SearchSelectorManager";
+import { showLocalMusicFolderPicker, showMusicProviderMenu } from "./selector/MusicProviderSelectorManager";
+import { getMusicProvider } from "./managers/MusicProviderManager";
+import { processMusicMutationQueue } from "./managers/MusicMutationQueueManager";
 import { switchSpotifyAccount } from "./managers/SpotifyManager";
 import { launchLogin, showLogInMenuOptions, showSignUpMenuOptions } from "./managers/UserStatusManager";
 import { MusicTimeWebviewSidebar } from "./sidebar/MusicTimeWebviewSidebar";
-import { SPOTIFY_LIKED_SONGS_PLAYLIST_ID } from "./Constants";
+import { ARTIST_PLAYLIST_ID, SEARCH_RESULTS_PLAYLIST_ID, SPOTIFY_LIKED_SONGS_PLAYLIST_ID } from "./Constants";
 import {
+  clearSpotifyPlaylistData,
   fetchTracksForLikedSongs,
   fetchTracksForPlaylist,
   followSpotifyPlaylist,
@@ -26,7 +30,6 @@ import {
   getSelectedPlaylistId,
   getSelectedTabView,
   getSelectedTrackItem,
-  getTrackByPlaylistIdAndTrackId,
   getTrackRecommendations,
   initializeSpotify,
   populateSpotifyDevices,
@@ -44,6 +47,33 @@ import { launchTrackPlayer, playSelectedItem, playSelectedItems } from "./manage
 import { app_endpoint, vscode_mt_issues_url } from "./Constants";
 import { displayReadmeIfNotExists } from './DataController';
 import { MusicCommandManager } from './music/MusicCommandManager';
+import { getMostProductiveSongs } from './managers/ProductivityScoreManager';
+import MusicMetrics from './model/MusicMetrics';
+import { MusicPlaylistManager } from './music/MusicPlaylistManager';
+import { getSpotifyRequestMetrics } from './music/SpotifyRequestScheduler';
+import { NowPlayingTracker } from './music/NowPlayingTracker';
+import { changePlayerVolume, restoreDeviceVolume, setPlayerVolume, showVolumeInput, VOLUME_STEP } from './managers/VolumeManager';
+import {
+  closeSearchResultTracks,
+  getSearchResultTrack,
+  loadMoreSearchResults,
+  selectSearchResultType,
+  showSearchResultTracks,
+} from './managers/SearchManager';
+import { closeArtistAlbum, getArtistTrack, showArtistAlbum, showArtistForTrack, showListedArtist } from './managers/ArtistManager';
+import {
+  deletePlaylist,
+  editPlaylistDescription,
+  renamePlaylist,
+  reorderPlaylistTrack,
+  togglePlaylistCollaborative,
+  togglePlaylistEditor,
+  togglePlaylistPublic,
+  uploadPlaylistCover,
+} from './managers/PlaylistEditorManager';
+import { runBatchTrackAction } from './managers/BatchTrackManager';
+import { auditPlaylists, fixPlaylistAuditIssue } from './managers/PlaylistAuditManager';
+import { createSmartPlaylist, showSmartPlaylistMenu } from './managers/SmartPlaylistManager';
 
 const queryString = require("query-string");
 
@@ -69,7 +99,8 @@ export function createCommands(
   // PLAY NEXT CMD
   cmds.push(
     commands.registerCommand("musictime.next", async() => {
-      await controller.nextSong();
+      NowPlayingTracker.getInstance().notifyUserAction();
+      await getMusicProvider().next();
       setTimeout(() => {
         commands.executeCommand("musictime.refreshMusicTimeView");
       }, 500);
@@ -79,7 +110,8 @@ export function createCommands(
   // PLAY PREV CMD
   cmds.push(
     commands.registerCommand("musictime.previous", async() => {
-      await controller.previousSong();
+      NowPlayingTracker.getInstance().notifyUserAction();
+      await getMusicProvider().previous();
       setTimeout(() => {
         commands.executeCommand("musictime.refreshMusicTimeView");
       }, 500);
@@ -90,7 +122,22 @@ export function createCommands(
   cmds.push(
     commands.registerCommand("musictime.play", async () => {
       updateSelectedTrackStatus(TrackStatus.Playing);
-      controller.playSong(1);
+      NowPlayingTracker.getInstance().notifyUserAction();
+      getMusicProvider().play();
+    })
+  );
+
+  // SEEK CMD
+  cmds.push(
+    commands.registerCommand("musictime.seek", async (payload: any) => {
+      if (payload?.position_ms === undefined) {
+        return;
+      }
+      NowPlayingTracker.getInstance().notifyUserAction();
+      await getMusicProvider().seek(payload.position_ms);
+      setTimeout(() => {
+        commands.executeCommand("musictime.refreshMusicTimeView");
+      }, 500);
     })
   );
 
@@ -131,11 +178,75 @@ export function createCommands(
     })
   );
 
+  cmds.push(
+    commands.registerCommand("musictime.searchResultType", async (payload: any) => {
+      await selectSearchResultType(payload?.type);
+    })
+  );
+
+  // the search view scrolled to the end of the results
+  cmds.push(
+    commands.registerCommand("musictime.searchMore", async (payload: any) => {
+      await loadMoreSearchResults(payload?.scrollY);
+    })
+  );
+
+  // list the tracks of an album, artist or playlist search result
+  cmds.push(
+    commands.registerCommand("musictime.showSearchResult", async (payload: any) => {
+      await showSearchResultTracks(payload?.type, payload?.id);
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.closeSearchResult", () => {
+      closeSearchResultTracks();
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.playSearchTrack", async (payload: any) => {
+      await playListedTrack(payload);
+    })
+  );
+
+  // open the artist of a track, the running track or a listed artist
+  cmds.push(
+    commands.registerCommand("musictime.showArtist", async (payload: any) => {
+      if (payload?.artistId) {
+        await showListedArtist(payload.artistId);
+      } else {
+        // the running track when it's not opened from a track row
+        const trackItem: PlaylistItem = payload?.trackId ? await getTrackByPayload(payload) : await getMusicProvider().getTrack(null, null);
+        await showArtistForTrack(trackItem);
+      }
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.showArtistAlbum", async (payload: any) => {
+      await showArtistAlbum(payload?.albumId);
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.closeArtistAlbum", () => {
+      closeArtistAlbum();
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.playArtistTrack", async (payload: any) => {
+      await playListedTrack(payload);
+    })
+  );
+
   // PAUSE CMD
   cmds.push(
     commands.registerCommand("musictime.pause", async () => {
       updateSelectedTrackStatus(TrackStatus.Paused);
-      await controller.pauseSong();
+      NowPlayingTracker.getInstance().notifyUserAction();
+      await getMusicProvider().pause();
       setTimeout(() => {
         commands.executeCommand("musictime.refreshMusicTimeView");
       }, 500);
@@ -146,7 +257,7 @@ export function createCommands(
   cmds.push(
     commands.registerCommand("musictime.like", async (payload) => {
       const trackItem: PlaylistItem = await getTrackByPayload(payload);
-      await controller.setLiked(trackItem, true);
+      await getMusicProvider().setLiked(trackItem, true);
       setTimeout(() => {
         commands.executeCommand("musictime.refreshMusicTimeView");
       }, 500);
@@ -157,13 +268,59 @@ export function createCommands(
   cmds.push(
     commands.registerCommand("musictime.unlike", async (payload) => {
       const trackItem: PlaylistItem = await getTrackByPayload(payload);
-      await controller.setLiked(trackItem, false);
+      await getMusicProvider().setLiked(trackItem, false);
       setTimeout(() => {
         commands.executeCommand("musictime.refreshMusicTimeView");
       }, 500);
     })
   );
 
+  // TOGGLE CMDS, used by the keymap and menus since they can't tell the player state
+  cmds.push(
+    commands.registerCommand("musictime.togglePlay", async () => {
+      const track: Track = await getMusicProvider().getRunningTrack();
+      commands.executeCommand(track?.state === TrackStatus.Playing ? "musictime.pause" : "musictime.play");
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.toggleLike", async () => {
+      const provider = getMusicProvider();
+      // the running track when no track id is given
+      const trackItem: PlaylistItem = await provider.getTrack(undefined, undefined);
+      if (!trackItem?.id) {
+        window.showInformationMessage("No song is playing.");
+        return;
+      }
+      await provider.setLiked(trackItem, !(await provider.isLiked(trackItem.id)));
+      setTimeout(() => {
+        commands.executeCommand("musictime.refreshMusicTimeView");
+      }, 500);
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.toggleShuffle", async () => {
+      const playerContext: PlayerContext = await getMusicProvider().getPlayerContext();
+      commands.executeCommand(playerContext?.shuffle_state ? "musictime.shuffleOff" : "musictime.shuffleOn");
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.toggleRepeat", async () => {
+      const playerContext: PlayerContext = await getMusicProvider().getPlayerContext();
+      commands.executeCommand(playerContext?.repeat_state === "track" ? "musictime.repeatOff" : "musictime.repeatOn");
+    })
+  );
+
+  // ZEN MODE CMD, VS Code doesn't tell extensions about zen mode so the compact status bar follows this command
+  cmds.push(
+    commands.registerCommand("musictime.toggleZenMode", async () => {
+      await commands.executeCommand("workbench.action.toggleZenMode");
+      MusicCommandManager.toggleZenMode();
+    })
+  );
+
   cmds.push(
     commands.registerCommand("musictime.shuffleOff", () => {
       controller.setShuffleOff();
@@ -188,6 +345,29 @@ export function createCommands(
     })
   );
 
+  // VOLUME CMDS
+  cmds.push(
+    commands.registerCommand("musictime.volumeUp", async () => {
+      await changePlayerVolume(VOLUME_STEP);
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.volumeDown", async () => {
+      await changePlayerVolume(-VOLUME_STEP);
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.setVolume", async (payload: any) => {
+      if (payload?.volume_percent !== undefined) {
+        await setPlayerVolume(payload.volume_percent);
+      } else {
+        await showVolumeInput();
+      }
+    })
+  );
+
   // REPEAT OFF CMD
   cmds.push(
     commands.registerCommand("musictime.repeatOn", async() => {
@@ -260,20 +440,18 @@ export function createCommands(
   // DISPLAY CURRENT SONG CMD
   cmds.push(
     commands.registerCommand("musictime.currentSong", () => {
-      launchTrackPlayer();
+      controller.showCurrentSongMenu();
     })
   );
 
   cmds.push(
     commands.registerCommand("musictime.songTitleRefresh", async() => {
       if (!getBestActiveDevice()) {
-        await populateSpotifyDevices(false);
+        await populateSpotifyDevices();
       }
       commands.executeCommand("workbench.view.extension.music-time-sidebar");
-      setTimeout(async() => {
-        commands.executeCommand("musictime.refreshMusicTimeView");
-        MusicCommandManager.syncControls();
-      }, 500);
+      // the tracker refreshes the sidebar when the track changed
+      MusicCommandManager.syncControls();
     })
   );
 
@@ -313,6 +491,7 @@ export function createCommands(
   // DISCONNECT SPOTIFY
   cmds.push(
     commands.registerCommand("musictime.disconnectSpotify", () => {
+      clearSpotifyPlaylistData();
       launchWebUrl(`${app_endpoint}/data_sources/integration_types/spotify`);
     })
   );
@@ -328,7 +507,7 @@ export function createCommands(
   cmds.push(
     commands.registerCommand("musictime.refreshDeviceInfo", async () => {
       if (!await requiresSpotifyAccess()) {
-        await populateSpotifyDevices(false);
+        await populateSpotifyDevices();
       }
     })
   );
@@ -352,9 +531,12 @@ export function createCommands(
   );
 
   const deviceSelectTransferCmd = commands.registerCommand("musictime.transferToDevice", async (d: PlayerDevice) => {
+    const previousDevice: PlayerDevice = getBestActiveDevice();
     // transfer to this device
     window.showInformationMessage(`Connected to ${d.name}`);
     await MusicCommandUtil.getInstance().runSpotifyCommand(playSpotifyDevice, [d.id]);
+    // use the volume this device was last played at
+    await restoreDeviceVolume(previousDevice, d.id);
     setTimeout(() => {
       // refresh the tree, no need to refresh playlists
       commands.executeCommand("musictime.refreshDeviceInfo");
@@ -444,6 +626,13 @@ export function createCommands(
     })
   );
 
+  // show the new running track in the sidebar
+  cmds.push(
+    NowPlayingTracker.getInstance().onDidChangeTrack(() => {
+      commands.executeCommand("musictime.refreshMusicTimeView", { refreshOpenFolder: true, useSharedState: true });
+    })
+  );
+
   cmds.push(
     commands.registerCommand("musictime.reInitializeSpotify", async() => {
       initializeSpotify();
@@ -457,7 +646,8 @@ export function createCommands(
       let reload: boolean = false;
       if (payload.playlistId) {
         if (getSelectedPlaylistId() !== payload.playlistId) {
-          await fetchTracksForPlaylist(payload.playlistId)
+          updateSelectedPlaylistId(payload.playlistId);
+          await getMusicProvider().getPlaylistTracks(payload.playlistId);
         }
       }
       if (payload.tabView) {
@@ -467,7 +657,9 @@ export function createCommands(
         updateSelectedTabView(payload.tabView);
       }
       const refreshOpenFolder: boolean = !!payload.refreshOpenFolder;
-      mtWebviewSidebar.refresh(reload, refreshOpenFolder);
+      // use the player state shared by another window instead of fetching it again
+      const useSharedState: boolean = !!payload.useSharedState;
+      mtWebviewSidebar.refresh(reload, refreshOpenFolder, useSharedState);
     })
   );
 
@@ -545,7 +737,8 @@ export function createCommands(
       if (trackItem) {
         updateSelectedPlaylistId(trackItem["playlist_id"]);
         updateSelectedTrackStatus(TrackStatus.Playing);
-        playSelectedItem(trackItem);
+        NowPlayingTracker.getInstance().notifyUserAction();
+        getMusicProvider().playTrack(trackItem);
         commands.executeCommand(
           "musictime.refreshMusicTimeView",
           { tabView: 'playlists', playlistId: trackItem["playlist_id"],  refreshOpenFolder: true }
@@ -563,6 +756,20 @@ export function createCommands(
     })
   );
 
+  cmds.push(
+    commands.registerCommand("musictime.playProductiveSong", async (payload: any) => {
+      const song: MusicMetrics = getMostProductiveSongs().find((n) => n.song_id === payload?.trackId);
+      if (song) {
+        // ranked tracks are played by uri
+        const trackItem: PlaylistItem = new PlaylistItem();
+        trackItem.id = song.song_id;
+        trackItem.name = song.song_name;
+        trackItem["rank"] = song.song_rank;
+        playSelectedItem(trackItem);
+      }
+    })
+  );
+
   cmds.push(
     commands.registerCommand("musictime.playRecommendations", async (payload: any) => {
       const recs: any = getCachedRecommendationInfo();
@@ -621,11 +828,172 @@ export function createCommands(
     })
   );
 
+  cmds.push(
+    commands.registerCommand("musictime.addToQueue", async (payload) => {
+      await addTrackToQueue(payload, false);
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.playNext", async (payload) => {
+      await addTrackToQueue(payload, true);
+    })
+  );
+
+  // PLAYLIST EDITOR CMDS
+  cmds.push(
+    commands.registerCommand("musictime.editPlaylist", async (payload: any) => {
+      await togglePlaylistEditor(payload?.playlistId ?? getSelectedPlaylistId());
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.renamePlaylist", async (payload: any) => {
+      await renamePlaylist(payload?.playlistId ?? getSelectedPlaylistId());
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.editPlaylistDescription", async (payload: any) => {
+      await editPlaylistDescription(payload?.playlistId ?? getSelectedPlaylistId());
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.togglePlaylistPublic", async (payload: any) => {
+      await togglePlaylistPublic(payload?.playlistId ?? getSelectedPlaylistId());
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.togglePlaylistCollaborative", async (payload: any) => {
+      await togglePlaylistCollaborative(payload?.playlistId ?? getSelectedPlaylistId());
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.uploadPlaylistCover", async (payload: any) => {
+      await uploadPlaylistCover(payload?.playlistId ?? getSelectedPlaylistId());
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.deletePlaylist", async (payload: any) => {
+      await deletePlaylist(payload?.playlistId ?? getSelectedPlaylistId());
+    })
+  );
+
+  // a track was dragged to a new position in the playlist editor
+  cmds.push(
+    commands.registerCommand("musictime.reorderPlaylistTrack", async (payload: any) => {
+      await reorderPlaylistTrack(payload?.playlistId, payload?.fromIndex, payload?.toIndex);
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.smartPlaylists", () => {
+      showSmartPlaylistMenu();
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.createSmartPlaylist", () => {
+      createSmartPlaylist();
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.auditPlaylists", () => {
+      auditPlaylists();
+    })
+  );
+
+  // a fix from the playlist audit report
+  cmds.push(
+    commands.registerCommand("musictime.fixPlaylistAuditIssue", async (payload: any) => {
+      await fixPlaylistAuditIssue(payload?.issueId, payload?.fix);
+    })
+  );
+
+  // an action on the tracks selected with shift or ctrl click
+  cmds.push(
+    commands.registerCommand("musictime.batchTrackAction", async (payload: any) => {
+      await runBatchTrackAction(payload?.action, payload?.playlistId, payload?.trackIds);
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.syncPendingChanges", () => {
+      processMusicMutationQueue(true);
+    })
+  );
+
+  // used by tests to check how requests were sent to spotify
+  cmds.push(
+    commands.registerCommand("musictime.spotifyRequestMetrics", () => {
+      return getSpotifyRequestMetrics();
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.selectMusicProvider", () => {
+      showMusicProviderMenu();
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.selectLocalMusicFolder", () => {
+      showLocalMusicFolderPicker();
+    })
+  );
+
+  cmds.push(
+    commands.registerCommand("musictime.generateFlowPlaylist", async () => {
+      MusicPlaylistManager.getInstance().generateFlowPlaylist();
+    })
+  );
+
   return Disposable.from(...cmds);
 }
 
+async function addTrackToQueue(payload: any, playNext: boolean) {
+  const trackItem: PlaylistItem = await getTrackByPayload(payload);
+  if (!trackItem) {
+    return;
+  }
+  const provider = getMusicProvider();
+  // providers that can't play next add it to the end of the queue
+  const playsNext: boolean = playNext && provider.canPlayNext();
+  if (await provider.addToQueue(trackItem, playsNext)) {
+    window.showInformationMessage(playsNext ? `'${trackItem.name}' will play next` : `Added '${trackItem.name}' to the queue`);
+    commands.executeCommand("musictime.refreshMusicTimeView");
+  } else if (playsNext) {
+    window.showErrorMessage(`Unable to play '${trackItem.name}' next, other tracks are queued ahead of it. Add it to the queue instead.`);
+  } else {
+    window.showErrorMessage(`Unable to add '${trackItem.name}' to the ${provider.displayName} queue`);
+  }
+}
+
+/**
+ * Play a track of the search or artist view without leaving the view
+ */
+async function playListedTrack(payload: any) {
+  const trackItem: PlaylistItem = await getTrackByPayload(payload);
+  if (trackItem) {
+    updateSelectedTrackStatus(TrackStatus.Playing);
+    NowPlayingTracker.getInstance().notifyUserAction();
+    await getMusicProvider().playTrack(trackItem);
+    commands.executeCommand("musictime.refreshMusicTimeView");
+  }
+}
+
 async function getTrackByPayload(payload: any = {}) {
+  if (payload?.playlistId === SEARCH_RESULTS_PLAYLIST_ID) {
+    return getSearchResultTrack(payload.trackId);
+  } else if (payload?.playlistId === ARTIST_PLAYLIST_ID) {
+    return getArtistTrack(payload.trackId);
+  }
   const playlistId = !payload?.playlistId ? getSelectedPlaylistId() : payload.playlistId;
   const trackId = !payload?.trackId ? getSelectedTrackItem()?.id : payload.trackId;
-  return await getTrackByPlaylistIdAndTrackId(playlistId, trackId);
+  return await getMusicProvider().getTrack(playlistId, trackId);
 }
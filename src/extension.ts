@@ -7,29 +7,55 @@ import { onboardPlugin } from "./OnboardManager";
 import { getVersion, getPluginName, logIt } from "./Util";
 import { createCommands } from "./command-helper";
 import { clearWebsocketClient, initializeWebsockets } from "./websockets";
-import { initializeSpotify } from "./managers/PlaylistDataManager";
+import { initializeSpotify, updateSelectedPlayer } from "./managers/PlaylistDataManager";
 import { displayReadmeIfNotExists } from './DataController';
 import { getUser } from './managers/UserStatusManager';
 import { clearSpotifyAccessToken } from './managers/SpotifyManager';
+import { disposePlayerStateSync, initializePlayerStateSync } from './managers/PlayerStateSyncManager';
+import { disposeMusicSessionRecorder, initializeMusicSessionRecorder } from './managers/MusicSessionManager';
+import { disposeMusicProvider, getMusicProvider } from './managers/MusicProviderManager';
+import { disposeMusicMutationQueue, initializeMusicMutationQueue } from './managers/MusicMutationQueueManager';
+import { disposeSmartPlaylistSync, initializeSmartPlaylistSync } from './managers/SmartPlaylistManager';
+import { getSettings, initializeSettings, MusicTimeSettings, onDidChangeSettings, updateSetting } from './managers/SettingsManager';
+import { reloadLocalMusicLibrary, switchMusicProvider } from './selector/MusicProviderSelectorManager';
+import { MusicCommandManager } from './music/MusicCommandManager';
+import { createMusicTimeApi, MusicTimeApi } from './managers/MusicTimeApiManager';
+import { registerDeepLinkHandler } from './managers/DeepLinkManager';
 
 let currentColorKind: number = undefined;
 
 export function deactivate(ctx: ExtensionContext) {
   clearWebsocketClient();
   clearSpotifyAccessToken();
+  disposeMusicSessionRecorder();
+  disposePlayerStateSync();
+  disposeMusicProvider();
+  disposeMusicMutationQueue();
+  disposeSmartPlaylistSync();
+  MusicCommandManager.dispose();
 }
 
-export async function activate(ctx: ExtensionContext) {
+export async function activate(ctx: ExtensionContext): Promise<MusicTimeApi> {
   // has a session file, continue with initialization of the plugin
   onboardPlugin(ctx, intializePlugin);
+
+  // the api is available to other extensions while the plugin initializes
+  return createMusicTimeApi(ctx);
 }
 
 export async function intializePlugin(ctx: ExtensionContext) {
   logIt(`Loaded ${getPluginName()} v${getVersion()}`);
 
+  // move the values saved by earlier versions into the settings before they're read
+  ctx.subscriptions.push(await initializeSettings());
+  ctx.subscriptions.push(onDidChangeSettings(onSettingsChange));
+
   // add the player commands before we show the playlist
   ctx.subscriptions.push(createCommands(ctx));
 
+  // play the vscode://softwaredotcom.music-time links
+  ctx.subscriptions.push(registerDeepLinkHandler());
+
   // show the readme if it doesn't exist
   displayReadmeIfNotExists();
 
@@ -39,6 +65,18 @@ export async function intializePlugin(ctx: ExtensionContext) {
   // this needs to happen first to enable spotify playlist and control logic
   await initializeSpotify();
 
+  // elect a window to poll the player and share the state with the other windows
+  initializePlayerStateSync();
+
+  // send the library changes that were made while spotify wasn't reachable
+  initializeMusicMutationQueue();
+
+  // keep the scheduled smart playlists in sync with their rules
+  initializeSmartPlaylistSync();
+
+  // record the coding activity that happens while each track plays
+  ctx.subscriptions.push(initializeMusicSessionRecorder());
+
   activateColorKindChangeListener();
 
   try {
@@ -55,6 +93,48 @@ export function getCurrentColorKind() {
   return currentColorKind;
 }
 
+/**
+ * Apply the settings that aren't read each time they're used
+ */
+function onSettingsChange(keys: (keyof MusicTimeSettings)[]) {
+  const settings: MusicTimeSettings = getSettings();
+  if (keys.includes("musicProvider") && !process.env.MUSIC_TIME_PROVIDER && settings.musicProvider !== getMusicProvider().id) {
+    applyMusicProviderSetting(settings.musicProvider);
+  }
+  if (keys.includes("localMusicFolder")) {
+    reloadLocalMusicLibrary();
+  }
+  if (keys.includes("defaultPlayer")) {
+    // clear the player picked this session so the new default is used
+    updateSelectedPlayer(undefined);
+  }
+  if (keys.includes("statusBarButtons") || keys.includes("statusBarAlignment")) {
+    MusicCommandManager.reloadButtons();
+  } else if (keys.some((key) => ["statusBarCompactMode", "nowPlayingFormat", "nowPlayingMaxLength", "nowPlayingMarquee"].includes(key))) {
+    MusicCommandManager.syncControls();
+  }
+}
+
+/**
+ * Switch to the provider picked in the settings. The setting is put
+ * back to the provider in use when it can't be switched to.
+ */
+async function applyMusicProviderSetting(providerId: string) {
+  let switched: boolean = false;
+  try {
+    switched = await switchMusicProvider(providerId);
+    if (!switched) {
+      window.showInformationMessage("Select a music folder to use the local music library.");
+    }
+  } catch (e) {
+    logIt(`Unable to switch to the ${providerId} music provider: ${e.message}`);
+    window.showErrorMessage(`Unable to switch the music provider to ${providerId}. ${e.message}`);
+  }
+  if (!switched) {
+    await updateSetting("musicProvider", getMusicProvider().id).catch((e) => logIt(`Unable to update the music provider setting: ${e.message}`));
+  }
+}
+
 /**
  * Active color theme listener
  */
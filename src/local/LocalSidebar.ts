@@ -0,0 +1,127 @@
+/**
+ * The sidebar shell used by the players that don't need a Software account
+ * (local library, MPRIS) when the sidebar can't be fetched from the app.
+ * It styles the subset of tailwind classes the sidebar items use.
+ */
+export async function getLocalSidebarHtml(selectedTabView: string) {
+  const tabClass = (tab: string) => (tab === selectedTabView ? "tab text-blue-500" : "tab text-gray-500");
+  return `<!DOCTYPE html>
+      <html lang="en">
+      <head>
+          <meta charset="UTF-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0" shrink-to-fit=no">
+          <title>Music Time</title>
+          <style>
+            *, ::before, ::after {
+              box-sizing: border-box;
+              border-width: 0;
+              border-style: solid;
+              border-color: currentColor;
+            }
+            body {
+              font-weight: 400;
+              background-color: transparent;
+              color: var(--vscode-foreground);
+              padding: 0 8px;
+            }
+            h4, p { margin: 0; padding: 0; }
+            a { color: inherit; text-decoration: none; }
+            button {
+              background: transparent;
+              color: inherit;
+              border: none;
+              cursor: pointer;
+              font: inherit;
+              text-align: left;
+              padding: 0;
+            }
+            .flex { display: flex; }
+            .flex-col { flex-direction: column; }
+            .hidden { display: none; }
+            .block { display: block; }
+            .inline-block { display: inline-block; }
+            .relative { position: relative; }
+            .absolute { position: absolute; z-index: 10; }
+            .right-0 { right: 0; }
+            .items-center { align-items: center; }
+            .justify-between { justify-content: space-between; }
+            .justify-center { justify-content: center; }
+            .space-x-2 > * + * { margin-left: 0.5rem; }
+            .space-y-1 > * + * { margin-top: 0.25rem; }
+            .space-y-2 > * + * { margin-top: 0.5rem; }
+            .space-y-3 > * + * { margin-top: 0.75rem; }
+            .space-y-4 > * + * { margin-top: 1rem; }
+            .w-full { width: 100%; }
+            .w-3 { width: 0.75rem; }
+            .w-64 { width: 16rem; }
+            .h-3.w-3 { height: 0.75rem; width: 0.75rem; }
+            .h-4.w-4 { height: 1rem; width: 1rem; }
+            .h-5.w-5 { height: 1.25rem; width: 1.25rem; }
+            .h-6.w-6 { height: 1.5rem; width: 1.5rem; }
+            .p-1 { padding: 0.25rem; }
+            .p-2 { padding: 0.5rem; }
+            .pl-1 { padding-left: 0.25rem; }
+            .pl-2 { padding-left: 0.5rem; }
+            .pr-2 { padding-right: 0.5rem; }
+            .pt-2 { padding-top: 0.5rem; }
+            .pb-2 { padding-bottom: 0.5rem; }
+            .pb-4 { padding-bottom: 1rem; }
+            .px-2 { padding-left: 0.5rem; padding-right: 0.5rem; }
+            .py-1 { padding-top: 0.25rem; padding-bottom: 0.25rem; }
+            .py-2 { padding-top: 0.5rem; padding-bottom: 0.5rem; }
+            .py-3 { padding-top: 0.75rem; padding-bottom: 0.75rem; }
+            .mt-2 { margin-top: 0.5rem; }
+            .text-xs { font-size: 0.75rem; }
+            .text-sm { font-size: 0.875rem; }
+            .text-left { text-align: left; }
+            .font-medium { font-weight: 500; }
+            .font-semibold { font-weight: 600; }
+            .truncate { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+            .text-gray-400, .text-gray-500 { color: var(--vscode-descriptionForeground); }
+            .text-blue-500, .text-blue-600 { color: var(--vscode-textLink-foreground); }
+            .hover\\:text-blue-500:hover { color: var(--vscode-textLink-activeForeground); }
+            .rounded, .rounded-lg { border-radius: 0.375rem; }
+            .border { border-width: 1px; border-color: var(--vscode-widget-border, #888); }
+            .shadow-lg { box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3); }
+            .bg-gray-50 { background-color: var(--vscode-editorWidget-background); }
+            .sr-only { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0, 0, 0, 0); }
+            [data-track-container]:hover .hidden.relative { display: inline-block; }
+            .tab { font-size: 0.75rem; font-weight: 600; margin-right: 1rem; }
+          </style>
+          <script language="javascript">
+            const vscode = acquireVsCodeApi();
+
+            function onCmdClick(action, payload = {}) {
+              vscode.postMessage({
+                  command: 'command_execute',
+                  action,
+                  payload
+              });
+            }
+
+            // the app sidebar toggles its menus with stimulus
+            document.addEventListener('click', (event) => {
+              const target = event.target.closest('[data-action]');
+              if (!target) {
+                return;
+              }
+              const action = target.getAttribute('data-action');
+              if (action.endsWith('#toggleTrackControl')) {
+                document.querySelector('[data-plugin--music-time--sidebar-target="trackControlMenu"]').classList.toggle('hidden');
+              } else if (action.endsWith('#toggleTrackOptions')) {
+                const trackId = target.getAttribute('data-track-id');
+                document.getElementById(trackId + '_options').classList.toggle('hidden');
+              }
+            });
+          </script>
+      </head>
+      <body>
+        <div class="flex items-center py-2">
+          <button type="button" class="${tabClass("playlists")}" onclick="onCmdClick('tabSelection', { tab_view: 'playlists' })">Playlists</button>
+          <button type="button" class="${tabClass("search")}" onclick="onCmdClick('tabSelection', { tab_view: 'search' })">Search</button>
+          <button type="button" class="${tabClass("metrics")}" onclick="onCmdClick('tabSelection', { tab_view: 'metrics' })">Metrics</button>
+        </div>
+        __playlist_items_placeholder__
+      </body>
+      </html>`;
+}
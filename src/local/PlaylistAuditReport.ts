@@ -0,0 +1,95 @@
+import { PlaylistAuditIssue, PlaylistAuditIssueType, PlaylistAuditReport } from "../managers/PlaylistAuditManager";
+import { escapeHtml } from "../Util";
+
+const ISSUE_LABELS = { duplicate: "Duplicate", nearDuplicate: "Possible duplicate", unavailable: "Unavailable" };
+
+/**
+ * The playlist audit results, grouped by playlist. The fix buttons post
+ * the same command messages as the sidebar.
+ */
+export function getPlaylistAuditHtml(report: PlaylistAuditReport) {
+  const playlistIds: string[] = Array.from(new Set(report.issues.map((n) => n.playlist_id)));
+  const sections: string = playlistIds
+    .map((playlistId: string) => {
+      const issues: PlaylistAuditIssue[] = report.issues.filter((n) => n.playlist_id === playlistId);
+      return `<section>
+        <h2>${escapeHtml(issues[0].playlist_name)}</h2>
+        ${issues.map(getIssueHtml).join("\n")}
+      </section>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+      <html lang="en">
+      <head>
+          <meta charset="UTF-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0" shrink-to-fit=no">
+          <title>Playlist Audit</title>
+          <style>
+            body { color: var(--vscode-foreground); font-size: 13px; padding: 16px; }
+            h1 { font-size: 18px; margin: 0 0 4px 0; }
+            h2 { font-size: 14px; margin: 24px 0 8px 0; }
+            .summary, .detail { color: var(--vscode-descriptionForeground); }
+            .issue { display: flex; justify-content: space-between; align-items: center; padding: 6px 0; border-bottom: 1px solid var(--vscode-panel-border); }
+            .label { font-size: 11px; font-weight: 600; text-transform: uppercase; margin-right: 8px; }
+            .duplicate, .unavailable { color: var(--vscode-errorForeground); }
+            .nearDuplicate { color: var(--vscode-editorWarning-foreground); }
+            button { margin-left: 8px; padding: 4px 10px; border: none; cursor: pointer; color: var(--vscode-button-foreground); background-color: var(--vscode-button-background); }
+            button:hover { background-color: var(--vscode-button-hoverBackground); }
+          </style>
+          <script language="javascript">
+            const vscode = acquireVsCodeApi();
+
+            function onCmdClick(action, payload = {}) {
+              vscode.postMessage({
+                  command: 'command_execute',
+                  action,
+                  payload
+              });
+            }
+          </script>
+      </head>
+      <body>
+        <h1>Playlist Audit</h1>
+        <p class="summary">${getSummary(report)}</p>
+        ${sections}
+      </body>
+      </html>`;
+}
+
+function getSummary(report: PlaylistAuditReport) {
+  const scanned = `${report.tracks_scanned} songs in ${report.playlists_scanned} playlists`;
+  if (!report.issues.length) {
+    return `No duplicate or unavailable songs were found in ${scanned}.`;
+  }
+  const counts: string = (Object.keys(ISSUE_LABELS) as PlaylistAuditIssueType[])
+    .map((type) => ({ type, count: report.issues.filter((n) => n.type === type).length }))
+    .filter((n) => n.count > 0)
+    .map((n) => `${n.count} ${ISSUE_LABELS[n.type].toLowerCase()}`)
+    .join(", ");
+  return `Found ${counts} in ${scanned}.`;
+}
+
+function getIssueHtml(issue: PlaylistAuditIssue) {
+  const fixButton = (label: string, fix: string) => {
+    return `<button type="button" onclick="onCmdClick('fixPlaylistAuditIssue', { issueId: '${issue.id}', fix: '${fix}' })">${label}</button>`;
+  };
+  let detail = "";
+  if (issue.type === "unavailable") {
+    detail = "Not playable in your market";
+  } else if (issue.original) {
+    const sameAlbum = issue.original.album === issue.track.album;
+    detail = `Same as #${issue.original.position + 1}${sameAlbum ? "" : ` from '${escapeHtml(issue.original.album)}'`}`;
+  }
+  return `<div class="issue">
+    <div>
+      <span class="label ${issue.type}">${ISSUE_LABELS[issue.type]}</span>
+      #${issue.track.position + 1} ${escapeHtml(issue.track.name)} - ${escapeHtml(issue.track.artist)}
+      <div class="detail">${escapeHtml(issue.track.album)}${detail ? ` · ${detail}` : ""}</div>
+    </div>
+    <div>
+      ${issue.type === "unavailable" ? fixButton("Replace", "replace") : ""}
+      ${fixButton("Remove", "remove")}
+    </div>
+  </div>`;
+}
@@ -0,0 +1,146 @@
+import { PlaylistItem } from "cody-music";
+import { commands, window } from "vscode";
+import { ARTIST_PLAYLIST_ID } from "../Constants";
+import { showQuickPick } from "../MenuManager";
+import { ArtistInfo, MusicProvider } from "../providers/MusicProvider";
+import { logIt } from "../Util";
+import { getMusicProvider } from "./MusicProviderManager";
+import { getSearchResultItem } from "./SearchManager";
+
+export interface ArtistAlbumDetail {
+  album: PlaylistItem;
+  tracks: PlaylistItem[];
+}
+
+let artistInfo: ArtistInfo = undefined;
+// the album or single that was opened from the discography
+let albumDetail: ArtistAlbumDetail = undefined;
+
+export function getArtistInfo(): ArtistInfo {
+  return artistInfo;
+}
+
+export function getArtistAlbumDetail(): ArtistAlbumDetail {
+  return albumDetail;
+}
+
+/**
+ * Open the artist view
+ * @param artist an item with the artist id and name
+ */
+export async function showArtist(artist: PlaylistItem) {
+  if (!artist?.id && !artist?.name) {
+    return;
+  }
+  const provider: MusicProvider = getMusicProvider();
+  try {
+    const info: ArtistInfo = await provider.getArtistInfo(artist);
+    artistInfo = {
+      ...info,
+      top_tracks: info.top_tracks.map((n: PlaylistItem) => toArtistTrack(n)),
+    };
+    albumDetail = undefined;
+  } catch (e) {
+    logIt(`Error fetching the artist '${artist.name}': ${e.message}`);
+    window.showErrorMessage(`Unable to show the artist '${artist.name ?? ""}'`);
+    return;
+  }
+  refreshArtistView();
+}
+
+/**
+ * Open the artist of a track, asking which one when the track has several
+ * @param track
+ */
+export async function showArtistForTrack(track: PlaylistItem) {
+  const artists: PlaylistItem[] = getTrackArtists(track);
+  if (!artists.length) {
+    window.showInformationMessage("The track doesn't have an artist to show");
+    return;
+  }
+  if (artists.length === 1) {
+    return await showArtist(artists[0]);
+  }
+  const pick = await showQuickPick({
+    items: artists.map((n: PlaylistItem) => ({ label: n.name, artist: n })),
+    placeholder: "Select the artist to show",
+  });
+  if (pick?.artist) {
+    await showArtist(pick.artist);
+  }
+}
+
+/**
+ * Open an artist that's listed in the artist or search view
+ * @param artist_id
+ */
+export async function showListedArtist(artist_id: string) {
+  const artist: PlaylistItem =
+    artistInfo?.related_artists.find((n: PlaylistItem) => n.id === artist_id) ?? getSearchResultItem("artist", artist_id);
+  await showArtist(artist);
+}
+
+/**
+ * List the tracks of an album or single from the discography
+ * @param album_id
+ */
+export async function showArtistAlbum(album_id: string) {
+  const album: PlaylistItem = [...(artistInfo?.albums ?? []), ...(artistInfo?.singles ?? [])].find((n: PlaylistItem) => n.id === album_id);
+  if (!album) {
+    return;
+  }
+  const tracks: PlaylistItem[] = (await getMusicProvider().getAlbumTracks(album)) ?? [];
+  albumDetail = { album, tracks: tracks.map((n: PlaylistItem) => toArtistTrack(n)) };
+  refreshArtistView();
+}
+
+export function closeArtistAlbum() {
+  albumDetail = undefined;
+  refreshArtistView();
+}
+
+/**
+ * The listed artist track, from the album when one is open
+ * @param track_id
+ */
+export function getArtistTrack(track_id: string): PlaylistItem {
+  return getListedArtistTracks().find((n: PlaylistItem) => n.id === track_id);
+}
+
+/**
+ * The uris of the listed tracks starting with the given track
+ * @param track_id
+ */
+export function getArtistURIsFromTrackId(track_id: string): string[] {
+  const tracks: PlaylistItem[] = getListedArtistTracks();
+  const idx: number = Math.max(tracks.findIndex((n: PlaylistItem) => n.id === track_id), 0);
+  return [...tracks.slice(idx), ...tracks.slice(0, idx)].map((n: PlaylistItem) => n.uri || `spotify:track:${n.id}`);
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+function getTrackArtists(track: PlaylistItem): PlaylistItem[] {
+  const trackArtists: any[] = track?.["trackArtists"]?.length ? track["trackArtists"] : track?.artist ? [{ name: track.artist }] : [];
+  return trackArtists.map((n: any) => {
+    const item: PlaylistItem = new PlaylistItem();
+    item.type = "artist";
+    item.itemType = "artist";
+    item.id = n.id;
+    item.name = n.name;
+    return item;
+  });
+}
+
+function getListedArtistTracks(): PlaylistItem[] {
+  return albumDetail ? albumDetail.tracks : artistInfo?.top_tracks ?? [];
+}
+
+function toArtistTrack(track: PlaylistItem): PlaylistItem {
+  return { ...track, playlist_id: ARTIST_PLAYLIST_ID } as PlaylistItem;
+}
+
+function refreshArtistView() {
+  commands.executeCommand("musictime.refreshMusicTimeView", { tabView: "artist" });
+}
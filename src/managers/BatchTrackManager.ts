@@ -0,0 +1,159 @@
+import { PlaylistItem } from "cody-music";
+import { commands, window } from "vscode";
+import { YES_LABEL } from "../Constants";
+import { showQuickPick } from "../MenuManager";
+import { buildSpotifyLink } from "../music/MusicControlManager";
+import { BATCH_TRACK_LIMIT, MusicProvider } from "../providers/MusicProvider";
+import { chunkArray, logIt } from "../Util";
+import { getMusicProvider } from "./MusicProviderManager";
+import { updateSelectedTrackItems } from "./PlaylistDataManager";
+
+const clipboardy = require("clipboardy");
+
+export type BatchTrackAction = "like" | "unlike" | "addToPlaylist" | "removeFromPlaylist" | "copyLinks";
+
+/**
+ * Apply an action to the tracks selected in a playlist. The tracks are
+ * sent in batches and a single message reports the tracks that failed.
+ * @param action
+ * @param playlist_id the playlist the tracks were selected in
+ * @param track_ids
+ */
+export async function runBatchTrackAction(action: BatchTrackAction, playlist_id: string, track_ids: string[]) {
+  const tracks: PlaylistItem[] = await getSelectedTracks(playlist_id, track_ids);
+  if (!tracks.length) {
+    return;
+  }
+  updateSelectedTrackItems(tracks);
+
+  const provider: MusicProvider = getMusicProvider();
+  switch (action) {
+    case "like":
+    case "unlike": {
+      const liked = action === "like";
+      const failed = await sendInBatches(tracks, (batch) => provider.setLikedTracks(batch, liked));
+      const done = liked ? `Saved ${tracks.length} songs to your liked songs.` : `Removed ${tracks.length} songs from your liked songs.`;
+      reportBatchResult(tracks, failed, liked ? "like" : "unlike", done);
+      break;
+    }
+    case "addToPlaylist":
+      await addTracksToPlaylist(playlist_id, tracks);
+      break;
+    case "removeFromPlaylist":
+      await removeTracksFromPlaylist(playlist_id, tracks);
+      break;
+    case "copyLinks":
+      copyTrackLinks(tracks);
+      return;
+  }
+  commands.executeCommand("musictime.refreshMusicTimeView");
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+/**
+ * The selected tracks in the order they were selected
+ */
+async function getSelectedTracks(playlist_id: string, track_ids: string[]): Promise<PlaylistItem[]> {
+  const playlistTracks: PlaylistItem[] = await getMusicProvider().getPlaylistTracks(playlist_id);
+  return (track_ids ?? []).map((id: string) => playlistTracks.find((n) => n.id === id)).filter((n) => !!n);
+}
+
+async function addTracksToPlaylist(playlist_id: string, tracks: PlaylistItem[]) {
+  const provider: MusicProvider = getMusicProvider();
+  const likedPlaylist: PlaylistItem = provider.getLikedPlaylist();
+  const playlists: PlaylistItem[] = (await provider.getPlaylists()).filter((n) => n.id !== playlist_id && provider.canEditPlaylist(n));
+  if (likedPlaylist && likedPlaylist.id !== playlist_id) {
+    playlists.unshift(likedPlaylist);
+  }
+  if (!playlists.length) {
+    window.showInformationMessage(`There are no ${provider.displayName} playlists the songs can be added to.`);
+    return;
+  }
+
+  const pick = await showQuickPick({
+    items: playlists.map((n: PlaylistItem) => ({ label: n.name, args: n.id })),
+    placeholder: `Add ${tracks.length} songs to a playlist`,
+  });
+  const target: PlaylistItem = playlists.find((n) => n.id === pick?.args);
+  if (!target) {
+    return;
+  }
+
+  const failed: PlaylistItem[] =
+    target.id === likedPlaylist?.id
+      ? await sendInBatches(tracks, (batch) => provider.setLikedTracks(batch, true))
+      : await sendInBatches(tracks, (batch) => provider.addTracksToPlaylist(target.id, batch));
+  reportBatchResult(tracks, failed, `add to '${target.name}'`, `Added ${tracks.length} songs to '${target.name}'.`);
+}
+
+async function removeTracksFromPlaylist(playlist_id: string, tracks: PlaylistItem[]) {
+  const provider: MusicProvider = getMusicProvider();
+  const isLikedPlaylist = playlist_id === provider.getLikedPlaylist()?.id;
+  const playlist: PlaylistItem = isLikedPlaylist
+    ? provider.getLikedPlaylist()
+    : (await provider.getPlaylists()).find((n) => n.id === playlist_id);
+  if (!playlist || (!isLikedPlaylist && !provider.canEditPlaylist(playlist))) {
+    window.showInformationMessage("Songs can only be removed from your own or collaborative playlists.");
+    return;
+  }
+
+  const selection = await window.showWarningMessage(
+    `Are you sure you would like to remove ${tracks.length} songs from '${playlist.name}'?`,
+    { modal: true },
+    YES_LABEL
+  );
+  if (selection !== YES_LABEL) {
+    return;
+  }
+
+  const failed: PlaylistItem[] = isLikedPlaylist
+    ? await sendInBatches(tracks, (batch) => provider.setLikedTracks(batch, false))
+    : await sendInBatches(tracks, (batch) => provider.removeTracksFromPlaylist(playlist_id, batch));
+  reportBatchResult(tracks, failed, `remove from '${playlist.name}'`, `Removed ${tracks.length} songs from '${playlist.name}'.`);
+}
+
+function copyTrackLinks(tracks: PlaylistItem[]) {
+  const isSpotify = getMusicProvider().id === "spotify";
+  const links: string[] = tracks.map((n: PlaylistItem) => (isSpotify ? buildSpotifyLink(n.id, false) : n.uri)).filter((n) => !!n);
+  try {
+    clipboardy.writeSync(links.join("\n"));
+    window.showInformationMessage(`Copied ${links.length} song links to your clipboard.`);
+  } catch (e) {
+    logIt(`Unable to copy to clipboard, error: ${e.message}`);
+  }
+}
+
+/**
+ * Returns the tracks of the batches that failed or threw
+ */
+async function sendInBatches(tracks: PlaylistItem[], send: (batch: PlaylistItem[]) => Promise<PlaylistItem[]>): Promise<PlaylistItem[]> {
+  const failed: PlaylistItem[] = [];
+  for (const batch of chunkArray(tracks, BATCH_TRACK_LIMIT)) {
+    try {
+      failed.push(...(await send(batch)));
+    } catch (e) {
+      logIt(`Batch track change failed: ${e.message}`);
+      failed.push(...batch);
+    }
+  }
+  return failed;
+}
+
+/**
+ * One message for the whole selection, listing a few of the failed tracks
+ */
+function reportBatchResult(tracks: PlaylistItem[], failed: PlaylistItem[], verb: string, doneMessage: string) {
+  if (!failed.length) {
+    window.showInformationMessage(doneMessage);
+    return;
+  }
+  const names: string = failed
+    .slice(0, 3)
+    .map((n) => `'${n.name}'`)
+    .join(", ");
+  const more: string = failed.length > 3 ? ` and ${failed.length - 3} more` : "";
+  window.showErrorMessage(`Unable to ${verb} ${failed.length} of ${tracks.length} songs: ${names}${more}.`);
+}
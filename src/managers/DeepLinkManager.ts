@@ -0,0 +1,98 @@
+import { commands, Disposable, Uri, window } from "vscode";
+import { MusicClient } from "cody-music/dist/lib/client";
+import { MusicCommandUtil } from "../music/MusicCommandUtil";
+import { RequestPriority } from "../music/SpotifyRequestScheduler";
+import { MusicProvider } from "../providers/MusicProvider";
+import { logIt } from "../Util";
+import { getMusicProvider } from "./MusicProviderManager";
+import { playSpotifyUri } from "./PlaylistControlManager";
+
+const queryString = require("query-string");
+
+type DeepLinkType = "track" | "playlist" | "album" | "artist";
+
+// the link paths and the spotify uri types each one can play
+const DEEP_LINK_PATHS: { [path: string]: DeepLinkType[] } = {
+  play: ["track", "playlist", "album", "artist"],
+  playlist: ["playlist"],
+  album: ["album"],
+  artist: ["artist"],
+};
+const PLAY_LABEL = "Play";
+
+/**
+ * Handle links such as vscode://softwaredotcom.music-time/play?uri=spotify:track:<id>
+ * and the playlist, album and artist paths. The uri can also be given as an id.
+ */
+export function registerDeepLinkHandler(): Disposable {
+  return window.registerUriHandler({ handleUri: onDeepLink });
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+async function onDeepLink(uri: Uri) {
+  const path: string = uri.path.replace(/^\/+|\/+$/g, "").toLowerCase();
+  const types: DeepLinkType[] = DEEP_LINK_PATHS[path];
+  const query = queryString.parse(uri.query);
+  const spotifyUri: string = getSpotifyUri(path, `${query.uri ?? query.id ?? ""}`);
+  const type = spotifyUri?.split(":")[1] as DeepLinkType;
+  if (!types || !spotifyUri || !types.includes(type)) {
+    logIt(`Unable to handle the link ${uri.toString()}`);
+    window.showErrorMessage("This Music Time link isn't valid. Links look like vscode://softwaredotcom.music-time/play?uri=spotify:track:<id>");
+    return;
+  }
+
+  const provider: MusicProvider = getMusicProvider();
+  if (provider.id !== "spotify") {
+    window.showInformationMessage("Music Time links play on Spotify. Select Spotify as the music provider to play them.");
+    return;
+  }
+  if (await provider.requiresAccess()) {
+    const selection = await window.showInformationMessage("Connect Spotify to play this Music Time link.", "Connect");
+    if (selection === "Connect") {
+      commands.executeCommand("musictime.connectSpotify");
+    }
+    return;
+  }
+
+  // links come from anywhere, so ask before playing
+  const name: string = await getItemName(spotifyUri, type);
+  const selection = await window.showInformationMessage(`Play the ${type} '${name}' from a Music Time link?`, { modal: true }, PLAY_LABEL);
+  if (selection === PLAY_LABEL) {
+    await playSpotifyUri(spotifyUri);
+  }
+}
+
+/**
+ * A spotify uri from the uri or id query param, an id is
+ * typed by the path and the play path is for tracks
+ */
+function getSpotifyUri(path: string, value: string): string {
+  value = value.trim();
+  if (/^spotify:(track|playlist|album|artist):[a-zA-Z0-9]+$/.test(value)) {
+    return value;
+  }
+  if (/^[a-zA-Z0-9]+$/.test(value) && DEEP_LINK_PATHS[path]) {
+    return `spotify:${path === "play" ? "track" : path}:${value}`;
+  }
+  return undefined;
+}
+
+/**
+ * The name shown in the confirmation, i.e. "Song - Artist"
+ */
+async function getItemName(spotifyUri: string, type: DeepLinkType): Promise<string> {
+  const id: string = spotifyUri.split(":")[2];
+  const client = MusicClient.getInstance();
+  const resp = await MusicCommandUtil.getInstance().runSpotifyCommand(client.spotifyApiGet.bind(client), [`/v1/${type}s/${id}`, {}], {
+    priority: RequestPriority.Background,
+  });
+  const data = MusicCommandUtil.getInstance().getResponseStatus(resp) < 300 ? resp?.data : undefined;
+  if (!data?.name) {
+    return spotifyUri;
+  }
+  const artists: string = (data.artists ?? []).map((n: any) => n.name).join(", ");
+  return artists ? `${data.name} - ${artists}` : data.name;
+}
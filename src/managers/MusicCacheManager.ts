@@ -0,0 +1,120 @@
+import { MUSIC_CACHE_TTL_SECONDS, MUSIC_CACHE_VERSION } from "../Constants";
+import { getMusicCacheFile, logIt, nowInSecs } from "../Util";
+import { getFileDataAsJson, storeJsonData } from "./FileManager";
+
+const crypto = require("crypto");
+
+export const PLAYLISTS_CACHE_KEY = "playlists";
+export const LIKED_SONGS_CACHE_KEY = "liked_songs";
+export const LIKED_SONGS_ADDED_CACHE_KEY = "liked_songs_added";
+export const AUDIO_FEATURES_CACHE_KEY = "audio_features";
+
+export interface MusicCacheEntry {
+  data: any;
+  // snapshot_id or etag like value used to tell if the entry is still current
+  version_tag: string;
+  updated_at: number;
+}
+
+let musicCache: any = undefined;
+
+export function getPlaylistTracksCacheKey(playlist_id: string) {
+  return `playlist_tracks:${playlist_id}`;
+}
+
+export function createCacheVersionTag(values: string[]) {
+  return crypto.createHash("md5").update(values.join(",")).digest("hex");
+}
+
+/**
+ * Returns the cached entry for the key or null if it
+ * doesn't exist or has outlived the cache ttl
+ */
+export function getMusicCacheEntry(key: string): MusicCacheEntry {
+  const entry: MusicCacheEntry = getMusicCache().entries[key];
+  if (!entry || nowInSecs() - entry.updated_at > MUSIC_CACHE_TTL_SECONDS) {
+    return null;
+  }
+  return entry;
+}
+
+export function updateMusicCacheEntry(key: string, data: any, version_tag: string = "") {
+  const cache = getMusicCache();
+  cache.entries[key] = { data, version_tag, updated_at: nowInSecs() };
+  storeMusicCache(cache);
+}
+
+/**
+ * Update the data of an existing entry without changing its version tag
+ * or expiration. Used when the local state is changed by a user action.
+ */
+export function updateMusicCacheEntryData(key: string, data: any) {
+  const cache = getMusicCache();
+  if (cache.entries[key]) {
+    cache.entries[key].data = data;
+    storeMusicCache(cache);
+  }
+}
+
+export function removeMusicCacheEntry(key: string) {
+  const cache = getMusicCache();
+  if (cache.entries[key]) {
+    delete cache.entries[key];
+    storeMusicCache(cache);
+  }
+}
+
+export function clearMusicCache() {
+  storeMusicCache(createMusicCache());
+}
+
+/**
+ * Clears the cache if it belongs to a different spotify account.
+ * Returns true if the cache was cleared.
+ */
+export function updateMusicCacheOwner(spotify_user_id: string) {
+  const cache = getMusicCache();
+  if (!spotify_user_id || cache.spotify_user_id === spotify_user_id) {
+    return false;
+  }
+  const ownerChanged = !!cache.spotify_user_id;
+  const updatedCache = createMusicCache();
+  updatedCache.spotify_user_id = spotify_user_id;
+  storeMusicCache(updatedCache);
+  return ownerChanged;
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+function getMusicCache() {
+  if (!musicCache) {
+    let data = null;
+    try {
+      data = getFileDataAsJson(getMusicCacheFile());
+    } catch (e) {
+      logIt(`Unable to read the music cache. ${e.message}`);
+    }
+    // start over if the cache was written by a different version
+    musicCache = data?.version === MUSIC_CACHE_VERSION && data.entries ? data : createMusicCache();
+  }
+  return musicCache;
+}
+
+function storeMusicCache(cache: any) {
+  musicCache = cache;
+  try {
+    storeJsonData(getMusicCacheFile(), cache);
+  } catch (e) {
+    logIt(`Unable to write the music cache. ${e.message}`);
+  }
+}
+
+function createMusicCache() {
+  return {
+    version: MUSIC_CACHE_VERSION,
+    spotify_user_id: "",
+    entries: {},
+  };
+}
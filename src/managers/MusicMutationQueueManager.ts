@@ -0,0 +1,318 @@
+import { addTracksToPlaylist, CodyResponse, CodyResponseType, followPlaylist, removeFromSpotifyLiked, removeTracksFromPlaylist, saveToSpotifyLiked } from "cody-music";
+import { MusicClient } from "cody-music/dist/lib/client";
+import { commands, window } from "vscode";
+import { v4 as uuidv4 } from "uuid";
+import { MusicCommandUtil } from "../music/MusicCommandUtil";
+import { RequestPriority } from "../music/SpotifyRequestScheduler";
+import { getMusicMutationQueueFile, logIt, nowInSecs } from "../Util";
+import { getFileDataAsJson, storeJsonData } from "./FileManager";
+import { isLeaderWindow } from "./PlayerStateSyncManager";
+import { getSpotifyPlaylists, reloadLikedSongs, reloadPlaylistTracks } from "./PlaylistDataManager";
+import { getConnectedSpotifyUser } from "./SpotifyManager";
+
+const MIN_RETRY_SECONDS = 5;
+const MAX_RETRY_SECONDS = 60 * 5;
+// how often the leader window looks for mutations that are due
+const QUEUE_CHECK_SECONDS = 15;
+
+export type MusicMutationType = "like" | "unlike" | "addToPlaylist" | "removeFromPlaylist" | "followPlaylist";
+
+/**
+ * A library change that was applied to the local state
+ * and still has to be sent to spotify
+ */
+export interface MusicMutation {
+  id: string;
+  type: MusicMutationType;
+  track_id?: string;
+  track_uri?: string;
+  track_name?: string;
+  playlist_id?: string;
+  playlist_name?: string;
+  created: number;
+  attempts: number;
+  next_attempt: number;
+  last_error?: string;
+}
+
+export enum MutationResult {
+  Sent,
+  // the server already has the change
+  Resolved,
+  Retry,
+  Rejected,
+}
+
+let queueInterval: any = undefined;
+let processing: boolean = false;
+
+export function initializeMusicMutationQueue() {
+  if (queueInterval) {
+    return;
+  }
+  queueInterval = setInterval(() => {
+    // one window replays the queue so changes aren't sent twice
+    if (isLeaderWindow()) {
+      processMusicMutationQueue();
+    }
+  }, QUEUE_CHECK_SECONDS * 1000);
+}
+
+export function disposeMusicMutationQueue() {
+  if (queueInterval) {
+    clearInterval(queueInterval);
+    queueInterval = undefined;
+  }
+}
+
+export function getPendingMusicMutations(): MusicMutation[] {
+  return getFileDataAsJson(getMusicMutationQueueFile()) ?? [];
+}
+
+/**
+ * Queue a change the caller has already applied locally and try to
+ * send it right away. A newer change to the same track or playlist
+ * replaces a pending one. Resolves to the result of the first attempt,
+ * the queue has already told the user when it wasn't sent.
+ */
+export async function enqueueMusicMutation(mutation: Partial<MusicMutation>): Promise<MutationResult> {
+  const pending: MusicMutation = {
+    ...mutation,
+    id: uuidv4(),
+    type: mutation.type,
+    created: nowInSecs(),
+    attempts: 0,
+    // keep the leader from replaying it while it's being sent
+    next_attempt: nowInSecs() + MIN_RETRY_SECONDS,
+  };
+  const key = getMutationKey(pending);
+  storeMusicMutations([...getPendingMusicMutations().filter((n) => getMutationKey(n) !== key), pending]);
+
+  const result: MutationResult = await sendMutation(pending);
+  if (result === MutationResult.Retry) {
+    window.showInformationMessage(`${describeMusicMutation(pending)} will be synced with Spotify when it's reachable.`);
+    commands.executeCommand("musictime.refreshMusicTimeView");
+  }
+  return result;
+}
+
+/**
+ * True when spotify has the change, sent now or already made on another device
+ */
+export function isMutationSent(result: MutationResult): boolean {
+  return result === MutationResult.Sent || result === MutationResult.Resolved;
+}
+
+/**
+ * Send the mutations that are due. Pass force to ignore the backoff.
+ */
+export async function processMusicMutationQueue(force: boolean = false) {
+  if (processing) {
+    return;
+  }
+  processing = true;
+  const now = nowInSecs();
+  const due: MusicMutation[] = getPendingMusicMutations().filter((n) => force || n.next_attempt <= now);
+  try {
+    for (const mutation of due) {
+      const result: MutationResult = await sendMutation(mutation);
+      if (result === MutationResult.Retry && !force) {
+        // still offline, the rest would fail too
+        break;
+      }
+    }
+  } finally {
+    processing = false;
+  }
+  if (due.length) {
+    commands.executeCommand("musictime.refreshMusicTimeView");
+  }
+}
+
+export function describeMusicMutation(mutation: MusicMutation): string {
+  switch (mutation.type) {
+    case "like":
+      return `Saving '${mutation.track_name}' to your liked songs`;
+    case "unlike":
+      return `Removing '${mutation.track_name}' from your liked songs`;
+    case "addToPlaylist":
+      return `Adding '${mutation.track_name}' to '${mutation.playlist_name}'`;
+    case "removeFromPlaylist":
+      return `Removing '${mutation.track_name}' from '${mutation.playlist_name}'`;
+    case "followPlaylist":
+      return `Following '${mutation.playlist_name}'`;
+  }
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+function storeMusicMutations(mutations: MusicMutation[]) {
+  storeJsonData(getMusicMutationQueueFile(), mutations);
+}
+
+function getMutationKey(mutation: MusicMutation): string {
+  switch (mutation.type) {
+    case "like":
+    case "unlike":
+      return `liked:${mutation.track_id}`;
+    case "addToPlaylist":
+    case "removeFromPlaylist":
+      return `playlist:${mutation.playlist_id}:${mutation.track_id}`;
+    default:
+      return `follow:${mutation.playlist_id}`;
+  }
+}
+
+async function sendMutation(mutation: MusicMutation): Promise<MutationResult> {
+  let result: MutationResult;
+  let errMsg: string = "";
+  try {
+    // a replay checks the server state first, another device may have made the change while it was queued
+    const serverState: MutationResult = mutation.attempts ? await checkServerState(mutation) : undefined;
+    if (serverState !== undefined) {
+      result = serverState;
+    } else {
+      const resp: CodyResponse = await applyMutation(mutation);
+      result = getMutationResult(resp);
+      errMsg = resp?.message ?? "";
+    }
+  } catch (e) {
+    result = MutationResult.Retry;
+    errMsg = e.message;
+  }
+
+  // re-read the queue, another window may have changed it
+  const mutations: MusicMutation[] = getPendingMusicMutations();
+  const idx = mutations.findIndex((n) => n.id === mutation.id);
+  if (result === MutationResult.Retry) {
+    if (idx !== -1) {
+      const attempts = mutations[idx].attempts + 1;
+      mutations[idx].attempts = attempts;
+      mutations[idx].next_attempt = nowInSecs() + Math.min(MIN_RETRY_SECONDS * Math.pow(2, attempts), MAX_RETRY_SECONDS);
+      mutations[idx].last_error = errMsg;
+      storeMusicMutations(mutations);
+    }
+    return result;
+  }
+
+  if (idx !== -1) {
+    mutations.splice(idx, 1);
+    storeMusicMutations(mutations);
+  }
+  if (result === MutationResult.Rejected) {
+    logIt(`Dropped the queued change '${describeMusicMutation(mutation)}'. ${errMsg}`);
+    window.showErrorMessage(`${describeMusicMutation(mutation)} failed. ${errMsg}`);
+    // the local state is out of date
+    await reloadMutatedData(mutation);
+  } else if (mutation.type === "followPlaylist") {
+    // pick up the full playlist details
+    await getSpotifyPlaylists(true);
+  }
+  return result;
+}
+
+async function applyMutation(mutation: MusicMutation): Promise<CodyResponse> {
+  const util: MusicCommandUtil = MusicCommandUtil.getInstance();
+  // replays run behind user actions, a new mutation is sent right away
+  const options = { priority: mutation.attempts ? RequestPriority.Background : RequestPriority.User };
+  switch (mutation.type) {
+    case "like":
+      return await util.runSpotifyCommand(saveToSpotifyLiked, [[mutation.track_id]], options);
+    case "unlike":
+      return await util.runSpotifyCommand(removeFromSpotifyLiked, [[mutation.track_id]], options);
+    case "addToPlaylist":
+      return await util.runSpotifyCommand(addTracksToPlaylist, [mutation.playlist_id, [mutation.track_uri]], options);
+    case "removeFromPlaylist":
+      return await util.runSpotifyCommand(removeTracksFromPlaylist, [mutation.playlist_id, [mutation.track_id]], options);
+    case "followPlaylist":
+      return await util.runSpotifyCommand(followPlaylist, [mutation.playlist_id], options);
+  }
+}
+
+/**
+ * Returns Resolved when the server already matches the mutation, Rejected
+ * when it can no longer be applied and undefined when it should be sent.
+ */
+async function checkServerState(mutation: MusicMutation): Promise<MutationResult> {
+  switch (mutation.type) {
+    case "like":
+    case "unlike": {
+      const resp = await spotifyGet("/v1/me/tracks/contains", { ids: mutation.track_id });
+      if (!Array.isArray(resp)) {
+        return resp;
+      }
+      return resp[0] === (mutation.type === "like") ? MutationResult.Resolved : undefined;
+    }
+    case "addToPlaylist":
+    case "removeFromPlaylist": {
+      const trackIds = await getServerPlaylistTrackIds(mutation.playlist_id);
+      if (!Array.isArray(trackIds)) {
+        return trackIds;
+      }
+      return trackIds.includes(mutation.track_id) === (mutation.type === "addToPlaylist") ? MutationResult.Resolved : undefined;
+    }
+    case "followPlaylist": {
+      const user = await getConnectedSpotifyUser();
+      if (!user?.id) {
+        return MutationResult.Retry;
+      }
+      const resp = await spotifyGet(`/v1/playlists/${mutation.playlist_id}/followers/contains`, { ids: user.id });
+      if (!Array.isArray(resp)) {
+        return resp;
+      }
+      return resp[0] === true ? MutationResult.Resolved : undefined;
+    }
+  }
+  return undefined;
+}
+
+async function getServerPlaylistTrackIds(playlist_id: string): Promise<string[] | MutationResult> {
+  const trackIds: string[] = [];
+  let offset = 0;
+  while (true) {
+    const data = await spotifyGet(`/v1/playlists/${playlist_id}/tracks`, { fields: "items(track(id)),next", limit: 100, offset });
+    if (!data?.items) {
+      return data;
+    }
+    trackIds.push(...data.items.map((n) => n.track?.id));
+    if (!data.next) {
+      return trackIds;
+    }
+    offset += 100;
+  }
+}
+
+/**
+ * Returns the response data or the result when the request failed
+ */
+async function spotifyGet(api: string, qsOptions: any): Promise<any> {
+  const client = MusicClient.getInstance();
+  const resp = await MusicCommandUtil.getInstance().runSpotifyCommand(client.spotifyApiGet.bind(client), [api, qsOptions]);
+  const result: MutationResult = getMutationResult(resp);
+  return result === MutationResult.Sent ? resp.data : result;
+}
+
+function getMutationResult(resp: any): MutationResult {
+  const status: number = MusicCommandUtil.getInstance().getResponseStatus(resp);
+  if (resp?.state !== CodyResponseType.Failed && status < 300) {
+    return MutationResult.Sent;
+  }
+  // offline, rate limited or the token is being refreshed
+  if (status >= 500 || status === 429 || status === 401) {
+    return MutationResult.Retry;
+  }
+  return MutationResult.Rejected;
+}
+
+async function reloadMutatedData(mutation: MusicMutation) {
+  if (mutation.type === "like" || mutation.type === "unlike") {
+    await reloadLikedSongs();
+  } else {
+    await getSpotifyPlaylists(true);
+    if (mutation.type !== "followPlaylist") {
+      await reloadPlaylistTracks(mutation.playlist_id);
+    }
+  }
+}
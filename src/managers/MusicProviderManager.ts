@@ -0,0 +1,57 @@
+import { isLinux } from "../Util";
+import { MusicProvider } from "../providers/MusicProvider";
+import { FakeMusicProvider } from "../providers/FakeMusicProvider";
+import { LocalLibraryProvider } from "../providers/LocalLibraryProvider";
+import { MprisProvider } from "../providers/MprisProvider";
+import { SpotifyProvider } from "../providers/SpotifyProvider";
+import { getSettings, updateSetting } from "./SettingsManager";
+
+let musicProvider: MusicProvider = undefined;
+
+/**
+ * Returns the provider the sidebar and status bar read from.
+ * Set MUSIC_TIME_PROVIDER=fake to run with the in memory demo provider.
+ */
+export function getMusicProvider(): MusicProvider {
+  if (!musicProvider) {
+    musicProvider = createMusicProvider(process.env.MUSIC_TIME_PROVIDER || getSettings().musicProvider);
+  }
+  return musicProvider;
+}
+
+export function setMusicProvider(provider: MusicProvider) {
+  if (musicProvider && musicProvider !== provider) {
+    disposeMusicProvider();
+  }
+  musicProvider = provider;
+}
+
+export function disposeMusicProvider() {
+  musicProvider?.dispose?.();
+}
+
+/**
+ * Switch to the provider and save it in the settings
+ */
+export async function selectMusicProvider(providerId: string) {
+  setMusicProvider(createMusicProvider(providerId));
+  await updateSetting("musicProvider", providerId);
+}
+
+export function getAvailableMusicProviderIds(): string[] {
+  // mpris is a linux d-bus interface
+  return isLinux() ? ["spotify", "local", "mpris"] : ["spotify", "local"];
+}
+
+function createMusicProvider(providerId: string): MusicProvider {
+  switch (providerId) {
+    case "fake":
+      return new FakeMusicProvider();
+    case "local":
+      return new LocalLibraryProvider();
+    case "mpris":
+      return isLinux() ? new MprisProvider() : new SpotifyProvider();
+    default:
+      return new SpotifyProvider();
+  }
+}
@@ -0,0 +1,405 @@
+import { getGenre, getSpotifyAudioFeatures, SpotifyAudioFeature, Track, TrackStatus } from "cody-music";
+import { Disposable, TextDocumentChangeEvent, window, workspace } from "vscode";
+import { v4 as uuidv4 } from "uuid";
+import { DEFAULT_SESSION_THRESHOLD_SECONDS, NO_PROJ_NAME } from "../Constants";
+import { NowPlayingTracker, TrackChangeEvent } from "../music/NowPlayingTracker";
+import { RequestPriority, scheduleSpotifyRequest } from "../music/SpotifyRequestScheduler";
+import {
+  deleteFile,
+  getMusicSessionActivityDir,
+  getMusicSessionActivityFile,
+  getMusicSessionLogFile,
+  getProjectFolder,
+  logIt,
+  nowInSecs,
+} from "../Util";
+import { getFileDataAsJson, storeJsonData } from "./FileManager";
+import { getMusicProvider } from "./MusicProviderManager";
+import { getWindowId, isLeaderWindow } from "./PlayerStateSyncManager";
+
+const fs = require("fs");
+const path = require("path");
+
+/**
+ * One line of the session log. Describes the coding activity
+ * that happened while a single track was playing.
+ */
+export interface MusicSessionRecord {
+  session_id: string;
+  // the id of the music provider that played the track, i.e. "spotify" or "local"
+  provider: string;
+  track_id: string;
+  track_name: string;
+  artist: string;
+  genre: string;
+  audio_features: SpotifyAudioFeature;
+  start: number;
+  end: number;
+  keystrokes: number;
+  lines_added: number;
+  lines_removed: number;
+  // keystrokes by language id
+  languages: any;
+  // keystrokes by project name
+  projects: any;
+}
+
+/**
+ * The coding activity of a window since it was opened. The totals only
+ * grow so the activity during a track is the difference from its start.
+ */
+interface CodingActivity {
+  keystrokes: number;
+  lines_added: number;
+  lines_removed: number;
+  languages: any;
+  projects: any;
+}
+
+interface WindowActivity extends CodingActivity {
+  updated_at: number;
+}
+
+/**
+ * Each window writes its activity to its own file so the windows never
+ * overwrite each other. The last record is the one the leader wrote last,
+ * so a window that takes over as leader doesn't write the same play again.
+ */
+interface SessionActivityState {
+  windows: { [window_id: string]: WindowActivity };
+  last_record: { track_id: string; end: number };
+}
+
+// the windows write their activity this often while coding
+const ACTIVITY_FLUSH_SECONDS = 2;
+// the leader waits for the other windows to write their activity before the record
+const RECORD_WRITE_DELAY_SECONDS = ACTIVITY_FLUSH_SECONDS * 2;
+const ACTIVITY_EXPIRE_SECONDS = 60 * 60 * 24;
+
+let currentRecord: MusicSessionRecord = undefined;
+// the activity of each window when the current record started
+let recordBaseline: { [window_id: string]: WindowActivity } = {};
+let sessionId: string = undefined;
+let lastActivityAt: number = 0;
+let windowActivity: CodingActivity = createActivity();
+let activityFlushTimeout: any = undefined;
+let textDocumentListener: Disposable = undefined;
+let trackChangeListener: Disposable = undefined;
+let cachedRecords: MusicSessionRecord[] = [];
+// the bytes of the session log that have been read into the cached records
+let cachedRecordsOffset: number = 0;
+
+/**
+ * Start recording the coding activity of this window. Every window shares
+ * its activity and the leader window writes the record of each track.
+ */
+export function initializeMusicSessionRecorder(): Disposable {
+  if (!textDocumentListener) {
+    textDocumentListener = workspace.onDidChangeTextDocument(onTextDocumentChange);
+  }
+  if (!trackChangeListener) {
+    trackChangeListener = NowPlayingTracker.getInstance().onDidChangeTrack(onTrackChange);
+  }
+  return new Disposable(disposeMusicSessionRecorder);
+}
+
+export function disposeMusicSessionRecorder() {
+  if (textDocumentListener) {
+    textDocumentListener.dispose();
+    textDocumentListener = undefined;
+  }
+  if (trackChangeListener) {
+    trackChangeListener.dispose();
+    trackChangeListener = undefined;
+  }
+  flushWindowActivity();
+  const record: MusicSessionRecord = closeCurrentRecord();
+  if (record && isLeaderWindow()) {
+    // the window is closing, don't wait for the other windows
+    writeRecord(record, recordBaseline);
+  }
+}
+
+/**
+ * The records in the session log. They're cached and only the lines
+ * appended since the last call are read, the array shouldn't be changed.
+ */
+export function getMusicSessionRecords(): MusicSessionRecord[] {
+  const file = getMusicSessionLogFile();
+  if (!fs.existsSync(file)) {
+    cachedRecords = [];
+    cachedRecordsOffset = 0;
+    return cachedRecords;
+  }
+  const size: number = fs.statSync(file).size;
+  if (size < cachedRecordsOffset) {
+    // the log was replaced or trimmed, read it again
+    cachedRecords = [];
+    cachedRecordsOffset = 0;
+  }
+  if (size === cachedRecordsOffset) {
+    return cachedRecords;
+  }
+
+  const buffer: Buffer = Buffer.alloc(size - cachedRecordsOffset);
+  const fd = fs.openSync(file, "r");
+  try {
+    fs.readSync(fd, buffer, 0, buffer.length, cachedRecordsOffset);
+  } finally {
+    fs.closeSync(fd);
+  }
+  // leave a partially written last line for the next read
+  const end: number = buffer.lastIndexOf("\n") + 1;
+  const lines: string[] = buffer.toString("utf8", 0, end).split(/\r?\n/);
+  cachedRecordsOffset += end;
+  for (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      cachedRecords.push(JSON.parse(line));
+    } catch (e) {
+      // skip a line that was corrupted
+    }
+  }
+  return cachedRecords;
+}
+
+/**
+ * The provider that played the track of the record. Records written before the
+ * provider was recorded are from spotify when the track id is a spotify id.
+ */
+export function getRecordProvider(record: MusicSessionRecord): string {
+  if (record.provider) {
+    return record.provider;
+  }
+  return /^[a-zA-Z0-9]{22}$/.test(record.track_id ?? "") ? "spotify" : undefined;
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+/**
+ * Closes the record of the previous track when the running track changes
+ */
+function onTrackChange(event: TrackChangeEvent) {
+  const track: Track = event.track;
+  const isPlaying = !!track?.id && track.state === TrackStatus.Playing;
+  if (currentRecord && (!isPlaying || currentRecord.track_id !== track.id)) {
+    const record: MusicSessionRecord = closeCurrentRecord();
+    const baseline = recordBaseline;
+    if (isLeaderWindow()) {
+      setTimeout(() => writeRecord(record, baseline), RECORD_WRITE_DELAY_SECONDS * 1000);
+    }
+  }
+
+  if (isPlaying && !currentRecord) {
+    currentRecord = createRecord(track);
+    // the audio features and genre are looked up on spotify
+    if (currentRecord.provider === "spotify") {
+      populateTrackDetails(currentRecord, track);
+    }
+  }
+}
+
+function onTextDocumentChange(event: TextDocumentChangeEvent) {
+  const document = event.document;
+  // only count changes made in an editor, not output or settings documents
+  if (!event.contentChanges.length || !["file", "untitled"].includes(document.uri.scheme)) {
+    return;
+  }
+  if (window.activeTextEditor?.document !== document) {
+    return;
+  }
+  // coding without music still keeps the session going
+  lastActivityAt = nowInSecs();
+
+  let keystrokes = 0;
+  event.contentChanges.forEach((change) => {
+    const linesRemoved = change.range.end.line - change.range.start.line;
+    const linesAdded = (change.text.match(/\n/g) || []).length;
+    windowActivity.lines_added += linesAdded;
+    windowActivity.lines_removed += linesRemoved;
+    // a paste or a delete of a selection is counted as one keystroke
+    keystrokes += 1;
+  });
+
+  const folder = getProjectFolder(document.fileName);
+  const project = folder ? folder.name : NO_PROJ_NAME;
+
+  windowActivity.keystrokes += keystrokes;
+  windowActivity.languages[document.languageId] = (windowActivity.languages[document.languageId] ?? 0) + keystrokes;
+  windowActivity.projects[project] = (windowActivity.projects[project] ?? 0) + keystrokes;
+
+  if (!activityFlushTimeout) {
+    activityFlushTimeout = setTimeout(flushWindowActivity, ACTIVITY_FLUSH_SECONDS * 1000);
+  }
+}
+
+function createRecord(track: Track): MusicSessionRecord {
+  flushWindowActivity();
+  const state: SessionActivityState = readActivityState();
+  recordBaseline = state.windows;
+
+  const now = nowInSecs();
+  const lastCodedAt: number = Math.max(lastActivityAt, ...Object.values(state.windows).map((n) => n.updated_at));
+  // start a new session once the developer has been away past the threshold
+  if (!sessionId || now - lastCodedAt > DEFAULT_SESSION_THRESHOLD_SECONDS) {
+    sessionId = uuidv4();
+  }
+
+  return {
+    session_id: sessionId,
+    provider: getMusicProvider().id,
+    track_id: track.id,
+    track_name: track.name,
+    artist: track.artist,
+    genre: track.genre ?? "",
+    audio_features: null,
+    start: now,
+    end: 0,
+    ...createActivity(),
+  };
+}
+
+async function populateTrackDetails(record: MusicSessionRecord, track: Track) {
+  try {
+    const options = { priority: RequestPriority.Background, coalesce: true };
+    const features: SpotifyAudioFeature[] = await scheduleSpotifyRequest(getSpotifyAudioFeatures, [[track.id]], options);
+    record.audio_features = features?.length ? features[0] : null;
+    if (!record.genre) {
+      record.genre = (await scheduleSpotifyRequest(getGenre, [track.artist, track.name, track.artists?.[0]?.id], options)) ?? "";
+    }
+  } catch (e) {
+    logIt(`Unable to fetch the track details for the session log. ${e.message}`);
+  }
+}
+
+function closeCurrentRecord(): MusicSessionRecord {
+  const record = currentRecord;
+  currentRecord = undefined;
+  if (record) {
+    record.end = nowInSecs();
+  }
+  return record;
+}
+
+/**
+ * Adds the activity of every window while the track played and appends
+ * the record. Only the leader window writes so a play is counted once.
+ */
+function writeRecord(record: MusicSessionRecord, baseline: { [window_id: string]: WindowActivity }) {
+  const state: SessionActivityState = readActivityState();
+  if (state.last_record?.track_id === record.track_id && state.last_record.end >= record.start) {
+    // the previous leader already wrote this play when its window closed
+    return;
+  }
+
+  Object.keys(state.windows).forEach((window_id: string) => {
+    const activity: WindowActivity = state.windows[window_id];
+    if (!baseline[window_id] && activity.updated_at < record.start) {
+      // no coding in that window since before the track started
+      return;
+    }
+    addActivity(record, activity, baseline[window_id]);
+  });
+
+  try {
+    fs.appendFileSync(getMusicSessionLogFile(), `${JSON.stringify(record)}\n`);
+  } catch (e) {
+    logIt(`Unable to write the music session log. ${e.message}`);
+    return;
+  }
+
+  // drop the windows that haven't coded in a long time
+  const now = nowInSecs();
+  Object.keys(state.windows).forEach((window_id: string) => {
+    if (now - state.windows[window_id].updated_at > ACTIVITY_EXPIRE_SECONDS) {
+      deleteWindowActivity(window_id);
+    }
+  });
+  storeLastRecord({ track_id: record.track_id, end: record.end });
+}
+
+function addActivity(target: CodingActivity, activity: CodingActivity, baseline: CodingActivity = createActivity()) {
+  target.keystrokes += Math.max(activity.keystrokes - baseline.keystrokes, 0);
+  target.lines_added += Math.max(activity.lines_added - baseline.lines_added, 0);
+  target.lines_removed += Math.max(activity.lines_removed - baseline.lines_removed, 0);
+  ["languages", "projects"].forEach((type: string) => {
+    Object.keys(activity[type] ?? {}).forEach((key: string) => {
+      const count: number = activity[type][key] - (baseline[type]?.[key] ?? 0);
+      if (count > 0) {
+        target[type][key] = (target[type][key] ?? 0) + count;
+      }
+    });
+  });
+}
+
+function flushWindowActivity() {
+  if (activityFlushTimeout) {
+    clearTimeout(activityFlushTimeout);
+    activityFlushTimeout = undefined;
+  }
+  if (!windowActivity.keystrokes) {
+    return;
+  }
+  try {
+    storeJsonData(getWindowActivityFile(getWindowId()), { ...windowActivity, updated_at: lastActivityAt });
+  } catch (e) {
+    logIt(`Unable to share the coding activity. ${e.message}`);
+  }
+}
+
+function createActivity(): CodingActivity {
+  return { keystrokes: 0, lines_added: 0, lines_removed: 0, languages: {}, projects: {} };
+}
+
+function readActivityState(): SessionActivityState {
+  const windows: { [window_id: string]: WindowActivity } = {};
+  let files: string[] = [];
+  try {
+    files = fs.readdirSync(getMusicSessionActivityDir()).filter((n: string) => n.endsWith(".json"));
+  } catch (e) {
+    logIt(`Unable to read the coding activity. ${e.message}`);
+  }
+  files.forEach((file: string) => {
+    const window_id: string = file.replace(/\.json$/, "");
+    try {
+      const activity: WindowActivity = getFileDataAsJson(getWindowActivityFile(window_id));
+      if (activity) {
+        windows[window_id] = activity;
+      }
+    } catch (e) {
+      // the file may be in the middle of a write, the totals are written again on the next flush
+    }
+  });
+
+  let last_record = null;
+  try {
+    last_record = getFileDataAsJson(getMusicSessionActivityFile())?.last_record ?? null;
+  } catch (e) {
+    // the leader writes it again with the next record
+  }
+  return { windows, last_record };
+}
+
+function storeLastRecord(last_record: { track_id: string; end: number }) {
+  try {
+    storeJsonData(getMusicSessionActivityFile(), { last_record });
+  } catch (e) {
+    logIt(`Unable to store the last session record. ${e.message}`);
+  }
+}
+
+function getWindowActivityFile(window_id: string): string {
+  return path.join(getMusicSessionActivityDir(), `${window_id}.json`);
+}
+
+function deleteWindowActivity(window_id: string) {
+  try {
+    deleteFile(getWindowActivityFile(window_id));
+  } catch (e) {
+    // another leader removed it first
+  }
+}
@@ -0,0 +1,191 @@
+import { PlaylistItem, Track, TrackStatus } from "cody-music";
+import { MusicClient } from "cody-music/dist/lib/client";
+import { Disposable, Event, EventEmitter, ExtensionContext } from "vscode";
+import { MusicCommandUtil } from "../music/MusicCommandUtil";
+import { NowPlayingTracker, TrackChangeEvent } from "../music/NowPlayingTracker";
+import { MusicProvider } from "../providers/MusicProvider";
+import { getMusicProvider } from "./MusicProviderManager";
+import { playSpotifyUri } from "./PlaylistControlManager";
+import { createPlaylistItemFromTrack, getCachedLikedSongsTracks, getCachedPlaylistTracks, updateSelectedTrackStatus } from "./PlaylistDataManager";
+
+// bump when a member is removed or changes shape, adding members keeps the version
+export const MUSIC_TIME_API_VERSION = 1;
+
+export type MusicTimePlayerState = "playing" | "paused" | "stopped";
+
+export interface MusicTimeApiTrack {
+  id: string;
+  uri: string;
+  name: string;
+  artist: string;
+  album: string;
+  duration_ms: number;
+  progress_ms: number;
+  state: MusicTimePlayerState;
+}
+
+export interface MusicTimeApiPlaylist {
+  id: string;
+  name: string;
+}
+
+export interface MusicTimePlayerStateEvent {
+  state: MusicTimePlayerState;
+  track: MusicTimeApiTrack;
+}
+
+/**
+ * The api returned by activate for other extensions, i.e.
+ * `extensions.getExtension("softwaredotcom.music-time").activate()`
+ */
+export interface MusicTimeApi {
+  readonly version: number;
+  // undefined when nothing is playing
+  getNowPlaying(): MusicTimeApiTrack;
+  // fires when another track starts, with undefined when playback stops
+  readonly onDidChangeTrack: Event<MusicTimeApiTrack>;
+  readonly onDidChangePlayerState: Event<MusicTimePlayerStateEvent>;
+  // resumes playback without a uri, resolves to false when the uri can't be played
+  play(uri?: string): Promise<boolean>;
+  pause(): Promise<void>;
+  next(): Promise<void>;
+  // the running track without an id, resolves to false when there's no track with the id
+  like(id?: string): Promise<boolean>;
+  getPlaylists(): Promise<MusicTimeApiPlaylist[]>;
+}
+
+/**
+ * Create the api, its listeners are disposed with the extension
+ * @param ctx
+ */
+export function createMusicTimeApi(ctx: ExtensionContext): MusicTimeApi {
+  const onDidChangeTrack = new EventEmitter<MusicTimeApiTrack>();
+  const onDidChangePlayerState = new EventEmitter<MusicTimePlayerStateEvent>();
+  const trackListener: Disposable = NowPlayingTracker.getInstance().onDidChangeTrack((e: TrackChangeEvent) => {
+    const track: MusicTimeApiTrack = createApiTrack(e.track);
+    if (e.track?.id !== e.previous_track?.id) {
+      onDidChangeTrack.fire(track);
+    }
+    const state: MusicTimePlayerState = getPlayerState(e.track);
+    if (state !== getPlayerState(e.previous_track)) {
+      onDidChangePlayerState.fire({ state, track });
+    }
+  });
+  ctx.subscriptions.push(onDidChangeTrack, onDidChangePlayerState, trackListener);
+
+  return {
+    version: MUSIC_TIME_API_VERSION,
+    getNowPlaying: () => createApiTrack(NowPlayingTracker.getInstance().getTrack()),
+    onDidChangeTrack: onDidChangeTrack.event,
+    onDidChangePlayerState: onDidChangePlayerState.event,
+    play,
+    pause,
+    next,
+    like,
+    getPlaylists,
+  };
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+async function play(uri: string = undefined): Promise<boolean> {
+  const provider: MusicProvider = getMusicProvider();
+  NowPlayingTracker.getInstance().notifyUserAction();
+  if (!uri) {
+    updateSelectedTrackStatus(TrackStatus.Playing);
+    await provider.play();
+    return true;
+  }
+  if (provider.id === "spotify") {
+    if (!/^spotify:(track|album|playlist|artist):[a-zA-Z0-9]+$/.test(uri)) {
+      return false;
+    }
+    await playSpotifyUri(uri);
+    return true;
+  }
+  const track: PlaylistItem = await provider.getTrack(undefined, uri);
+  if (!track) {
+    return false;
+  }
+  await provider.playTrack(track);
+  return true;
+}
+
+async function pause() {
+  updateSelectedTrackStatus(TrackStatus.Paused);
+  NowPlayingTracker.getInstance().notifyUserAction();
+  await getMusicProvider().pause();
+}
+
+async function next() {
+  NowPlayingTracker.getInstance().notifyUserAction();
+  await getMusicProvider().next();
+}
+
+async function like(id: string = undefined): Promise<boolean> {
+  const provider: MusicProvider = getMusicProvider();
+  const track: PlaylistItem = id ? await findTrack(provider, id) : await provider.getTrack(undefined, undefined);
+  if (!track?.id) {
+    return false;
+  }
+  await provider.setLiked(track, true);
+  return true;
+}
+
+/**
+ * The track with exactly this id. The providers return the running
+ * track when they don't find one, which is never used in its place.
+ */
+async function findTrack(provider: MusicProvider, id: string): Promise<PlaylistItem> {
+  if (provider.id !== "spotify") {
+    const track: PlaylistItem = await provider.getTrack(undefined, id);
+    return track?.id === id ? track : undefined;
+  }
+
+  const playlistTracks = getCachedPlaylistTracks();
+  const cachedTracks: PlaylistItem[] = Object.keys(playlistTracks).reduce(
+    (tracks: PlaylistItem[], key: string) => tracks.concat(playlistTracks[key] ?? []),
+    (await getCachedLikedSongsTracks()) ?? []
+  );
+  const cachedTrack: PlaylistItem = cachedTracks.find((n) => n?.id === id);
+  if (cachedTrack) {
+    return cachedTrack;
+  }
+  if (!/^[a-zA-Z0-9]+$/.test(id)) {
+    return undefined;
+  }
+  const client = MusicClient.getInstance();
+  const resp = await MusicCommandUtil.getInstance().runSpotifyCommand(client.spotifyApiGet.bind(client), [`/v1/tracks/${id}`, {}]);
+  const data = MusicCommandUtil.getInstance().getResponseStatus(resp) < 300 ? resp?.data : undefined;
+  return data?.id === id ? createPlaylistItemFromTrack(data) : undefined;
+}
+
+async function getPlaylists(): Promise<MusicTimeApiPlaylist[]> {
+  const playlists: PlaylistItem[] = (await getMusicProvider().getPlaylists()) ?? [];
+  return playlists.map((n) => ({ id: n.id, name: n.name }));
+}
+
+function createApiTrack(track: Track): MusicTimeApiTrack {
+  if (!track?.id) {
+    return undefined;
+  }
+  return {
+    id: track.id,
+    uri: track.uri,
+    name: track.name,
+    artist: track.artist,
+    album: track.album?.name ?? (typeof track.album === "string" ? track.album : ""),
+    duration_ms: track.duration_ms,
+    progress_ms: NowPlayingTracker.getInstance().getProgressMs(),
+    state: getPlayerState(track),
+  };
+}
+
+function getPlayerState(track: Track): MusicTimePlayerState {
+  if (!track?.id) {
+    return "stopped";
+  }
+  return track.state === TrackStatus.Playing ? "playing" : "paused";
+}
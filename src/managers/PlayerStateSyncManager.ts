@@ -0,0 +1,257 @@
+import { PlayerContext, Track } from "cody-music";
+import { commands, Disposable, window, WindowState } from "vscode";
+import { v4 as uuidv4 } from "uuid";
+import { MusicCommandManager } from "../music/MusicCommandManager";
+import { NowPlayingTracker } from "../music/NowPlayingTracker";
+import { deleteFile, getPlayerLeaderLockFile, getPlayerStateFile, logIt, nowInSecs } from "../Util";
+import { getFileDataAsJson, storeJsonData } from "./FileManager";
+import { getMusicProvider } from "./MusicProviderManager";
+
+const fs = require("fs");
+
+const LEADER_HEARTBEAT_SECONDS = 10;
+// a leader that hasn't updated the lock within this time is considered closed
+const LEADER_TIMEOUT_SECONDS = LEADER_HEARTBEAT_SECONDS * 3;
+// published state newer than this can be used instead of asking spotify again
+const PLAYER_STATE_FRESH_SECONDS = 5;
+
+export interface PlayerState {
+  window_id: string;
+  track: Track;
+  track_updated_at: number;
+  player_context: PlayerContext;
+  player_context_updated_at: number;
+}
+
+// identifies this window in the lock and state files
+const windowId: string = uuidv4();
+
+let isLeader: boolean = false;
+let heartbeatInterval: any = undefined;
+let lastPlayerStateKey: string = "";
+let playerStateChangeTimeout: any = undefined;
+let windowStateListener: Disposable = undefined;
+
+/**
+ * Start the leader election and watch the shared player state
+ * file for updates published by the other windows.
+ */
+export function initializePlayerStateSync() {
+  if (heartbeatInterval) {
+    return;
+  }
+  checkLeadership();
+  heartbeatInterval = setInterval(() => {
+    checkLeadership();
+  }, LEADER_HEARTBEAT_SECONDS * 1000);
+
+  fs.watchFile(getPlayerStateFile(), { interval: 1000 }, onPlayerStateFileChange);
+  windowStateListener = window.onDidChangeWindowState(onWindowStateChange);
+  onWindowStateChange(window.state);
+}
+
+export function disposePlayerStateSync() {
+  if (heartbeatInterval) {
+    clearInterval(heartbeatInterval);
+    heartbeatInterval = undefined;
+  }
+  fs.unwatchFile(getPlayerStateFile(), onPlayerStateFileChange);
+  if (windowStateListener) {
+    windowStateListener.dispose();
+    windowStateListener = undefined;
+  }
+
+  if (isLeader) {
+    stepDown();
+    // remove the lock so another window can take over on its next heartbeat
+    deleteFile(getPlayerLeaderLockFile());
+  }
+}
+
+export function isLeaderWindow() {
+  return isLeader;
+}
+
+export function getWindowId() {
+  return windowId;
+}
+
+/**
+ * Fetch the running track from the player and share it with the other windows
+ */
+export async function fetchRunningTrack(): Promise<Track> {
+  const track: Track = await getMusicProvider().getRunningTrack();
+  publishPlayerState({ track, track_updated_at: nowInSecs() });
+  return track;
+}
+
+export function publishPlayerContext(playerContext: PlayerContext) {
+  publishPlayerState({ player_context: playerContext, player_context_updated_at: nowInSecs() });
+}
+
+/**
+ * Returns the player context published by any window if it's recent enough to use
+ */
+export function getSharedPlayerContext(): PlayerContext {
+  const state: PlayerState = readPlayerState();
+  if (state?.player_context && nowInSecs() - state.player_context_updated_at <= PLAYER_STATE_FRESH_SECONDS) {
+    return state.player_context;
+  }
+  return null;
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+function checkLeadership() {
+  const lock = readLeaderLock();
+
+  if (isLeader) {
+    if (lock?.window_id === windowId) {
+      // still the leader, update the heartbeat
+      writeLeaderLock();
+    } else {
+      // another window took over the lock
+      stepDown();
+    }
+    return;
+  }
+
+  if (!lock || nowInSecs() - lock.heartbeat > LEADER_TIMEOUT_SECONDS) {
+    if (lock) {
+      // the leader window is gone, remove its lock
+      deleteFile(getPlayerLeaderLockFile());
+    }
+    try {
+      // only one window can create the lock file. If two windows
+      // remove a stale lock at the same time the one that loses will
+      // see the other window's id on its next heartbeat and step down
+      fs.writeFileSync(getPlayerLeaderLockFile(), JSON.stringify(createLeaderLock()), { flag: "wx" });
+      becomeLeader();
+    } catch (e) {
+      // another window is the leader
+    }
+  }
+}
+
+/**
+ * The leader backs off while it isn't focused, so the window the user
+ * works in takes the lead. The previous leader sees the new window's
+ * id in the lock on its next heartbeat and steps down.
+ */
+function onWindowStateChange(state: WindowState) {
+  if (state.focused && !isLeader) {
+    writeLeaderLock();
+    becomeLeader();
+  }
+}
+
+function becomeLeader() {
+  isLeader = true;
+  logIt("Music Time window elected to sync the player state");
+
+  // the tracker decides how often to poll from the track progress and window focus
+  NowPlayingTracker.getInstance().start(pollPlayerState);
+}
+
+function stepDown() {
+  isLeader = false;
+  NowPlayingTracker.getInstance().stop();
+}
+
+async function pollPlayerState() {
+  if (await getMusicProvider().requiresAccess()) {
+    return;
+  }
+  // both calls publish what they fetch to the player state file
+  await MusicCommandManager.syncControls();
+  await getMusicProvider().getPlayerContext();
+
+  const state: PlayerState = readPlayerState();
+  const stateKey = getPlayerStateKey(state);
+  if (stateKey !== lastPlayerStateKey) {
+    lastPlayerStateKey = stateKey;
+    refreshSidebar();
+  }
+}
+
+function onPlayerStateFileChange() {
+  // the track and player context are written separately, wait for both
+  if (playerStateChangeTimeout) {
+    clearTimeout(playerStateChangeTimeout);
+  }
+  playerStateChangeTimeout = setTimeout(() => {
+    playerStateChangeTimeout = undefined;
+    syncWithPlayerState();
+  }, 500);
+}
+
+function syncWithPlayerState() {
+  const state: PlayerState = readPlayerState();
+  if (!state || state.window_id === windowId) {
+    return;
+  }
+
+  if (state.track) {
+    // the tracker only notifies its listeners when the track changed
+    MusicCommandManager.syncControls(state.track);
+  }
+
+  const stateKey = getPlayerStateKey(state);
+  if (stateKey !== lastPlayerStateKey) {
+    lastPlayerStateKey = stateKey;
+    refreshSidebar();
+  }
+}
+
+function refreshSidebar() {
+  commands.executeCommand("musictime.refreshMusicTimeView", { refreshOpenFolder: true, useSharedState: true });
+}
+
+/**
+ * Only the player context values shown in the sidebar are used to tell if
+ * the player state has changed. Track changes come from the tracker.
+ */
+function getPlayerStateKey(state: PlayerState) {
+  const ctx = state?.player_context;
+  return [ctx?.repeat_state, ctx?.device?.id, ctx?.device?.volume_percent].join(":");
+}
+
+function publishPlayerState(update: any) {
+  const state: PlayerState = { ...(readPlayerState() ?? {}), ...update, window_id: windowId };
+  try {
+    storeJsonData(getPlayerStateFile(), state);
+  } catch (e) {
+    logIt(`Unable to share the player state. ${e.message}`);
+  }
+}
+
+function readPlayerState(): PlayerState {
+  try {
+    return getFileDataAsJson(getPlayerStateFile());
+  } catch (e) {
+    // the file may be in the middle of a write
+    return null;
+  }
+}
+
+function createLeaderLock() {
+  return { window_id: windowId, pid: process.pid, heartbeat: nowInSecs() };
+}
+
+function writeLeaderLock() {
+  try {
+    fs.writeFileSync(getPlayerLeaderLockFile(), JSON.stringify(createLeaderLock()));
+  } catch (e) {
+    logIt(`Unable to update the player lock. ${e.message}`);
+  }
+}
+
+function readLeaderLock() {
+  try {
+    return JSON.parse(fs.readFileSync(getPlayerLeaderLockFile(), "utf8"));
+  } catch (e) {
+    return null;
+  }
+}
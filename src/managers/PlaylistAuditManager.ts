@@ -0,0 +1,303 @@
+import { addTracksToPlaylist, CodyResponseType, PlaylistItem, removeTracksFromPlaylist } from "cody-music";
+import { MusicClient } from "cody-music/dist/lib/client";
+import { CancellationToken, commands, ProgressLocation, ViewColumn, WebviewPanel, window } from "vscode";
+import { getPlaylistAuditHtml } from "../local/PlaylistAuditReport";
+import { MusicCommandUtil } from "../music/MusicCommandUtil";
+import { RequestPriority } from "../music/SpotifyRequestScheduler";
+import { MusicProvider } from "../providers/MusicProvider";
+import { logIt, nowInSecs } from "../Util";
+import { getMusicProvider } from "./MusicProviderManager";
+import { getCachedPlaylistTracks, getSpotifyPlaylists, reloadPlaylistTracks } from "./PlaylistDataManager";
+
+const PLAYLIST_TRACKS_PAGE_LIMIT = 100;
+const AUDIT_TRACK_FIELDS = "items(track(id,uri,name,is_playable,is_local,external_ids(isrc),artists(name),album(name),linked_from(uri))),next";
+
+export type PlaylistAuditIssueType = "duplicate" | "nearDuplicate" | "unavailable";
+export type PlaylistAuditFix = "remove" | "replace";
+
+export interface PlaylistAuditTrack {
+  id: string;
+  // the uri saved in the playlist, which differs from the id when spotify relinked the track
+  uri: string;
+  name: string;
+  artist: string;
+  album: string;
+  isrc: string;
+  position: number;
+  playable: boolean;
+}
+
+export interface PlaylistAuditIssue {
+  id: string;
+  type: PlaylistAuditIssueType;
+  playlist_id: string;
+  playlist_name: string;
+  track: PlaylistAuditTrack;
+  // the copy that's kept for duplicates
+  original?: PlaylistAuditTrack;
+}
+
+export interface PlaylistAuditReport {
+  created: number;
+  playlists_scanned: number;
+  tracks_scanned: number;
+  issues: PlaylistAuditIssue[];
+}
+
+let auditPanel: WebviewPanel = undefined;
+let auditReport: PlaylistAuditReport = undefined;
+
+/**
+ * Scan the playlists that can be edited for duplicate and unavailable
+ * tracks and show the results with a fix for each one
+ */
+export async function auditPlaylists() {
+  const provider: MusicProvider = getMusicProvider();
+  if (provider.id !== "spotify") {
+    window.showInformationMessage("Playlist audits are only available for Spotify playlists.");
+    return;
+  }
+  if (await provider.requiresAccess()) {
+    window.showInformationMessage("Spotify connection required");
+    return;
+  }
+
+  const playlists: PlaylistItem[] = (await getSpotifyPlaylists()).filter((n) => provider.canEditPlaylist(n));
+  const report: PlaylistAuditReport = await window.withProgress(
+    { location: ProgressLocation.Notification, title: "Auditing playlists", cancellable: true },
+    async (progress, token: CancellationToken) => {
+      const result: PlaylistAuditReport = { created: nowInSecs(), playlists_scanned: 0, tracks_scanned: 0, issues: [] };
+      for (const playlist of playlists) {
+        if (token.isCancellationRequested) {
+          return undefined;
+        }
+        progress.report({ message: playlist.name, increment: 100 / playlists.length });
+        const tracks: PlaylistAuditTrack[] = await fetchAuditTracks(playlist.id);
+        if (tracks) {
+          result.playlists_scanned++;
+          result.tracks_scanned += tracks.length;
+          result.issues.push(...findPlaylistIssues(playlist, tracks));
+        }
+      }
+      return result;
+    }
+  );
+  if (report) {
+    auditReport = report;
+    showAuditReport();
+  }
+}
+
+/**
+ * Apply a fix from the report. The playlist is scanned again afterwards
+ * since the positions of its other tracks may have changed.
+ * @param issue_id
+ * @param fix
+ */
+export async function fixPlaylistAuditIssue(issue_id: string, fix: PlaylistAuditFix) {
+  const issue: PlaylistAuditIssue = auditReport?.issues.find((n) => n.id === issue_id);
+  if (!issue) {
+    return;
+  }
+
+  const fixed: boolean = fix === "replace" ? await replaceUnavailableTrack(issue) : await removeIssueTrack(issue);
+  if (!fixed) {
+    return;
+  }
+
+  const tracks: PlaylistAuditTrack[] = await fetchAuditTracks(issue.playlist_id);
+  if (tracks) {
+    const playlist: PlaylistItem = { id: issue.playlist_id, name: issue.playlist_name } as PlaylistItem;
+    auditReport.issues = [
+      ...auditReport.issues.filter((n) => n.playlist_id !== issue.playlist_id),
+      ...findPlaylistIssues(playlist, tracks),
+    ];
+  } else {
+    auditReport.issues = auditReport.issues.filter((n) => n.id !== issue_id);
+  }
+  showAuditReport();
+
+  // the sidebar shows the cached tracks
+  if (getCachedPlaylistTracks()[issue.playlist_id]) {
+    await reloadPlaylistTracks(issue.playlist_id);
+    commands.executeCommand("musictime.refreshMusicTimeView");
+  }
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+function showAuditReport() {
+  if (!auditPanel) {
+    auditPanel = window.createWebviewPanel("musictime.playlistAudit", "Playlist Audit", ViewColumn.One, { enableScripts: true });
+    auditPanel.onDidDispose(() => {
+      auditPanel = undefined;
+    });
+    auditPanel.webview.onDidReceiveMessage((message) => {
+      if (message?.command === "command_execute" && message.action) {
+        commands.executeCommand(`musictime.${message.action}`, message.payload);
+      }
+    });
+  }
+  auditPanel.webview.html = getPlaylistAuditHtml(auditReport);
+  auditPanel.reveal();
+}
+
+/**
+ * Tracks are duplicates when they share an id or ISRC, the first copy is
+ * kept. Tracks that only share a title and artist are likely the same song
+ * from another album, those are reported so they can be checked.
+ */
+function findPlaylistIssues(playlist: PlaylistItem, tracks: PlaylistAuditTrack[]): PlaylistAuditIssue[] {
+  const issues: PlaylistAuditIssue[] = [];
+  const addIssue = (type: PlaylistAuditIssueType, track: PlaylistAuditTrack, original: PlaylistAuditTrack = undefined) => {
+    issues.push({
+      id: `${playlist.id}:${track.position}:${type}`,
+      type,
+      playlist_id: playlist.id,
+      playlist_name: playlist.name,
+      track,
+      original,
+    });
+  };
+
+  const byRecording = {};
+  const bySong = {};
+  for (const track of tracks) {
+    const recordingKeys: string[] = [track.uri, track.isrc].filter((n) => !!n);
+    const songKey: string = getSongKey(track);
+    const original: PlaylistAuditTrack = recordingKeys.map((key) => byRecording[key]).find((n) => !!n);
+    if (original) {
+      addIssue("duplicate", track, original);
+    } else if (bySong[songKey]) {
+      addIssue("nearDuplicate", track, bySong[songKey]);
+    } else if (!track.playable) {
+      addIssue("unavailable", track);
+    }
+    recordingKeys.forEach((key) => (byRecording[key] = byRecording[key] ?? track));
+    bySong[songKey] = bySong[songKey] ?? track;
+  }
+  return issues;
+}
+
+/**
+ * "Song (Remastered 2011) - Live" and "song" are the same song
+ */
+function getSongKey(track: PlaylistAuditTrack): string {
+  const normalize = (value: string) =>
+    (value ?? "")
+      .toLowerCase()
+      .replace(/\s[-–]\s.*$/, "")
+      .replace(/[([].*?[)\]]/g, "")
+      .replace(/[^a-z0-9]+/g, "");
+  const primaryArtist: string = (track.artist ?? "").split(",")[0];
+  return `${normalize(track.name)}|${normalize(primaryArtist)}`;
+}
+
+/**
+ * Spotify removes every copy of a uri, so when the removed track is
+ * a copy of one that's kept, that one is added back at its position
+ */
+async function removeIssueTrack(issue: PlaylistAuditIssue): Promise<boolean> {
+  const util: MusicCommandUtil = MusicCommandUtil.getInstance();
+  const resp = await util.runSpotifyCommand(removeTracksFromPlaylist, [issue.playlist_id, [issue.track.uri]]);
+  if (!isOk(resp)) {
+    window.showErrorMessage(`Unable to remove '${issue.track.name}' from '${issue.playlist_name}'.`);
+    return false;
+  }
+  if (issue.original?.uri === issue.track.uri) {
+    const restored = await util.runSpotifyCommand(addTracksToPlaylist, [issue.playlist_id, [issue.original.uri], issue.original.position]);
+    if (!isOk(restored)) {
+      window.showErrorMessage(`Removed every copy of '${issue.track.name}' but couldn't add it back to '${issue.playlist_name}'.`);
+    }
+  }
+  return true;
+}
+
+/**
+ * Replace an unavailable track with a playable version of the same song
+ */
+async function replaceUnavailableTrack(issue: PlaylistAuditIssue): Promise<boolean> {
+  const replacement: any = await findPlayableVersion(issue.track);
+  if (!replacement) {
+    window.showInformationMessage(`No playable version of '${issue.track.name}' was found.`);
+    return false;
+  }
+
+  const util: MusicCommandUtil = MusicCommandUtil.getInstance();
+  const added = await util.runSpotifyCommand(addTracksToPlaylist, [issue.playlist_id, [replacement.uri], issue.track.position]);
+  if (!isOk(added)) {
+    window.showErrorMessage(`Unable to add '${replacement.name}' to '${issue.playlist_name}'.`);
+    return false;
+  }
+  const removed = await util.runSpotifyCommand(removeTracksFromPlaylist, [issue.playlist_id, [issue.track.uri]]);
+  if (!isOk(removed)) {
+    window.showErrorMessage(`Added '${replacement.name}' but couldn't remove the unavailable version from '${issue.playlist_name}'.`);
+  }
+  return true;
+}
+
+async function findPlayableVersion(track: PlaylistAuditTrack): Promise<any> {
+  const query: string = track.isrc ? `isrc:${track.isrc}` : `track:"${track.name}" artist:"${track.artist.split(",")[0]}"`;
+  const data = await spotifyGet("/v1/search", { q: query, type: "track", market: "from_token", limit: 10 });
+  const results: any[] = data?.tracks?.items ?? [];
+  const songKey: string = getSongKey(track);
+  return results.find((n: any) => n.is_playable !== false && n.uri !== track.uri && getSongKey(createAuditTrack(n, 0)) === songKey);
+}
+
+/**
+ * The playlist's tracks with their ISRC and whether they're playable in
+ * the user's market, which the cached playlist tracks don't include
+ */
+async function fetchAuditTracks(playlist_id: string): Promise<PlaylistAuditTrack[]> {
+  const tracks: PlaylistAuditTrack[] = [];
+  let offset = 0;
+  while (true) {
+    const data = await spotifyGet(`/v1/playlists/${playlist_id}/tracks`, {
+      market: "from_token",
+      fields: AUDIT_TRACK_FIELDS,
+      limit: PLAYLIST_TRACKS_PAGE_LIMIT,
+      offset,
+    });
+    if (!data?.items) {
+      logIt(`Unable to audit the playlist ${playlist_id}`);
+      return undefined;
+    }
+    data.items.forEach((item: any, idx: number) => {
+      // local files can't be matched or replaced
+      if (item.track?.id && !item.track.is_local) {
+        tracks.push(createAuditTrack(item.track, offset + idx));
+      }
+    });
+    if (!data.next) {
+      return tracks;
+    }
+    offset += PLAYLIST_TRACKS_PAGE_LIMIT;
+  }
+}
+
+function createAuditTrack(track: any, position: number): PlaylistAuditTrack {
+  return {
+    id: track.id,
+    uri: track.linked_from?.uri ?? track.uri,
+    name: track.name,
+    artist: (track.artists ?? []).map((n: any) => n.name).join(", "),
+    album: track.album?.name ?? "",
+    isrc: track.external_ids?.isrc ?? "",
+    position,
+    playable: track.is_playable !== false,
+  };
+}
+
+async function spotifyGet(api: string, qsOptions: any): Promise<any> {
+  const client = MusicClient.getInstance();
+  const resp = await MusicCommandUtil.getInstance().runSpotifyCommand(client.spotifyApiGet.bind(client), [api, qsOptions], {
+    priority: RequestPriority.Background,
+  });
+  return isOk(resp) ? resp.data : undefined;
+}
+
+function isOk(resp: any): boolean {
+  return MusicCommandUtil.getInstance().getResponseStatus(resp) < 300 && resp?.state !== CodyResponseType.Failed;
+}
@@ -10,9 +10,10 @@ import {
   transferSpotifyDevice,
 } from "cody-music";
 import { commands, window } from "vscode";
-import { RECOMMENDATION_PLAYLIST_ID, SPOTIFY_LIKED_SONGS_PLAYLIST_ID } from "../Constants";
+import { ARTIST_PLAYLIST_ID, RECOMMENDATION_PLAYLIST_ID, SEARCH_RESULTS_PLAYLIST_ID, SPOTIFY_LIKED_SONGS_PLAYLIST_ID } from "../Constants";
 import { MusicCommandUtil } from "../music/MusicCommandUtil";
 import { MusicControlManager } from '../music/MusicControlManager';
+import { NowPlayingTracker } from "../music/NowPlayingTracker";
 import { createSpotifyIdFromUri, createUriFromPlaylistId, createUriFromTrackId, isMac } from "../Util";
 import {
   getBestActiveDevice,
@@ -33,6 +34,8 @@ import {
   getPlayerContext,
 } from "./PlaylistDataManager";
 import { hasSpotifyUser, isPremiumUser, populateSpotifyUser } from "./SpotifyManager";
+import { getSearchResultURIsFromTrackId } from "./SearchManager";
+import { getArtistURIsFromTrackId } from "./ArtistManager";
 
 // Play selected tracks
 export async function playSelectedItems(playlistItems: PlaylistItem[]) {
@@ -49,6 +52,22 @@ export async function playSelectedItem(playlistItem: PlaylistItem) {
   await playInitialization(playMusicSelection);
 }
 
+/**
+ * Play a spotify track, or a playlist, album or artist from the start
+ * @param uri i.e. spotify:track:4iV5W9uYEdYUVa79Axb7Rh
+ */
+export async function playSpotifyUri(uri: string) {
+  await playInitialization(async () => {
+    const device = getBestActiveDevice();
+    const options = uri.startsWith("spotify:track:") ? { device_id: device?.id, uris: [uri], offset: 0 } : { device_id: device?.id, context_uri: uri };
+    await MusicCommandUtil.getInstance().runSpotifyCommand(play, [PlayerName.SpotifyWeb, options]);
+    NowPlayingTracker.getInstance().notifyUserAction();
+    setTimeout(() => {
+      commands.executeCommand("musictime.refreshMusicTimeView");
+    }, 1000);
+  });
+}
+
 export async function launchTrackPlayer(playerName: PlayerName = null, callback: any = null) {
   const { webPlayer, desktop, activeDevice, activeComputerDevice, activeWebPlayerDevice, activeDesktopPlayerDevice } = getDeviceSet();
 
@@ -154,7 +173,7 @@ export async function showPlayerLaunchConfirmation(callback: any = null) {
 
 async function checkDeviceLaunch(playerName: PlayerName, tries: number = 5, callback: any = null) {
   setTimeout(async () => {
-    await populateSpotifyDevices(true /*retry*/);
+    await populateSpotifyDevices();
 
     const devices = getCurrentDevices();
 
@@ -187,7 +206,7 @@ async function checkPlayingState(deviceId: string, tries = 3) {
       return;
     } else {
       // try to play it
-      await transferSpotifyDevice(deviceId, true);
+      await MusicCommandUtil.getInstance().runSpotifyCommand(transferSpotifyDevice, [deviceId, true]);
       play(getSelectedPlayerName());
     }
   }
@@ -238,19 +257,27 @@ async function playMusicSelection() {
     selectedPlaylistItem["playlist_id"] === RECOMMENDATION_PLAYLIST_ID
   );
   const isRankedTrack = !!(selectedPlaylistItem["rank"])
+  const isSearchTrack = !!(selectedPlaylistItem["playlist_id"] === SEARCH_RESULTS_PLAYLIST_ID);
+  const isArtistTrack = !!(selectedPlaylistItem["playlist_id"] === ARTIST_PLAYLIST_ID);
 
   const songId = selectedPlaylistItem.id ? selectedPlaylistItem.id : selectedPlaylistItem["song_id"];
   const trackId = createSpotifyIdFromUri(songId);
   const trackUri = createUriFromTrackId(songId);
   let result = undefined;
 
-  if (isRecommendationTrack || isLikedSong || isRankedTrack) {
+  if (isRecommendationTrack || isLikedSong || isRankedTrack || isSearchTrack || isArtistTrack) {
     try {
       if (isRankedTrack) {
         play(PlayerName.SpotifyWeb, { device_id: device?.id, uris: [trackUri], offset: 0 });
       } else if (isRecommendationTrack) {
         const recommendationTrackUris = getRecommendationURIsFromTrackId(trackId);
         play(PlayerName.SpotifyWeb, { device_id: device?.id, uris: recommendationTrackUris, offset: 0 });
+      } else if (isSearchTrack) {
+        const searchTrackUris = getSearchResultURIsFromTrackId(selectedPlaylistItem.id);
+        play(PlayerName.SpotifyWeb, { device_id: device?.id, uris: searchTrackUris, offset: 0 });
+      } else if (isArtistTrack) {
+        const artistTrackUris = getArtistURIsFromTrackId(selectedPlaylistItem.id);
+        play(PlayerName.SpotifyWeb, { device_id: device?.id, uris: artistTrackUris, offset: 0 });
       } else {
         const likedTrackUris = getLikedURIsFromTrackId(trackId);
         play(PlayerName.SpotifyWeb, { device_id: device?.id, uris: likedTrackUris, offset: 0 });
@@ -1,7 +1,6 @@
 import {
   CodyResponse,
   CodyResponseType,
-  followPlaylist,
   getPlaylists,
   getPlaylistTracks,
   getRecommendationsForTracks,
@@ -19,19 +18,36 @@ import {
   PlayerType,
   PlaylistItem,
   PlaylistTrackInfo,
-  removeTracksFromPlaylist,
   Track,
   TrackStatus,
 } from "cody-music";
 import { commands, window } from "vscode";
-import { RECOMMENDATION_LIMIT, RECOMMENDATION_PLAYLIST_ID, SOFTWARE_TOP_40_PLAYLIST_ID, OK_LABEL, SPOTIFY_LIKED_SONGS_PLAYLIST_ID, SPOTIFY_LIKED_SONGS_PLAYLIST_NAME, YES_LABEL } from "../Constants";
+import { RECOMMENDATION_PLAYLIST_ID, SOFTWARE_TOP_40_PLAYLIST_ID, SPOTIFY_LIKED_SONGS_PLAYLIST_ID, SPOTIFY_LIKED_SONGS_PLAYLIST_NAME, YES_LABEL } from "../Constants";
 import { app_endpoint } from '../Constants';
 import AudioFeatures from '../model/AudioFeatures';
 import { MusicCommandManager } from "../music/MusicCommandManager";
 import { MusicCommandUtil } from "../music/MusicCommandUtil";
+import { RequestPriority, scheduleSpotifyRequest } from "../music/SpotifyRequestScheduler";
 import { MusicControlManager } from "../music/MusicControlManager";
-import { getCodyErrorMessage, isMac, launchWebUrl, getItem, logIt } from "../Util";
-import { getSpotifyIntegration, populateSpotifyUser, updateCodyConfig, updateSpotifyClientInfo } from "./SpotifyManager";
+import { isMac, launchWebUrl, getItem, logIt } from "../Util";
+import { getConnectedSpotifyUser, getSpotifyIntegration, populateSpotifyUser, updateCodyConfig, updateSpotifyClientInfo } from "./SpotifyManager";
+import {
+  clearMusicCache,
+  createCacheVersionTag,
+  getMusicCacheEntry,
+  getPlaylistTracksCacheKey,
+  LIKED_SONGS_CACHE_KEY,
+  MusicCacheEntry,
+  PLAYLISTS_CACHE_KEY,
+  removeMusicCacheEntry,
+  updateMusicCacheEntry,
+  updateMusicCacheEntryData,
+  updateMusicCacheOwner,
+} from "./MusicCacheManager";
+import { MusicClient } from "cody-music/dist/lib/client";
+import { getSharedPlayerContext, publishPlayerContext } from "./PlayerStateSyncManager";
+import { enqueueMusicMutation, isMutationSent, MutationResult } from "./MusicMutationQueueManager";
+import { getSettings } from "./SettingsManager";
 
 let currentDevices: PlayerDevice[] = [];
 let spotifyLikedTracks: PlaylistItem[] = undefined;
@@ -45,7 +61,8 @@ let selectedTrackItem: PlaylistItem = undefined;
 let selectedTrackItems: PlaylistItem[] = undefined;
 let cachedRunningTrack: Track = undefined;
 let spotifyContext: PlayerContext = undefined;
-let selectedPlayerName = PlayerName.SpotifyWeb;
+// the player picked this session, the default player setting until then
+let selectedPlayerName: PlayerName = undefined;
 // playlists, recommendations, metrics
 let selectedTabView: string = "playlists";
 let metricsTypeSelected: string = "you";
@@ -53,6 +70,8 @@ let recommendationMetadata: any = undefined;
 let recommendationInfo: any = undefined;
 let sortAlphabetically: boolean = false;
 let audioFeatures: AudioFeatures = undefined;
+// cache keys that have been revalidated against spotify this session
+let revalidatedCacheKeys: string[] = [];
 
 ////////////////////////////////////////////////////////////////
 // UPDATE EXPORTS
@@ -64,12 +83,94 @@ export function updateSpotifyLikedTracks(songs) {
 
 export function removeTrackFromLikedPlaylist(trackId) {
   spotifyLikedTracks = spotifyLikedTracks.filter((n) => n.id !== trackId);
+  updateMusicCacheEntryData(LIKED_SONGS_CACHE_KEY, spotifyLikedTracks);
 }
 
 export function addTrackToLikedPlaylist(playlistItem: PlaylistItem) {
   playlistItem["liked"] = true;
   playlistItem["playlist_id"] = SPOTIFY_LIKED_SONGS_PLAYLIST_ID;
   spotifyLikedTracks.unshift(playlistItem);
+  updateMusicCacheEntryData(LIKED_SONGS_CACHE_KEY, spotifyLikedTracks);
+}
+
+export function addTrackToPlaylistTracks(playlist_id: string, playlistItem: PlaylistItem) {
+  // only update the tracks that have been loaded
+  if (playlistTracks[playlist_id] && !playlistTracks[playlist_id].find((n) => n.id === playlistItem.id)) {
+    playlistTracks[playlist_id].push({ ...playlistItem, playlist_id });
+    updateMusicCacheEntryData(getPlaylistTracksCacheKey(playlist_id), playlistTracks[playlist_id]);
+  }
+}
+
+export function removeTrackFromPlaylistTracks(playlist_id: string, trackId: string) {
+  if (playlistTracks[playlist_id]) {
+    playlistTracks[playlist_id] = playlistTracks[playlist_id].filter((n) => n.id !== trackId);
+    updateMusicCacheEntryData(getPlaylistTracksCacheKey(playlist_id), playlistTracks[playlist_id]);
+  }
+}
+
+export function addFollowedPlaylist(playlist: PlaylistItem) {
+  if (spotifyPlaylists && !spotifyPlaylists.find((n) => n.id === playlist.id)) {
+    spotifyPlaylists.push(playlist);
+    sortPlaylists(spotifyPlaylists);
+    updateMusicCacheEntryData(PLAYLISTS_CACHE_KEY, spotifyPlaylists);
+  }
+}
+
+export function moveTrackInPlaylistTracks(playlist_id: string, from_index: number, to_index: number) {
+  const tracks: PlaylistItem[] = playlistTracks[playlist_id];
+  if (tracks?.[from_index] && to_index >= 0 && to_index < tracks.length) {
+    tracks.splice(to_index, 0, ...tracks.splice(from_index, 1));
+    updateMusicCacheEntryData(getPlaylistTracksCacheKey(playlist_id), tracks);
+  }
+}
+
+export function updateCachedPlaylist(playlist_id: string, details: any) {
+  const playlist: PlaylistItem = spotifyPlaylists?.find((n) => n.id === playlist_id);
+  if (playlist) {
+    Object.assign(playlist, details);
+    sortPlaylists(spotifyPlaylists);
+    updateMusicCacheEntryData(PLAYLISTS_CACHE_KEY, spotifyPlaylists);
+  }
+}
+
+export function removeCachedPlaylist(playlist_id: string) {
+  if (spotifyPlaylists) {
+    spotifyPlaylists = spotifyPlaylists.filter((n) => n.id !== playlist_id);
+    updateMusicCacheEntryData(PLAYLISTS_CACHE_KEY, spotifyPlaylists);
+  }
+  delete playlistTracks[playlist_id];
+  removeMusicCacheEntry(getPlaylistTracksCacheKey(playlist_id));
+}
+
+/**
+ * Fetch the liked songs and a playlist's tracks again, skipping
+ * the cache. Used when a local change was rejected by spotify.
+ */
+export async function reloadLikedSongs() {
+  spotifyLikedTracks = undefined;
+  await populateLikedSongs();
+}
+
+export async function reloadPlaylistTracks(playlist_id: string) {
+  delete playlistTracks[playlist_id];
+  removeMusicCacheEntry(getPlaylistTracksCacheKey(playlist_id));
+  await populatePlaylistTracks(playlist_id);
+}
+
+/**
+ * Clears the in memory and on disk playlist data. Used when
+ * spotify is disconnected or a different account is connected.
+ */
+export function clearSpotifyPlaylistData(clearCache: boolean = true) {
+  spotifyPlaylists = undefined;
+  spotifyLikedTracks = undefined;
+  playlistTracks = {};
+  audioFeatures = undefined;
+  revalidatedCacheKeys = [];
+  clearSelectedTrackInfo();
+  if (clearCache) {
+    clearMusicCache();
+  }
 }
 
 export function clearSelectedTrackInfo() {
@@ -139,6 +240,7 @@ export function updateLikedStatusInPlaylist(playlist_id, track_id, liked_state)
   let item: PlaylistItem = playlistTracks[playlist_id]?.length ? playlistTracks[playlist_id].find((n) => n.id === track_id) : null;
   if (item) {
     item["liked"] = liked_state;
+    updateMusicCacheEntryData(getPlaylistTracksCacheKey(playlist_id), playlistTracks[playlist_id]);
   }
 
   if (recommendationInfo?.tracks) {
@@ -156,7 +258,15 @@ export function updateLikedStatusInPlaylist(playlist_id, track_id, liked_state)
 
 export async function getCachedSpotifyPlaylists() {
   if (!spotifyPlaylists || spotifyPlaylists.length === 0) {
-    spotifyPlaylists = await getSpotifyPlaylists();
+    const entry: MusicCacheEntry = getMusicCacheEntry(PLAYLISTS_CACHE_KEY);
+    if (entry?.data?.length) {
+      spotifyPlaylists = entry.data;
+      sortPlaylists(spotifyPlaylists);
+      // show the cached playlists now and check for changes in the background
+      revalidatePlaylistsCache(entry.version_tag);
+    } else {
+      spotifyPlaylists = await getSpotifyPlaylists();
+    }
   }
   return spotifyPlaylists;
 }
@@ -171,7 +281,13 @@ export function sortingAlphabetically() {
 
 export async function getCachedLikedSongsTracks() {
   if (!spotifyLikedTracks || spotifyLikedTracks.length === 0) {
-    await populateLikedSongs()
+    const entry: MusicCacheEntry = getMusicCacheEntry(LIKED_SONGS_CACHE_KEY);
+    if (entry?.data?.length) {
+      spotifyLikedTracks = entry.data;
+      revalidateLikedSongsCache(entry.version_tag);
+    } else {
+      await populateLikedSongs();
+    }
   }
   return spotifyLikedTracks;
 }
@@ -191,8 +307,17 @@ export function getCachedRecommendationMetadata() {
   return recommendationMetadata;
 }
 
-export async function getPlayerContext() {
-  return await getSpotifyPlayerContext();
+export async function getPlayerContext(useSharedState: boolean = false) {
+  if (useSharedState) {
+    // use what another window recently fetched if its available
+    const sharedContext: PlayerContext = getSharedPlayerContext();
+    if (sharedContext) {
+      return sharedContext;
+    }
+  }
+  const playerContext: PlayerContext = await scheduleSpotifyRequest(getSpotifyPlayerContext, [], { priority: RequestPriority.Background, coalesce: true });
+  publishPlayerContext(playerContext);
+  return playerContext;
 }
 
 export function getCachedRunningTrack() {
@@ -207,8 +332,11 @@ export function getExpandedPlaylistId() {
   return expandedPlaylistId;
 }
 
-export function getSelectedPlayerName() {
-  return selectedPlayerName;
+export function getSelectedPlayerName(): PlayerName {
+  if (selectedPlayerName) {
+    return selectedPlayerName;
+  }
+  return getSettings().defaultPlayer === "desktop" ? PlayerName.SpotifyDesktop : PlayerName.SpotifyWeb;
 }
 
 export function getSelectedTrackItem() {
@@ -262,7 +390,7 @@ export async function getTrackByPlaylistIdAndTrackId(playlist_id, track_id) {
       return trackItem;
     }
   }
-  const currentTrack: Track = await getRunningTrack();
+  const currentTrack: Track = await scheduleSpotifyRequest(getRunningTrack, [], { coalesce: true });
   if (currentTrack) {
     return createPlaylistItemFromTrack(currentTrack)
   }
@@ -332,14 +460,11 @@ export async function getSpotifyPlaylists(clear = false): Promise<PlaylistItem[]
   if (!clear && spotifyPlaylists?.length) {
     return spotifyPlaylists;
   }
-  try {
-    spotifyPlaylists = await getPlaylists(PlayerName.SpotifyWeb, { all: true });
-  } catch (e) {
-    logIt(`Error fetching playlists. ${e.message}`)
+  const playlists: PlaylistItem[] = await fetchSpotifyPlaylists();
+  if (playlists) {
+    spotifyPlaylists = playlists;
+    updateMusicCacheEntry(PLAYLISTS_CACHE_KEY, spotifyPlaylists, getPlaylistsVersionTag(spotifyPlaylists));
   }
-  spotifyPlaylists = spotifyPlaylists?.map((n, index) => {
-    return { ...n, index };
-  });
   return spotifyPlaylists;
 }
 
@@ -360,7 +485,7 @@ export function getSpotifyLikedPlaylist(): PlaylistItem {
 
 // SOFTWARE TOP 40
 export async function getSoftwareTop40Playlist() {
-  softwareTop40Playlist = await getSpotifyPlaylist(SOFTWARE_TOP_40_PLAYLIST_ID);
+  softwareTop40Playlist = await scheduleSpotifyRequest(getSpotifyPlaylist, [SOFTWARE_TOP_40_PLAYLIST_ID], { coalesce: true });
   if (softwareTop40Playlist && softwareTop40Playlist.tracks && softwareTop40Playlist.tracks["items"]) {
     softwareTop40Playlist.tracks["items"] = softwareTop40Playlist.tracks["items"].map((n) => {
       const albumName = getAlbumName(n.track);
@@ -386,9 +511,22 @@ export async function fetchTracksForLikedSongs() {
 // TRACKS FOR A SPECIFIED PLAYLIST
 export async function fetchTracksForPlaylist(playlist_id) {
   updateSelectedPlaylistId(playlist_id);
+  await populatePlaylistTracks(playlist_id);
+}
 
+// load the tracks without changing the selected playlist
+export async function populatePlaylistTracks(playlist_id) {
   if (!playlistTracks[playlist_id] && playlist_id !== SPOTIFY_LIKED_SONGS_PLAYLIST_ID) {
-    const results: CodyResponse = await getPlaylistTracks(PlayerName.SpotifyWeb, playlist_id);
+    // playlists that aren't in the library, i.e. from search results, have no snapshot to check the cache with
+    const snapshot_id: string = getPlaylistById(playlist_id)?.["snapshot_id"];
+    const entry: MusicCacheEntry = snapshot_id ? getMusicCacheEntry(getPlaylistTracksCacheKey(playlist_id)) : undefined;
+    if (entry?.data && entry.version_tag === snapshot_id) {
+      // the playlist hasn't changed since its tracks were cached
+      playlistTracks[playlist_id] = entry.data;
+      return;
+    }
+
+    const results: CodyResponse = await scheduleSpotifyRequest(getPlaylistTracks, [PlayerName.SpotifyWeb, playlist_id], { coalesce: true });
     let tracks: PlaylistItem[] = await getPlaylistItemTracksFromCodyResponse(results);
     // add the playlist id to the tracks
     if (tracks?.length) {
@@ -402,6 +540,9 @@ export async function fetchTracksForPlaylist(playlist_id) {
       }
     }
     playlistTracks[playlist_id] = tracks;
+    if (snapshot_id && results?.state === CodyResponseType.Success) {
+      updateMusicCacheEntry(getPlaylistTracksCacheKey(playlist_id), tracks, snapshot_id);
+    }
   } else if (playlist_id === SPOTIFY_LIKED_SONGS_PLAYLIST_ID) {
     await getCachedLikedSongsTracks();
   }
@@ -415,11 +556,11 @@ export async function getAudioFeatures() {
   const ids: string[] = (await getCachedLikedSongsTracks()).map((n) => {
     return n.id
   });
-  return await getSpotifyAudioFeatures(ids.slice(0, 100));
+  return await scheduleSpotifyRequest(getSpotifyAudioFeatures, [ids.slice(0, 100)], { coalesce: true });
 }
 
 export async function populateLikedSongs() {
-  const tracks: Track[] = (await getSpotifyLikedSongs()) ?? [];
+  const tracks: Track[] = (await scheduleSpotifyRequest(getSpotifyLikedSongs, [], { coalesce: true })) ?? [];
   // add the playlist id to the tracks
   if (tracks?.length) {
     spotifyLikedTracks = tracks.map((t, idx) => {
@@ -428,6 +569,7 @@ export async function populateLikedSongs() {
       playlistItem["liked"] = true;
       return playlistItem;
     });
+    updateMusicCacheEntry(LIKED_SONGS_CACHE_KEY, spotifyLikedTracks, getLikedSongsVersionTag(tracks.length, tracks[0].id));
   }
 }
 
@@ -487,6 +629,17 @@ export function getTrackRecommendations(playlistItem: PlaylistItem) {
 }
 
 export async function getAlbumForTrack(playlistItem: PlaylistItem) {
+  const items: PlaylistItem[] = await getAlbumTracks(playlistItem);
+  if (items) {
+    populateRecommendationTracks(playlistItem["albumName"], items);
+  }
+}
+
+/**
+ * Returns the tracks of the album of a track or album item, undefined if it has no album
+ * @param playlistItem
+ */
+export async function getAlbumTracks(playlistItem: PlaylistItem): Promise<PlaylistItem[]> {
   let albumId = playlistItem["albumId"];
   let albumName = playlistItem["album"] ? playlistItem["album"]["name"] : "";
   if (!albumId && playlistItem["album"]) {
@@ -494,7 +647,7 @@ export async function getAlbumForTrack(playlistItem: PlaylistItem) {
   }
 
   if (albumId) {
-    const albumTracks: Track[] = await getSpotifyAlbumTracks(albumId);
+    const albumTracks: Track[] = await scheduleSpotifyRequest(getSpotifyAlbumTracks, [albumId], { coalesce: true });
     let items: PlaylistItem[] = [];
 
     if (albumTracks?.length) {
@@ -509,8 +662,9 @@ export async function getAlbumForTrack(playlistItem: PlaylistItem) {
         items.push(playlistItem);
       }
     }
-    populateRecommendationTracks(playlistItem["albumName"], items);
+    return items;
   }
+  return undefined;
 }
 
 export function refreshRecommendations() {
@@ -553,15 +707,10 @@ export async function getRecommendations(
   };
 
   recommendedTracks = await getTrackIdsForRecommendations(seedLimit, seedTracks, offset).then(async (trackIds) => {
-    const tracks: Track[] = await getRecommendationsForTracks(
-      trackIds,
-      RECOMMENDATION_LIMIT,
-      "" /*market*/,
-      20,
-      100,
-      seed_genres,
-      [] /*artists*/,
-      features
+    const tracks: Track[] = await scheduleSpotifyRequest(
+      getRecommendationsForTracks,
+      [trackIds, getSettings().recommendationLimit, "" /*market*/, 20, 100, seed_genres, [] /*artists*/, features],
+      { coalesce: true }
     );
 
     let items: PlaylistItem[] = [];
@@ -630,16 +779,11 @@ export function removeTracksFromRecommendations(trackId) {
 ////////////////////////////////////////////////////////////////
 
 // POPULATE
-export async function populateSpotifyDevices(tryAgain = false) {
-  const devices = await MusicCommandUtil.getInstance().runSpotifyCommand(getSpotifyDevices);
-
-  if (devices.status && devices.status === 429 && tryAgain) {
-    // try one more time in lazily since its not a device launch request.
-    // the device launch requests retries a few times every couple seconds.
-    setTimeout(() => {
-      // use true to specify its a device launch so this doens't try continuously
-      populateSpotifyDevices(false);
-    }, 5000);
+export async function populateSpotifyDevices() {
+  // the scheduler waits out and retries rate limited requests
+  const devices = await MusicCommandUtil.getInstance().runSpotifyCommand(getSpotifyDevices, [], { coalesce: true });
+
+  if (devices.status && devices.status === 429) {
     return;
   }
 
@@ -755,17 +899,26 @@ export function getDeviceMenuInfo() {
 
 export function getBestActiveDevice() {
   const { webPlayer, desktop, activeDevice } = getDeviceSet();
+  const preferredDevice: PlayerDevice = getPreferredDevice();
 
-  const device = activeDevice ? activeDevice : desktop ? desktop : webPlayer ? webPlayer : null;
+  const device = activeDevice ? activeDevice : preferredDevice ? preferredDevice : desktop ? desktop : webPlayer ? webPlayer : null;
   return device;
 }
 
+/**
+ * The device named in the preferred device setting, if it's available
+ */
+export function getPreferredDevice(): PlayerDevice {
+  const name: string = getSettings().preferredDevice.trim().toLowerCase();
+  return name ? currentDevices?.find((d: PlayerDevice) => d.name.toLowerCase() === name) : undefined;
+}
+
 ////////////////////////////////////////////////////////////////
 // PLAYER CONTEXT FUNCTIONS
 ////////////////////////////////////////////////////////////////
 
 export async function populatePlayerContext() {
-  spotifyContext = await getSpotifyPlayerContext();
+  spotifyContext = await scheduleSpotifyRequest(getSpotifyPlayerContext, [], { priority: RequestPriority.Background, coalesce: true });
   MusicCommandManager.syncControls();
 }
 
@@ -789,7 +942,14 @@ export async function initializeSpotify(reload: boolean = true) {
   // get the spotify user
   await populateSpotifyUser(true);
 
-  await populateSpotifyDevices(false);
+  // the cached playlists are only valid for the account they were fetched with
+  const spotifyUser = await getConnectedSpotifyUser();
+  if (updateMusicCacheOwner(spotifyUser?.id)) {
+    // a different account was connected, drop what was loaded for the previous one
+    clearSpotifyPlaylistData(false);
+  }
+
+  await populateSpotifyDevices();
 
   // initialize the status bar music controls
   MusicCommandManager.initialize();
@@ -806,7 +966,7 @@ export async function initializeSpotify(reload: boolean = true) {
 export async function isTrackRepeating(): Promise<boolean> {
   // get the current repeat state
   if (!spotifyContext) {
-    spotifyContext = await getSpotifyPlayerContext();
+    spotifyContext = await scheduleSpotifyRequest(getSpotifyPlayerContext, [], { coalesce: true });
   }
   // "off", "track", "context", ""
   const repeatState = spotifyContext ? spotifyContext.repeat_state : "";
@@ -829,36 +989,33 @@ export async function removeTrackFromPlaylist(trackItem: PlaylistItem) {
         await MusicControlManager.getInstance().setLiked(trackItem, false);
       }
     } else {
-      // remove it from a playlist
-      const tracks = [trackItem.id];
-      const result = await removeTracksFromPlaylist(currentPlaylistId, tracks);
-
-      const errMsg = getCodyErrorMessage(result);
-      if (errMsg) {
-        window.showInformationMessage(`Unable to remove the track from your playlist. ${errMsg}`);
-      } else {
-        // remove it from the cached list
-        playlistTracks[currentPlaylistId] = playlistTracks[currentPlaylistId].filter((n) => n.id !== trackItem.id);
-
+      // remove it from the cached list, the queue sends it to spotify
+      removeTrackFromPlaylistTracks(currentPlaylistId, trackItem.id);
+      const result: MutationResult = await enqueueMusicMutation({
+        type: "removeFromPlaylist",
+        track_id: trackItem.id,
+        track_name: trackItem.name,
+        playlist_id: currentPlaylistId,
+        playlist_name: foundPlaylist.name,
+      });
+
+      if (isMutationSent(result)) {
         window.showInformationMessage("Song removed successfully");
-        commands.executeCommand("musictime.refreshMusicTimeView");
       }
+      commands.executeCommand("musictime.refreshMusicTimeView");
     }
   }
 }
 
 export async function followSpotifyPlaylist(playlist: PlaylistItem) {
-  const codyResp: CodyResponse = await followPlaylist(playlist.id);
-  if (codyResp.state === CodyResponseType.Success) {
+  addFollowedPlaylist(playlist);
+  // the playlists are fetched again once spotify has it
+  const result: MutationResult = await enqueueMusicMutation({ type: "followPlaylist", playlist_id: playlist.id, playlist_name: playlist.name });
+  if (isMutationSent(result)) {
     window.showInformationMessage(`Successfully following the '${playlist.name}' playlist.`);
-
-    // repopulate the playlists since we've changed the state of the playlist
-    await getSpotifyPlaylists();
-
-    commands.executeCommand("musictime.refreshMusicTimeView");
-  } else {
-    window.showInformationMessage(`Unable to follow ${playlist.name}. ${codyResp.message}`, ...[OK_LABEL]);
   }
+
+  commands.executeCommand("musictime.refreshMusicTimeView");
 }
 
 export async function isLikedSong(song: any) {
@@ -871,7 +1028,7 @@ export async function isLikedSong(song: any) {
   }
   if (!spotifyLikedTracks || spotifyLikedTracks.length === 0) {
     // fetch the liked tracks
-    await populateLikedSongs();
+    await getCachedLikedSongsTracks();
   }
   return !!spotifyLikedTracks?.find((n) => n.id === trackId);
 }
@@ -879,7 +1036,7 @@ export async function isLikedSong(song: any) {
 export async function isLikedTrackId(trackId) {
   if (!spotifyLikedTracks || spotifyLikedTracks.length === 0) {
     // fetch the liked tracks
-    await populateLikedSongs();
+    await getCachedLikedSongsTracks();
   }
   return !!spotifyLikedTracks?.find((n) => n.id === trackId);
 }
@@ -906,6 +1063,79 @@ export function createSpotifyIdFromUri(id: string) {
   return id;
 }
 
+async function fetchSpotifyPlaylists(): Promise<PlaylistItem[]> {
+  try {
+    const playlists: PlaylistItem[] = await scheduleSpotifyRequest(getPlaylists, [PlayerName.SpotifyWeb, { all: true }], { coalesce: true });
+    return playlists?.length ? playlists.map((n, index) => ({ ...n, index })) : playlists;
+  } catch (e) {
+    logIt(`Error fetching playlists. ${e.message}`);
+  }
+  return null;
+}
+
+function getPlaylistsVersionTag(playlists: PlaylistItem[]) {
+  return createCacheVersionTag(playlists.map((n) => `${n.id}:${n["snapshot_id"]}`));
+}
+
+function getLikedSongsVersionTag(total: number, firstTrackId: string) {
+  return `${total}:${firstTrackId}`;
+}
+
+/**
+ * Fetch the playlists and replace the cached copy if any snapshot_id has changed
+ */
+async function revalidatePlaylistsCache(version_tag: string) {
+  if (revalidatedCacheKeys.includes(PLAYLISTS_CACHE_KEY)) {
+    return;
+  }
+  revalidatedCacheKeys.push(PLAYLISTS_CACHE_KEY);
+
+  const playlists: PlaylistItem[] = await fetchSpotifyPlaylists();
+  if (!playlists?.length || getPlaylistsVersionTag(playlists) === version_tag) {
+    return;
+  }
+
+  // drop the loaded tracks of the playlists that have changed
+  const snapshots = {};
+  spotifyPlaylists?.forEach((n) => (snapshots[n.id] = n["snapshot_id"]));
+  playlists.forEach((n) => {
+    if (snapshots[n.id] !== n["snapshot_id"]) {
+      delete playlistTracks[n.id];
+    }
+  });
+
+  spotifyPlaylists = playlists;
+  sortPlaylists(spotifyPlaylists);
+  updateMusicCacheEntry(PLAYLISTS_CACHE_KEY, playlists, getPlaylistsVersionTag(playlists));
+
+  if (selectedPlaylistId && !playlistTracks[selectedPlaylistId]) {
+    await fetchTracksForPlaylist(selectedPlaylistId);
+  }
+  commands.executeCommand("musictime.refreshMusicTimeView");
+}
+
+/**
+ * Compare the liked songs total and latest saved track with the cached
+ * version and fetch the liked songs again if they don't match
+ */
+async function revalidateLikedSongsCache(version_tag: string) {
+  if (revalidatedCacheKeys.includes(LIKED_SONGS_CACHE_KEY)) {
+    return;
+  }
+  revalidatedCacheKeys.push(LIKED_SONGS_CACHE_KEY);
+
+  const client = MusicClient.getInstance();
+  const resp: CodyResponse = await scheduleSpotifyRequest(client.spotifyApiGet.bind(client), ["/v1/me/tracks", { limit: 1 }], { priority: RequestPriority.Background, coalesce: true });
+  if (resp?.state !== CodyResponseType.Success || !resp.data) {
+    return;
+  }
+  const latestTrackId = resp.data.items?.length ? resp.data.items[0].track?.id : undefined;
+  if (getLikedSongsVersionTag(resp.data.total, latestTrackId) !== version_tag) {
+    await populateLikedSongs();
+    commands.executeCommand("musictime.refreshMusicTimeView");
+  }
+}
+
 async function getPlaylistItemTracksFromCodyResponse(codyResponse: CodyResponse): Promise<PlaylistItem[]> {
   let playlistItems: PlaylistItem[] = [];
   if (codyResponse && codyResponse.state === CodyResponseType.Success) {
@@ -943,6 +1173,8 @@ export function createPlaylistItemFromTrack(track: Track, position: number = und
   playlistItem["albumId"] = track?.album?.id;
   playlistItem["albumName"] = getAlbumName(track);
   playlistItem["description"] = getArtistAlbumDescription(track);
+  // used to open the artist pages
+  playlistItem["trackArtists"] = (track.artists ?? []).map((n: any) => ({ id: n.id, name: n.name }));
 
   delete playlistItem.tracks;
 
@@ -0,0 +1,199 @@
+import { PlaylistItem } from "cody-music";
+import { commands, Uri, window } from "vscode";
+import { YES_LABEL } from "../Constants";
+import { MusicProvider, PlaylistDetails } from "../providers/MusicProvider";
+import { logIt } from "../Util";
+import { getMusicProvider } from "./MusicProviderManager";
+import { getSelectedPlaylistId, updateSelectedPlaylistId } from "./PlaylistDataManager";
+
+const fs = require("fs");
+
+// spotify accepts up to 256 KB of base64, about 190 KB of jpeg
+const MAX_COVER_IMAGE_BASE64_LENGTH = 256 * 1024;
+
+let editingPlaylistId: string = undefined;
+
+export function getEditingPlaylistId(): string {
+  return editingPlaylistId;
+}
+
+/**
+ * Turn the editing mode of a playlist on or off. The playlist is
+ * opened in the sidebar while it's edited.
+ * @param playlist_id
+ */
+export async function togglePlaylistEditor(playlist_id: string) {
+  const playlist: PlaylistItem = await getEditablePlaylist(playlist_id);
+  if (!playlist) {
+    return;
+  }
+  editingPlaylistId = editingPlaylistId === playlist_id ? undefined : playlist_id;
+  commands.executeCommand("musictime.refreshMusicTimeView", { tabView: "playlists", playlistId: playlist_id, refreshOpenFolder: true });
+}
+
+export async function renamePlaylist(playlist_id: string) {
+  const playlist: PlaylistItem = await getEditablePlaylist(playlist_id);
+  if (!playlist) {
+    return;
+  }
+  const name: string = await window.showInputBox({
+    value: playlist.name,
+    prompt: "Rename the playlist",
+    validateInput: (text) => (!text?.trim() ? "Please enter a playlist name to continue." : null),
+  });
+  if (name?.trim() && name.trim() !== playlist.name) {
+    await updatePlaylist(playlist, { name: name.trim() }, `rename '${playlist.name}'`);
+  }
+}
+
+export async function editPlaylistDescription(playlist_id: string) {
+  const playlist: PlaylistItem = await getEditablePlaylist(playlist_id);
+  if (!playlist) {
+    return;
+  }
+  const description: string = await window.showInputBox({
+    value: playlist["description"] ?? "",
+    prompt: `Describe '${playlist.name}'`,
+    placeHolder: "Add an optional description",
+  });
+  // undefined when the input was cancelled, empty clears the description
+  if (description !== undefined) {
+    await updatePlaylist(playlist, { description: description.trim() }, `update the description of '${playlist.name}'`);
+  }
+}
+
+/**
+ * Collaborative playlists can't be public, turning one on turns the other off
+ * @param playlist_id
+ */
+export async function togglePlaylistPublic(playlist_id: string) {
+  const playlist: PlaylistItem = await getEditablePlaylist(playlist_id);
+  if (!playlist) {
+    return;
+  }
+  const details: PlaylistDetails = playlist.public ? { public: false } : { public: true, collaborative: false };
+  await updatePlaylist(playlist, details, `make '${playlist.name}' ${details.public ? "public" : "private"}`);
+}
+
+export async function togglePlaylistCollaborative(playlist_id: string) {
+  const playlist: PlaylistItem = await getEditablePlaylist(playlist_id);
+  if (!playlist) {
+    return;
+  }
+  const details: PlaylistDetails = playlist.collaborative ? { collaborative: false } : { collaborative: true, public: false };
+  await updatePlaylist(playlist, details, `make '${playlist.name}' ${details.collaborative ? "collaborative" : "not collaborative"}`);
+}
+
+export async function uploadPlaylistCover(playlist_id: string) {
+  const playlist: PlaylistItem = await getEditablePlaylist(playlist_id);
+  if (!playlist) {
+    return;
+  }
+  const files: Uri[] = await window.showOpenDialog({
+    canSelectFiles: true,
+    canSelectFolders: false,
+    canSelectMany: false,
+    filters: { "JPEG images": ["jpg", "jpeg"] },
+    openLabel: "Use as cover image",
+  });
+  if (!files?.length) {
+    return;
+  }
+
+  let image_base64: string = "";
+  try {
+    image_base64 = fs.readFileSync(files[0].fsPath).toString("base64");
+  } catch (e) {
+    logIt(`Error reading the cover image ${files[0].fsPath}: ${e.message}`);
+  }
+  if (!image_base64) {
+    window.showErrorMessage("Unable to read the cover image");
+    return;
+  }
+  if (image_base64.length > MAX_COVER_IMAGE_BASE64_LENGTH) {
+    window.showErrorMessage("The cover image must be a JPEG smaller than 190 KB");
+    return;
+  }
+
+  if (await getMusicProvider().uploadPlaylistCover(playlist.id, image_base64)) {
+    window.showInformationMessage(`Updated the cover image of '${playlist.name}'`);
+  } else {
+    window.showErrorMessage(`Unable to update the cover image of '${playlist.name}'`);
+  }
+  refreshPlaylistsView();
+}
+
+export async function deletePlaylist(playlist_id: string) {
+  const playlist: PlaylistItem = await getEditablePlaylist(playlist_id);
+  if (!playlist) {
+    return;
+  }
+  const selection = await window.showWarningMessage(
+    `Are you sure you would like to delete the '${playlist.name}' playlist?`,
+    { modal: true },
+    YES_LABEL
+  );
+  if (selection !== YES_LABEL) {
+    return;
+  }
+
+  if (editingPlaylistId === playlist_id) {
+    editingPlaylistId = undefined;
+  }
+  if (getSelectedPlaylistId() === playlist_id) {
+    updateSelectedPlaylistId(undefined);
+  }
+  if (await getMusicProvider().deletePlaylist(playlist_id)) {
+    window.showInformationMessage(`Deleted the '${playlist.name}' playlist`);
+  } else {
+    window.showErrorMessage(`Unable to delete the '${playlist.name}' playlist`);
+  }
+  refreshPlaylistsView();
+}
+
+/**
+ * Move a track that was dragged to a new position in the playlist
+ * @param playlist_id
+ * @param from_index
+ * @param to_index
+ */
+export async function reorderPlaylistTrack(playlist_id: string, from_index: number, to_index: number) {
+  const playlist: PlaylistItem = await getEditablePlaylist(playlist_id);
+  if (!playlist || from_index === to_index) {
+    return;
+  }
+  const updated: Promise<boolean> = getMusicProvider().reorderPlaylistTrack(playlist_id, from_index, to_index);
+  // show the new order while it's sent
+  refreshPlaylistsView();
+  if (!(await updated)) {
+    window.showErrorMessage(`Unable to reorder the tracks of '${playlist.name}'`);
+    refreshPlaylistsView();
+  }
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+async function getEditablePlaylist(playlist_id: string): Promise<PlaylistItem> {
+  const provider: MusicProvider = getMusicProvider();
+  const playlist: PlaylistItem = (await provider.getPlaylists()).find((n: PlaylistItem) => n.id === playlist_id);
+  if (!provider.canEditPlaylist(playlist)) {
+    window.showInformationMessage(`${playlist?.name ? `'${playlist.name}'` : "The playlist"} can't be edited`);
+    return undefined;
+  }
+  return playlist;
+}
+
+async function updatePlaylist(playlist: PlaylistItem, details: PlaylistDetails, description: string) {
+  const updated: Promise<boolean> = getMusicProvider().updatePlaylistDetails(playlist.id, details);
+  refreshPlaylistsView();
+  if (!(await updated)) {
+    window.showErrorMessage(`Unable to ${description}`);
+    refreshPlaylistsView();
+  }
+}
+
+function refreshPlaylistsView() {
+  commands.executeCommand("musictime.refreshMusicTimeView");
+}
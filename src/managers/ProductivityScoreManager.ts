@@ -0,0 +1,155 @@
+import MusicMetrics from "../model/MusicMetrics";
+import { getMusicSessionRecords, getRecordProvider, MusicSessionRecord } from "./MusicSessionManager";
+
+// plays shorter than this were most likely skipped
+const MIN_PLAY_SECONDS = 30;
+// minutes of "average" listening every song starts with so a single
+// short play can't make it the most productive song
+const PRIOR_MINUTES = 5;
+
+/**
+ * Productivity of an artist or genre. Songs use MusicMetrics.
+ */
+export interface ProductivityRank {
+  name: string;
+  keystrokes: number;
+  plays: number;
+  minutes: number;
+  productivity_score: number;
+  rank: number;
+}
+
+export interface ProductivityScores {
+  songs: MusicMetrics[];
+  artists: ProductivityRank[];
+  genres: ProductivityRank[];
+}
+
+let productivityScores: ProductivityScores = undefined;
+let scoredRecordCount: number = -1;
+
+/**
+ * Returns the song, artist and genre productivity computed from the local
+ * session log. Only the new lines of the log are read and the scores are
+ * only recomputed when new records are written.
+ *
+ * A score of 100 means keystrokes per minute were typical for the hour of day
+ * and the session the song was played in. 150 means 50% above typical.
+ */
+export function getProductivityScores(): ProductivityScores {
+  const records: MusicSessionRecord[] = getMusicSessionRecords();
+  if (!productivityScores || records.length !== scoredRecordCount) {
+    productivityScores = computeProductivityScores(records.filter((n) => n.end - n.start >= MIN_PLAY_SECONDS));
+    scoredRecordCount = records.length;
+  }
+  return productivityScores;
+}
+
+export function getMostProductiveSongs(limit: number = 10): MusicMetrics[] {
+  return getProductivityScores().songs.slice(0, limit);
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+function computeProductivityScores(records: MusicSessionRecord[]): ProductivityScores {
+  // typical keystrokes per minute by hour of day and by session
+  const hourRates = getRates(records, (n) => `${new Date(n.start * 1000).getHours()}`);
+  const sessionRates = getRates(records, (n) => n.session_id);
+  const overallRate = getRates(records, () => "all")["all"] ?? 0;
+
+  const songs = {};
+  const artists = {};
+  const genres = {};
+
+  records.forEach((record) => {
+    const minutes = getMinutes(record);
+    const expectedRate = Math.sqrt(
+      (hourRates[new Date(record.start * 1000).getHours()] || overallRate) * (sessionRates[record.session_id] || overallRate)
+    );
+    // relative to what was typical when and where the song was played
+    const relativeRate = expectedRate ? record.keystrokes / minutes / expectedRate : 0;
+
+    addToScore(songs, record.track_id, record, minutes, relativeRate);
+    addToScore(artists, record.artist, record, minutes, relativeRate);
+    addToScore(genres, record.genre, record, minutes, relativeRate);
+  });
+
+  const songMetrics: MusicMetrics[] = Object.keys(songs).map((key) => {
+    const score = songs[key];
+    const metrics: MusicMetrics = new MusicMetrics();
+    metrics.song_id = key;
+    metrics.provider = getRecordProvider(score.record);
+    metrics.song_name = score.record.track_name;
+    metrics.artist_name = score.record.artist;
+    metrics.primary_artist_name = score.record.artist;
+    metrics.keystrokes = score.keystrokes;
+    metrics.plays = score.plays;
+    metrics.productivity_score = getScore(score);
+    if (score.record.audio_features) {
+      metrics.setAudioFeatures(score.record.audio_features);
+    }
+    return metrics;
+  });
+  songMetrics.sort((a, b) => b.productivity_score - a.productivity_score);
+  songMetrics.forEach((n, idx) => (n.song_rank = idx + 1));
+
+  return {
+    songs: songMetrics,
+    artists: getRanks(artists),
+    genres: getRanks(genres),
+  };
+}
+
+function getRates(records: MusicSessionRecord[], keyFn: (record: MusicSessionRecord) => string) {
+  const totals = {};
+  records.forEach((record) => {
+    const key = keyFn(record);
+    totals[key] = totals[key] ?? { keystrokes: 0, minutes: 0 };
+    totals[key].keystrokes += record.keystrokes;
+    totals[key].minutes += getMinutes(record);
+  });
+
+  const rates = {};
+  Object.keys(totals).forEach((key) => {
+    rates[key] = totals[key].keystrokes / totals[key].minutes;
+  });
+  return rates;
+}
+
+function addToScore(scores: any, key: string, record: MusicSessionRecord, minutes: number, relativeRate: number) {
+  if (!key) {
+    return;
+  }
+  scores[key] = scores[key] ?? { record, keystrokes: 0, plays: 0, minutes: 0, weighted_rate: 0 };
+  scores[key].keystrokes += record.keystrokes;
+  scores[key].plays += 1;
+  scores[key].minutes += minutes;
+  scores[key].weighted_rate += relativeRate * minutes;
+}
+
+function getRanks(scores: any): ProductivityRank[] {
+  const ranks: ProductivityRank[] = Object.keys(scores).map((key) => {
+    return {
+      name: key,
+      keystrokes: scores[key].keystrokes,
+      plays: scores[key].plays,
+      minutes: Math.round(scores[key].minutes),
+      productivity_score: getScore(scores[key]),
+      rank: 0,
+    };
+  });
+  ranks.sort((a, b) => b.productivity_score - a.productivity_score);
+  ranks.forEach((n, idx) => (n.rank = idx + 1));
+  return ranks;
+}
+
+function getScore(score: any) {
+  // minutes weighted average pulled toward 1 (typical) by the prior
+  return Math.round(((score.weighted_rate + PRIOR_MINUTES) / (score.minutes + PRIOR_MINUTES)) * 100);
+}
+
+function getMinutes(record: MusicSessionRecord) {
+  return Math.max(record.end - record.start, MIN_PLAY_SECONDS) / 60;
+}
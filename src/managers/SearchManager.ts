@@ -0,0 +1,204 @@
+import { PlaylistItem } from "cody-music";
+import { commands, window } from "vscode";
+import { SEARCH_RESULTS_PLAYLIST_ID } from "../Constants";
+import { MusicProvider } from "../providers/MusicProvider";
+import { SearchResults, SearchResultType, SEARCH_RESULT_TYPES } from "../providers/SearchQuery";
+import { getItem, logIt, setItem } from "../Util";
+import { getMusicProvider } from "./MusicProviderManager";
+
+// results fetched per page, spotify allows up to 50
+const SEARCH_PAGE_LIMIT = 20;
+const SEARCH_HISTORY_LIMIT = 20;
+
+export interface SearchDetail {
+  label: string;
+  tracks: PlaylistItem[];
+}
+
+export interface SearchState {
+  query: string;
+  type: SearchResultType;
+  results: SearchResults;
+  // the tracks of the album, artist or playlist that was clicked
+  detail: SearchDetail;
+  // restored after the view is rebuilt for the next page
+  scrollY: number;
+  loading: boolean;
+}
+
+let searchQuery: string = "";
+let searchType: SearchResultType = "track";
+let searchResults = {};
+let searchDetail: SearchDetail = undefined;
+let searchScrollY: number = 0;
+let searchLoading: boolean = false;
+// counts the queries so a page fetched for an earlier query is dropped
+let searchGeneration: number = 0;
+
+export function getSearchState(): SearchState {
+  return {
+    query: searchQuery,
+    type: searchType,
+    results: searchResults[searchType] ?? { items: [], total: 0 },
+    detail: searchDetail,
+    scrollY: searchScrollY,
+    loading: searchLoading,
+  };
+}
+
+export function getSearchHistory(): string[] {
+  return getItem("searchHistory") ?? [];
+}
+
+export function clearSearchHistory() {
+  setItem("searchHistory", []);
+}
+
+/**
+ * Search with a new query and show the search view
+ * @param query
+ */
+export async function runSearch(query: string) {
+  query = query?.trim();
+  if (!query) {
+    return;
+  }
+  addToSearchHistory(query);
+  searchQuery = query;
+  searchResults = {};
+  searchDetail = undefined;
+  searchScrollY = 0;
+  const generation: number = ++searchGeneration;
+  await fetchSearchPage(searchType);
+  if (generation !== searchGeneration) {
+    // a newer search shows its own results
+    return;
+  }
+
+  const results: SearchResults = searchResults[searchType];
+  if (!results?.total && searchType === "track") {
+    window.showInformationMessage(`No songs found matching '${query}'`);
+  }
+  refreshSearchView();
+}
+
+export async function selectSearchResultType(type: SearchResultType) {
+  if (!SEARCH_RESULT_TYPES.includes(type)) {
+    return;
+  }
+  searchType = type;
+  searchDetail = undefined;
+  searchScrollY = 0;
+  if (searchQuery && !searchResults[type]) {
+    await fetchSearchPage(type);
+  }
+  refreshSearchView();
+}
+
+/**
+ * Fetch the next page of the selected result type
+ * @param scrollY where the view was scrolled to
+ */
+export async function loadMoreSearchResults(scrollY: number = 0) {
+  const results: SearchResults = searchResults[searchType];
+  if (searchLoading || searchDetail || !results || results.items.length >= results.total) {
+    return;
+  }
+  searchScrollY = scrollY;
+  await fetchSearchPage(searchType);
+  refreshSearchView();
+}
+
+export function getSearchResultItem(type: SearchResultType, id: string): PlaylistItem {
+  return searchResults[type]?.items.find((n: PlaylistItem) => n.id === id);
+}
+
+/**
+ * Show the tracks of an album or playlist in the search results,
+ * artists open in the artist view
+ * @param type
+ * @param id
+ */
+export async function showSearchResultTracks(type: SearchResultType, id: string) {
+  const item: PlaylistItem = getSearchResultItem(type, id);
+  if (!item) {
+    return;
+  }
+  const provider: MusicProvider = getMusicProvider();
+  let tracks: PlaylistItem[] = [];
+  if (type === "album") {
+    tracks = await provider.getAlbumTracks(item);
+  } else if (type === "playlist") {
+    tracks = await provider.getPlaylistTracks(item.id);
+  }
+  searchDetail = { label: item.name, tracks: (tracks ?? []).map((n: PlaylistItem) => toSearchTrack(n)) };
+  refreshSearchView();
+}
+
+export function closeSearchResultTracks() {
+  searchDetail = undefined;
+  refreshSearchView();
+}
+
+/**
+ * The listed search track, from the album, artist or playlist when one is open
+ * @param track_id
+ */
+export function getSearchResultTrack(track_id: string): PlaylistItem {
+  return getListedSearchTracks().find((n: PlaylistItem) => n.id === track_id);
+}
+
+/**
+ * The uris of the listed tracks starting with the given track
+ * @param track_id
+ */
+export function getSearchResultURIsFromTrackId(track_id: string): string[] {
+  const tracks: PlaylistItem[] = getListedSearchTracks();
+  const idx: number = Math.max(tracks.findIndex((n: PlaylistItem) => n.id === track_id), 0);
+  return [...tracks.slice(idx), ...tracks.slice(0, idx)].map((n: PlaylistItem) => n.uri || `spotify:track:${n.id}`);
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+async function fetchSearchPage(type: SearchResultType) {
+  const current: SearchResults = searchResults[type] ?? { items: [], total: 0 };
+  const generation: number = searchGeneration;
+  const query: string = searchQuery;
+  searchLoading = true;
+  try {
+    const page: SearchResults = await getMusicProvider().search(query, type, current.items.length, SEARCH_PAGE_LIMIT);
+    if (generation !== searchGeneration) {
+      return;
+    }
+    const items: PlaylistItem[] = page.items.map((n: PlaylistItem) => (type === "track" ? toSearchTrack(n) : n));
+    searchResults[type] = { items: [...current.items, ...items], total: page.total };
+  } catch (e) {
+    logIt(`Error searching for '${query}': ${e.message}`);
+    if (generation === searchGeneration) {
+      searchResults[type] = current;
+    }
+  } finally {
+    if (generation === searchGeneration) {
+      searchLoading = false;
+    }
+  }
+}
+
+function getListedSearchTracks(): PlaylistItem[] {
+  return searchDetail ? searchDetail.tracks : searchResults["track"]?.items ?? [];
+}
+
+function toSearchTrack(track: PlaylistItem): PlaylistItem {
+  return { ...track, playlist_id: SEARCH_RESULTS_PLAYLIST_ID } as PlaylistItem;
+}
+
+function addToSearchHistory(query: string) {
+  const history: string[] = getSearchHistory().filter((n: string) => n.toLowerCase() !== query.toLowerCase());
+  setItem("searchHistory", [query, ...history].slice(0, SEARCH_HISTORY_LIMIT));
+}
+
+function refreshSearchView() {
+  commands.executeCommand("musictime.refreshMusicTimeView", { tabView: "search" });
+}
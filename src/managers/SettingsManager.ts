@@ -0,0 +1,150 @@
+import { ConfigurationChangeEvent, ConfigurationTarget, Disposable, Event, EventEmitter, workspace } from "vscode";
+import { DEFAULT_CURRENTLY_PLAYING_TRACK_CHECK_SECONDS, DEFAULT_FLOW_PLAYLIST_MIN_PLAYS, RECOMMENDATION_LIMIT } from "../Constants";
+import { getItem, logIt, setItem } from "../Util";
+import { SmartPlaylist } from "./SmartPlaylistManager";
+
+const SETTINGS_SECTION = "musictime";
+
+export type StatusBarButtonId = "previous" | "playPause" | "next" | "like" | "currentSong";
+
+export const STATUS_BAR_BUTTON_IDS: StatusBarButtonId[] = ["previous", "playPause", "next", "like", "currentSong"];
+
+export type StatusBarCompactMode = "off" | "on" | "zenMode";
+
+/**
+ * The musictime.* settings contributed in package.json
+ */
+export interface MusicTimeSettings {
+  musicProvider: string;
+  localMusicFolder: string;
+  trackPollSeconds: number;
+  recommendationLimit: number;
+  defaultPlayer: "web" | "desktop";
+  // the spotify device to play on when none is active
+  preferredDevice: string;
+  // the buttons are shown in this order
+  statusBarButtons: StatusBarButtonId[];
+  statusBarAlignment: "left" | "right";
+  // when to show the icons without the song and MusicTime label
+  statusBarCompactMode: StatusBarCompactMode;
+  // i.e. ${artist} — ${track} (${elapsed}/${duration})
+  nowPlayingFormat: string;
+  // 0 shows the whole song text
+  nowPlayingMaxLength: number;
+  // scroll the song text that's longer than the max length instead of shortening it
+  nowPlayingMarquee: boolean;
+  flowPlaylistMinPlays: number;
+  // the flow playlist that's refreshed in place, set when it's created
+  flowPlaylistId: string;
+  // saved by the smart playlist commands
+  smartPlaylists: SmartPlaylist[];
+  // the ctrl+alt+m chords, only read by the keybinding when clauses
+  enableKeymap: boolean;
+}
+
+// session file keys that were moved to the settings
+const MIGRATED_SESSION_KEYS = {
+  musicProviderId: "musicProvider",
+  localMusicFolder: "localMusicFolder",
+  flowPlaylistMinPlays: "flowPlaylistMinPlays",
+  flowPlaylistId: "flowPlaylistId",
+  smartPlaylists: "smartPlaylists",
+};
+
+const SETTING_KEYS: (keyof MusicTimeSettings)[] = [
+  "musicProvider",
+  "localMusicFolder",
+  "trackPollSeconds",
+  "recommendationLimit",
+  "defaultPlayer",
+  "preferredDevice",
+  "statusBarButtons",
+  "statusBarAlignment",
+  "statusBarCompactMode",
+  "nowPlayingFormat",
+  "nowPlayingMaxLength",
+  "nowPlayingMarquee",
+  "flowPlaylistMinPlays",
+  "flowPlaylistId",
+  "smartPlaylists",
+  "enableKeymap",
+];
+
+const _onDidChangeSettings = new EventEmitter<(keyof MusicTimeSettings)[]>();
+
+/**
+ * Fires with the keys of the settings that changed
+ */
+export const onDidChangeSettings: Event<(keyof MusicTimeSettings)[]> = _onDidChangeSettings.event;
+
+export function getSettings(): MusicTimeSettings {
+  const config = workspace.getConfiguration(SETTINGS_SECTION);
+  return {
+    musicProvider: config.get("musicProvider", "spotify"),
+    localMusicFolder: config.get("localMusicFolder", ""),
+    trackPollSeconds: Math.max(config.get("trackPollSeconds", DEFAULT_CURRENTLY_PLAYING_TRACK_CHECK_SECONDS), 5),
+    recommendationLimit: Math.min(Math.max(config.get("recommendationLimit", RECOMMENDATION_LIMIT), 1), 100),
+    defaultPlayer: config.get("defaultPlayer", "web"),
+    preferredDevice: config.get("preferredDevice", ""),
+    statusBarButtons: config.get("statusBarButtons", STATUS_BAR_BUTTON_IDS),
+    statusBarAlignment: config.get("statusBarAlignment", "left"),
+    statusBarCompactMode: config.get("statusBarCompactMode", "off"),
+    nowPlayingFormat: config.get("nowPlayingFormat", "${track}"),
+    nowPlayingMaxLength: Math.max(config.get("nowPlayingMaxLength", 14), 0),
+    nowPlayingMarquee: config.get("nowPlayingMarquee", false),
+    flowPlaylistMinPlays: config.get("flowPlaylistMinPlays", DEFAULT_FLOW_PLAYLIST_MIN_PLAYS),
+    flowPlaylistId: config.get("flowPlaylistId", ""),
+    smartPlaylists: config.get("smartPlaylists", []),
+    enableKeymap: config.get("enableKeymap", true),
+  };
+}
+
+/**
+ * Save a setting for the user, across workspaces
+ * @param key
+ * @param value
+ */
+export async function updateSetting<K extends keyof MusicTimeSettings>(key: K, value: MusicTimeSettings[K]) {
+  await workspace.getConfiguration(SETTINGS_SECTION).update(key, value, ConfigurationTarget.Global);
+}
+
+/**
+ * Move the values saved in the session file by earlier versions into
+ * the settings, then listen for setting changes
+ */
+export async function initializeSettings(): Promise<Disposable> {
+  await migrateSessionSettings();
+  return workspace.onDidChangeConfiguration((event: ConfigurationChangeEvent) => {
+    if (!event.affectsConfiguration(SETTINGS_SECTION)) {
+      return;
+    }
+    const changed = SETTING_KEYS.filter((key) => event.affectsConfiguration(`${SETTINGS_SECTION}.${key}`));
+    if (changed.length) {
+      _onDidChangeSettings.fire(changed);
+    }
+  });
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+async function migrateSessionSettings() {
+  const config = workspace.getConfiguration(SETTINGS_SECTION);
+  for (const sessionKey of Object.keys(MIGRATED_SESSION_KEYS)) {
+    const value = getItem(sessionKey);
+    if (value === undefined || value === null) {
+      continue;
+    }
+    const settingKey: string = MIGRATED_SESSION_KEYS[sessionKey];
+    try {
+      // a value the user already set in the settings wins
+      if (config.inspect(settingKey)?.globalValue === undefined) {
+        await config.update(settingKey, value, ConfigurationTarget.Global);
+      }
+      setItem(sessionKey, null);
+    } catch (e) {
+      logIt(`Unable to move ${sessionKey} to the ${SETTINGS_SECTION}.${settingKey} setting: ${e.message}`);
+    }
+  }
+}
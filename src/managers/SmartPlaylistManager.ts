@@ -0,0 +1,415 @@
+import { addTracksToPlaylist, createPlaylist, getSpotifyAudioFeatures, PlaylistItem, replacePlaylistTracks, SpotifyAudioFeature } from "cody-music";
+import { MusicClient } from "cody-music/dist/lib/client";
+import { commands, window } from "vscode";
+import { v4 as uuidv4 } from "uuid";
+import { YES_LABEL } from "../Constants";
+import { MusicCommandUtil } from "../music/MusicCommandUtil";
+import { RequestPriority, scheduleSpotifyRequest } from "../music/SpotifyRequestScheduler";
+import { chunkArray, getCodyErrorMessage, getItem, logIt, nowInSecs, setItem } from "../Util";
+import {
+  AUDIO_FEATURES_CACHE_KEY,
+  getMusicCacheEntry,
+  LIKED_SONGS_ADDED_CACHE_KEY,
+  LIKED_SONGS_CACHE_KEY,
+  MusicCacheEntry,
+  updateMusicCacheEntry,
+} from "./MusicCacheManager";
+import { getMusicProvider } from "./MusicProviderManager";
+import { getMusicSessionRecords, MusicSessionRecord } from "./MusicSessionManager";
+import { isLeaderWindow } from "./PlayerStateSyncManager";
+import { getCachedLikedSongsTracks, getCachedPlaylistTracks, getSpotifyPlaylists } from "./PlaylistDataManager";
+import { getSettings, updateSetting } from "./SettingsManager";
+import {
+  matchesSmartPlaylistRules,
+  parseSmartPlaylistRules,
+  SmartPlaylistCandidate,
+  SmartPlaylistRule,
+  usesAddedDate,
+  usesAudioFeatures,
+} from "./SmartPlaylistRules";
+
+// spotify replaces and adds at most 100 tracks per request
+const PLAYLIST_TRACKS_REQUEST_LIMIT = 100;
+const LIKED_SONGS_PAGE_LIMIT = 50;
+const DEFAULT_SMART_PLAYLIST_LIMIT = 100;
+// how often the leader window looks for smart playlists that are due
+const SYNC_CHECK_SECONDS = 60 * 30;
+const SYNC_SCHEDULES = [
+  { label: "On demand", hours: 0 },
+  { label: "Daily", hours: 24 },
+  { label: "Weekly", hours: 24 * 7 },
+];
+// the sync state by smart playlist id, kept out of the setting so a sync doesn't write the user's settings
+const SYNC_STATE_KEY = "smartPlaylistSyncState";
+
+export interface SmartPlaylist {
+  id: string;
+  name: string;
+  // the rules as they were entered, i.e. energy > 0.7 AND tempo 120-140
+  rules: string;
+  limit: number;
+  // 0 syncs on demand only
+  sync_hours: number;
+}
+
+interface SmartPlaylistSyncState {
+  // the spotify playlist the matching tracks are synced to
+  spotify_playlist_id: string;
+  last_synced: number;
+}
+
+let syncInterval: any = undefined;
+let syncing: boolean = false;
+
+export function initializeSmartPlaylistSync() {
+  if (syncInterval) {
+    return;
+  }
+  syncInterval = setInterval(() => {
+    // one window syncs so the playlists aren't replaced twice
+    if (isLeaderWindow()) {
+      syncDueSmartPlaylists();
+    }
+  }, SYNC_CHECK_SECONDS * 1000);
+}
+
+export function disposeSmartPlaylistSync() {
+  if (syncInterval) {
+    clearInterval(syncInterval);
+    syncInterval = undefined;
+  }
+}
+
+export function getSmartPlaylists(): SmartPlaylist[] {
+  return getSettings().smartPlaylists;
+}
+
+/**
+ * List the smart playlists with an option to create one, then the
+ * actions for the picked playlist
+ */
+export async function showSmartPlaylistMenu() {
+  const smartPlaylists: SmartPlaylist[] = getSmartPlaylists();
+  const items = [
+    { label: "New smart playlist", description: "", id: "" },
+    ...smartPlaylists.map((n: SmartPlaylist) => ({ label: n.name, description: n.rules, id: n.id })),
+  ];
+  const pick = await window.showQuickPick(items, { placeHolder: "Select or create a smart playlist" });
+  if (!pick) {
+    return;
+  }
+  if (!pick.id) {
+    await createSmartPlaylist();
+    return;
+  }
+
+  const smartPlaylist: SmartPlaylist = smartPlaylists.find((n) => n.id === pick.id);
+  const action = await window.showQuickPick(["Sync now", "Edit rules", "Change schedule", "Delete"], { placeHolder: smartPlaylist.name });
+  if (action === "Sync now") {
+    await syncSmartPlaylist(smartPlaylist.id);
+  } else if (action === "Edit rules") {
+    const rules: string = await showRulesInput(smartPlaylist.rules);
+    if (rules) {
+      await updateSmartPlaylist(smartPlaylist.id, { rules });
+      await syncSmartPlaylist(smartPlaylist.id);
+    }
+  } else if (action === "Change schedule") {
+    const sync_hours: number = await showSchedulePick();
+    if (sync_hours !== undefined) {
+      await updateSmartPlaylist(smartPlaylist.id, { sync_hours });
+    }
+  } else if (action === "Delete") {
+    await deleteSmartPlaylist(smartPlaylist);
+  }
+}
+
+export async function createSmartPlaylist() {
+  const name: string = await window.showInputBox({
+    placeHolder: "Smart playlist name",
+    prompt: "Name the smart playlist",
+    validateInput: (text) => (!text?.trim() ? "Please enter a playlist name to continue." : null),
+  });
+  if (!name?.trim()) {
+    return;
+  }
+  const rules: string = await showRulesInput("");
+  if (!rules) {
+    return;
+  }
+  const sync_hours: number = await showSchedulePick();
+  if (sync_hours === undefined) {
+    return;
+  }
+
+  const smartPlaylist: SmartPlaylist = { id: uuidv4(), name: name.trim(), rules, limit: DEFAULT_SMART_PLAYLIST_LIMIT, sync_hours };
+  await updateSetting("smartPlaylists", [...getSmartPlaylists(), smartPlaylist]);
+  await syncSmartPlaylist(smartPlaylist.id);
+}
+
+/**
+ * Evaluate the rules and replace the tracks of the smart playlist's
+ * spotify playlist, which is created on the first sync
+ * @param smart_playlist_id
+ * @param notify show a message once it's synced, scheduled syncs are quiet
+ */
+export async function syncSmartPlaylist(smart_playlist_id: string, notify: boolean = true) {
+  const smartPlaylist: SmartPlaylist = getSmartPlaylists().find((n) => n.id === smart_playlist_id);
+  if (!smartPlaylist) {
+    return;
+  }
+  const provider = getMusicProvider();
+  if (provider.id !== "spotify" || (await provider.requiresAccess())) {
+    if (notify) {
+      window.showInformationMessage("Spotify connection required to sync smart playlists");
+    }
+    return;
+  }
+
+  let tracks: PlaylistItem[];
+  try {
+    tracks = await getSmartPlaylistTracks(smartPlaylist);
+  } catch (e) {
+    window.showErrorMessage(`Unable to sync '${smartPlaylist.name}'. ${e.message}`);
+    return;
+  }
+
+  const playlists: PlaylistItem[] = await getSpotifyPlaylists();
+  const syncState: SmartPlaylistSyncState = getSyncState(smartPlaylist);
+  let playlistId: string = playlists.find((n) => n.id === syncState.spotify_playlist_id)?.id;
+  if (!playlistId) {
+    // never synced or removed from the user's playlists since the last sync
+    playlistId = await createSpotifyPlaylist(smartPlaylist);
+    if (!playlistId) {
+      return;
+    }
+  }
+
+  const batches: string[][] = chunkArray(tracks.map((n) => n.uri), PLAYLIST_TRACKS_REQUEST_LIMIT);
+  let resp = await scheduleSpotifyRequest(replacePlaylistTracks, [playlistId, batches[0] ?? []]);
+  for (let i = 1; i < batches.length && !getCodyErrorMessage(resp); i++) {
+    // added tracks go to the start unless they're given a position
+    resp = await scheduleSpotifyRequest(addTracksToPlaylist, [playlistId, batches[i], i * PLAYLIST_TRACKS_REQUEST_LIMIT]);
+  }
+  const errMsg: string = getCodyErrorMessage(resp);
+  if (errMsg) {
+    window.showErrorMessage(`There was an unexpected error updating ${smartPlaylist.name}. ${errMsg}`);
+    return;
+  }
+
+  storeSyncState(smartPlaylist.id, { spotify_playlist_id: playlistId, last_synced: nowInSecs() });
+  if (notify) {
+    window.showInformationMessage(`Updated ${smartPlaylist.name} with ${tracks.length} matching songs.`);
+  }
+  await getSpotifyPlaylists(true);
+  commands.executeCommand("musictime.refreshMusicTimeView");
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+async function syncDueSmartPlaylists() {
+  if (syncing) {
+    return;
+  }
+  syncing = true;
+  const now = nowInSecs();
+  try {
+    for (const smartPlaylist of getSmartPlaylists()) {
+      if (smartPlaylist.sync_hours && now - getSyncState(smartPlaylist).last_synced >= smartPlaylist.sync_hours * 60 * 60) {
+        await syncSmartPlaylist(smartPlaylist.id, false);
+      }
+    }
+  } catch (e) {
+    logIt(`Smart playlist sync failed: ${e.message}`);
+  } finally {
+    syncing = false;
+  }
+}
+
+async function updateSmartPlaylist(smart_playlist_id: string, changes: Partial<SmartPlaylist>) {
+  await updateSetting(
+    "smartPlaylists",
+    getSmartPlaylists().map((n) => (n.id === smart_playlist_id ? { ...n, ...changes } : n))
+  );
+}
+
+function getSyncState(smartPlaylist: SmartPlaylist): SmartPlaylistSyncState {
+  const state: SmartPlaylistSyncState = getItem(SYNC_STATE_KEY)?.[smartPlaylist.id];
+  if (state) {
+    return state;
+  }
+  // smart playlists saved before the sync state moved out of the setting
+  return { spotify_playlist_id: smartPlaylist["spotify_playlist_id"], last_synced: smartPlaylist["last_synced"] ?? 0 };
+}
+
+function storeSyncState(smart_playlist_id: string, state: SmartPlaylistSyncState) {
+  const syncStates = { ...(getItem(SYNC_STATE_KEY) ?? {}) };
+  if (state) {
+    syncStates[smart_playlist_id] = state;
+  } else {
+    delete syncStates[smart_playlist_id];
+  }
+  setItem(SYNC_STATE_KEY, syncStates);
+}
+
+/**
+ * The synced spotify playlist is left in place unless it's removed too
+ */
+async function deleteSmartPlaylist(smartPlaylist: SmartPlaylist) {
+  const selection = await window.showWarningMessage(
+    `Are you sure you would like to delete the smart playlist '${smartPlaylist.name}'?`,
+    { modal: true },
+    YES_LABEL
+  );
+  if (selection !== YES_LABEL) {
+    return;
+  }
+  await updateSetting(
+    "smartPlaylists",
+    getSmartPlaylists().filter((n) => n.id !== smartPlaylist.id)
+  );
+  storeSyncState(smartPlaylist.id, undefined);
+  window.showInformationMessage(`Deleted the smart playlist '${smartPlaylist.name}'. Its Spotify playlist is no longer updated.`);
+}
+
+async function showRulesInput(value: string): Promise<string> {
+  const rules: string = await window.showInputBox({
+    value,
+    placeHolder: "energy > 0.7 AND tempo 120-140 AND added in last 90 days AND not played this week",
+    prompt: "Rules joined with AND. Audio features, popularity, name, artist, album, added and played.",
+    validateInput: (text) => {
+      try {
+        parseSmartPlaylistRules(text);
+        return null;
+      } catch (e) {
+        return e.message;
+      }
+    },
+  });
+  return rules?.trim();
+}
+
+async function showSchedulePick(): Promise<number> {
+  const pick = await window.showQuickPick(
+    SYNC_SCHEDULES.map((n) => n.label),
+    { placeHolder: "How often should the playlist be synced with Spotify?" }
+  );
+  return SYNC_SCHEDULES.find((n) => n.label === pick)?.hours;
+}
+
+async function createSpotifyPlaylist(smartPlaylist: SmartPlaylist): Promise<string> {
+  // spotify descriptions are limited to 300 characters
+  const description = `Smart playlist generated by Music Time: ${smartPlaylist.rules}`.substring(0, 300);
+  const resp = await scheduleSpotifyRequest(createPlaylist, [smartPlaylist.name, false, description]);
+  const errMsg: string = getCodyErrorMessage(resp);
+  if (errMsg || !resp?.data?.id) {
+    window.showErrorMessage(`There was an unexpected error creating ${smartPlaylist.name}. ${errMsg}`);
+    return undefined;
+  }
+  return resp.data.id;
+}
+
+/**
+ * The liked songs and loaded playlist tracks that match the rules, in
+ * the order they were liked. The smart playlist's own tracks are left
+ * out so it doesn't match its previous sync.
+ */
+async function getSmartPlaylistTracks(smartPlaylist: SmartPlaylist): Promise<PlaylistItem[]> {
+  const rules: SmartPlaylistRule[] = parseSmartPlaylistRules(smartPlaylist.rules);
+  const playlistTracks = getCachedPlaylistTracks();
+  const tracks: PlaylistItem[] = [];
+  const trackIds = new Set<string>();
+  const syncedPlaylistId: string = getSyncState(smartPlaylist).spotify_playlist_id;
+  const sources: PlaylistItem[][] = [
+    (await getCachedLikedSongsTracks()) ?? [],
+    ...Object.keys(playlistTracks)
+      .filter((id) => id !== syncedPlaylistId)
+      .map((id) => playlistTracks[id] ?? []),
+  ];
+  for (const track of sources.flat()) {
+    if (track?.id && track.uri && !trackIds.has(track.id)) {
+      trackIds.add(track.id);
+      tracks.push(track);
+    }
+  }
+
+  const features = usesAudioFeatures(rules) ? await getAudioFeaturesById(tracks.map((n) => n.id)) : {};
+  const addedDates = usesAddedDate(rules) ? await getLikedSongAddedDates() : {};
+  const lastPlayed = getLastPlayedDates();
+  const now = nowInSecs();
+  return tracks
+    .filter((track: PlaylistItem) => {
+      const candidate: SmartPlaylistCandidate = {
+        track,
+        features: features[track.id],
+        added_at: addedDates[track.id] ?? 0,
+        last_played: lastPlayed[track.id] ?? 0,
+      };
+      return matchesSmartPlaylistRules(candidate, rules, now);
+    })
+    .slice(0, smartPlaylist.limit || DEFAULT_SMART_PLAYLIST_LIMIT);
+}
+
+/**
+ * Audio features don't change, the ones already fetched are kept in the cache
+ */
+async function getAudioFeaturesById(track_ids: string[]): Promise<any> {
+  const features = getMusicCacheEntry(AUDIO_FEATURES_CACHE_KEY)?.data ?? {};
+  const missing: string[] = track_ids.filter((id) => !features[id]);
+  for (const ids of chunkArray(missing, PLAYLIST_TRACKS_REQUEST_LIMIT)) {
+    const results: SpotifyAudioFeature[] =
+      (await scheduleSpotifyRequest(getSpotifyAudioFeatures, [ids], { priority: RequestPriority.Background })) ?? [];
+    results.filter((n) => !!n?.id).forEach((n) => (features[n.id] = n));
+  }
+  if (missing.length) {
+    updateMusicCacheEntry(AUDIO_FEATURES_CACHE_KEY, features);
+  }
+  return features;
+}
+
+/**
+ * When each liked song was saved, in seconds. The cached liked songs
+ * don't include it so it's fetched once per version of the liked songs.
+ */
+async function getLikedSongAddedDates(): Promise<any> {
+  const likedVersionTag: string = getMusicCacheEntry(LIKED_SONGS_CACHE_KEY)?.version_tag ?? "";
+  const entry: MusicCacheEntry = getMusicCacheEntry(LIKED_SONGS_ADDED_CACHE_KEY);
+  if (entry?.data && likedVersionTag && entry.version_tag === likedVersionTag) {
+    return entry.data;
+  }
+
+  const addedDates = {};
+  const client = MusicClient.getInstance();
+  let offset = 0;
+  while (true) {
+    const resp = await MusicCommandUtil.getInstance().runSpotifyCommand(
+      client.spotifyApiGet.bind(client),
+      ["/v1/me/tracks", { limit: LIKED_SONGS_PAGE_LIMIT, offset }],
+      { priority: RequestPriority.Background }
+    );
+    if (!resp?.data?.items) {
+      throw new Error("Unable to fetch when your liked songs were added.");
+    }
+    resp.data.items
+      .filter((n: any) => n.track?.id)
+      .forEach((n: any) => (addedDates[n.track.id] = Math.floor(new Date(n.added_at).getTime() / 1000)));
+    if (!resp.data.next) {
+      break;
+    }
+    offset += LIKED_SONGS_PAGE_LIMIT;
+  }
+  updateMusicCacheEntry(LIKED_SONGS_ADDED_CACHE_KEY, addedDates, likedVersionTag);
+  return addedDates;
+}
+
+/**
+ * When each track last finished playing, from the music session log
+ */
+function getLastPlayedDates(): any {
+  const lastPlayed = {};
+  getMusicSessionRecords().forEach((record: MusicSessionRecord) => {
+    lastPlayed[record.track_id] = Math.max(lastPlayed[record.track_id] ?? 0, record.end ?? record.start);
+  });
+  return lastPlayed;
+}
@@ -0,0 +1,146 @@
+import { PlaylistItem, SpotifyAudioFeature } from "cody-music";
+
+// the audio features a rule can filter on, see AudioFeatures
+export const AUDIO_FEATURE_FIELDS = [
+  "acousticness",
+  "danceability",
+  "energy",
+  "instrumentalness",
+  "liveness",
+  "loudness",
+  "speechiness",
+  "tempo",
+  "valence",
+];
+const NUMBER_FIELDS = [...AUDIO_FEATURE_FIELDS, "popularity"];
+const TEXT_FIELDS = ["name", "artist", "album"];
+const DAY_SECONDS = 60 * 60 * 24;
+const PERIOD_SECONDS = { day: DAY_SECONDS, week: DAY_SECONDS * 7, month: DAY_SECONDS * 30, year: DAY_SECONDS * 365 };
+
+export type SmartPlaylistRuleOperator = ">" | ">=" | "<" | "<=" | "=" | "between" | "contains" | "within" | "notWithin";
+
+export interface SmartPlaylistRule {
+  // an audio feature, popularity, name, artist, album, added or played
+  field: string;
+  op: SmartPlaylistRuleOperator;
+  // seconds for the within operators
+  value: number | string;
+  // the upper bound of a between rule
+  to?: number;
+}
+
+/**
+ * A track with the data the rules are evaluated against. The
+ * timestamps are in seconds, 0 when they aren't known.
+ */
+export interface SmartPlaylistCandidate {
+  track: PlaylistItem;
+  features: SpotifyAudioFeature;
+  added_at: number;
+  last_played: number;
+}
+
+/**
+ * Parses rules joined with AND, i.e.
+ * `energy > 0.7 AND tempo 120-140 AND added in last 90 days AND not played this week`.
+ * Throws an error describing the first clause that isn't understood.
+ * @param text
+ */
+export function parseSmartPlaylistRules(text: string): SmartPlaylistRule[] {
+  const clauses: string[] = (text ?? "")
+    .split(/\s+and\s+/i)
+    .map((n) => n.trim())
+    .filter((n) => !!n);
+  if (!clauses.length) {
+    throw new Error("Please enter at least one rule, i.e. energy > 0.7");
+  }
+  return clauses.map(parseClause);
+}
+
+export function matchesSmartPlaylistRules(candidate: SmartPlaylistCandidate, rules: SmartPlaylistRule[], now: number): boolean {
+  return rules.every((rule) => matchesRule(candidate, rule, now));
+}
+
+export function usesAudioFeatures(rules: SmartPlaylistRule[]): boolean {
+  return rules.some((n) => AUDIO_FEATURE_FIELDS.includes(n.field));
+}
+
+export function usesAddedDate(rules: SmartPlaylistRule[]): boolean {
+  return rules.some((n) => n.field === "added");
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+function parseClause(clause: string): SmartPlaylistRule {
+  const lower: string = clause.toLowerCase().replace(/\s+/g, " ");
+
+  // added in last 90 days, played this week, not played in last 2 weeks
+  const period = lower.match(/^(not )?(added|played) (?:in (?:the )?last (\d+) |this |today$)(day|week|month|year)?s?$/);
+  if (period) {
+    const [, not, field, count, unit] = period;
+    const seconds: number = lower.endsWith("today") ? DAY_SECONDS : parseInt(count ?? "1", 10) * PERIOD_SECONDS[unit];
+    if (seconds) {
+      return { field, op: not ? "notWithin" : "within", value: seconds };
+    }
+  }
+
+  // tempo 120-140
+  const range = lower.match(/^(\w+) (-?[\d.]+) ?- ?(-?[\d.]+)$/);
+  if (range && NUMBER_FIELDS.includes(range[1])) {
+    const [, field, from, to] = range;
+    return { field, op: "between", value: Math.min(Number(from), Number(to)), to: Math.max(Number(from), Number(to)) };
+  }
+
+  // energy > 0.7
+  const comparison = lower.match(/^(\w+) ?(>=|<=|>|<|=) ?(-?[\d.]+)$/);
+  if (comparison && NUMBER_FIELDS.includes(comparison[1]) && !isNaN(Number(comparison[3]))) {
+    const [, field, op, value] = comparison;
+    return { field, op: op as SmartPlaylistRuleOperator, value: Number(value) };
+  }
+
+  // artist contains daft punk, album is discovery
+  const text = clause.match(/^(\w+) (?:contains|is|=) ?"?([^"]+)"?$/i);
+  if (text && TEXT_FIELDS.includes(text[1].toLowerCase())) {
+    return { field: text[1].toLowerCase(), op: "contains", value: text[2].trim().toLowerCase() };
+  }
+
+  throw new Error(`Unable to understand the rule '${clause}'`);
+}
+
+function matchesRule(candidate: SmartPlaylistCandidate, rule: SmartPlaylistRule, now: number): boolean {
+  switch (rule.field) {
+    case "added":
+    case "played": {
+      const timestamp: number = rule.field === "added" ? candidate.added_at : candidate.last_played;
+      const within: boolean = !!timestamp && now - timestamp <= rule.value;
+      return rule.op === "within" ? within : !within;
+    }
+    case "name":
+    case "artist":
+      return `${candidate.track[rule.field] ?? ""}`.toLowerCase().includes(`${rule.value}`);
+    case "album":
+      return `${candidate.track["albumName"] ?? ""}`.toLowerCase().includes(`${rule.value}`);
+  }
+
+  const value: number = rule.field === "popularity" ? candidate.track.popularity : candidate.features?.[rule.field];
+  if (value === undefined || value === null) {
+    return false;
+  }
+  switch (rule.op) {
+    case ">":
+      return value > rule.value;
+    case ">=":
+      return value >= rule.value;
+    case "<":
+      return value < rule.value;
+    case "<=":
+      return value <= rule.value;
+    case "=":
+      return value === rule.value;
+    case "between":
+      return value >= rule.value && value <= rule.to;
+  }
+  return false;
+}
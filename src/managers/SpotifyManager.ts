@@ -5,8 +5,9 @@ import { appGet, isResponseOk } from "../HttpClient";
 import SoftwareIntegration from "../model/SoftwareIntegration";
 import { isMac, launchWebUrl, logIt } from "../Util";
 import { SpotifyUser } from "cody-music/dist/lib/profile";
+import { scheduleSpotifyRequest } from "../music/SpotifyRequestScheduler";
 import { getCachedSpotifyIntegrations } from "./UserStatusManager";
-import { initializeSpotify } from './PlaylistDataManager';
+import { clearSpotifyPlaylistData, initializeSpotify } from './PlaylistDataManager';
 
 let spotifyUser: SpotifyUser = null;
 let spotifyAccessToken: string = "";
@@ -16,6 +17,10 @@ export function hasSpotifyAccessToken() {
   return !!spotifyAccessToken;
 }
 
+export function getSpotifyAccessToken() {
+  return spotifyAccessToken;
+}
+
 export function clearSpotifyAccessToken() {
   if (spotifyAccessTokenTimer) {
     clearTimeout(spotifyAccessTokenTimer);
@@ -25,7 +30,7 @@ export function clearSpotifyAccessToken() {
 
 export async function getConnectedSpotifyUser() {
   if (!spotifyUser || !spotifyUser.id) {
-    spotifyUser = await getUserProfile();
+    spotifyUser = await scheduleSpotifyRequest(getUserProfile, [], { coalesce: true });
   }
   return spotifyUser;
 }
@@ -34,6 +39,10 @@ export function hasSpotifyUser() {
   return !!(spotifyUser && spotifyUser.product);
 }
 
+export function getSpotifyUserId(): string {
+  return spotifyUser?.id;
+}
+
 export async function isPremiumUser() {
   if (spotifyUser?.id && spotifyUser.product !== "premium") {
     // check 1 more time
@@ -73,13 +82,15 @@ export async function populateSpotifyUser(hardRefresh = false) {
 
   if (spotifyIntegration && (hardRefresh || !spotifyUser || !spotifyUser.id)) {
     // get the user
-    spotifyUser = await getUserProfile();
+    spotifyUser = await scheduleSpotifyRequest(getUserProfile, [], { coalesce: true });
   }
 }
 
 export async function switchSpotifyAccount() {
   const selection = await window.showInformationMessage(`Are you sure you would like to connect to a different Spotify account?`, ...[YES_LABEL]);
   if (selection === YES_LABEL) {
+    // the cached playlists belong to the current account
+    clearSpotifyPlaylistData();
     launchWebUrl(`${app_endpoint}/data_sources/integration_types/spotify`);
   }
 }
@@ -0,0 +1,74 @@
+import { PlayerDevice } from "cody-music";
+import { window } from "vscode";
+import { getItem, setItem } from "../Util";
+import { getMusicProvider } from "./MusicProviderManager";
+
+export const VOLUME_STEP = 10;
+// used when the device doesn't report its volume
+const DEFAULT_VOLUME = 50;
+
+/**
+ * Set the volume of the active device and remember it for that device
+ * @param percent
+ */
+export async function setPlayerVolume(percent: number) {
+  const volume = Math.min(Math.max(Math.round(percent), 0), 100);
+  const device: PlayerDevice = getMusicProvider().getActiveDevice();
+  await getMusicProvider().setVolume(volume);
+  if (device?.id) {
+    rememberDeviceVolume(device.id, volume);
+  }
+  window.setStatusBarMessage(`Volume ${volume}%`, 2000);
+}
+
+export async function changePlayerVolume(delta: number) {
+  await setPlayerVolume(getPlayerVolume() + delta);
+}
+
+export function getPlayerVolume(): number {
+  const device: PlayerDevice = getMusicProvider().getActiveDevice();
+  return device?.volume_percent ?? getDeviceVolumes()[device?.id] ?? DEFAULT_VOLUME;
+}
+
+export async function showVolumeInput() {
+  const volume = await window.showInputBox({
+    value: `${getPlayerVolume()}`,
+    placeHolder: "0 - 100",
+    prompt: "Set the volume",
+    validateInput: (text) => {
+      const value = Number(text);
+      return !text || isNaN(value) || value < 0 || value > 100 ? "Please enter a volume between 0 and 100." : null;
+    },
+  });
+  if (volume) {
+    await setPlayerVolume(Number(volume));
+  }
+}
+
+/**
+ * Remember the volume of the device that's being left and apply the
+ * volume last used on the device that playback moved to
+ * @param fromDevice
+ * @param toDeviceId
+ */
+export async function restoreDeviceVolume(fromDevice: PlayerDevice, toDeviceId: string) {
+  if (fromDevice?.id && fromDevice.volume_percent !== undefined && fromDevice.volume_percent !== null) {
+    rememberDeviceVolume(fromDevice.id, fromDevice.volume_percent);
+  }
+  const volume: number = getDeviceVolumes()[toDeviceId];
+  if (volume !== undefined) {
+    await getMusicProvider().setVolume(volume, toDeviceId);
+  }
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+function getDeviceVolumes(): any {
+  return getItem("deviceVolumes") ?? {};
+}
+
+function rememberDeviceVolume(deviceId: string, volume: number) {
+  setItem("deviceVolumes", { ...getDeviceVolumes(), [deviceId]: volume });
+}
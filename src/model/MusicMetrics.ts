@@ -1,3 +1,5 @@
+import { SpotifyAudioFeature } from "cody-music";
+
 export default class MusicMetrics {
   public acousticness: number;
   public album_uri: string;
@@ -13,6 +15,7 @@ export default class MusicMetrics {
   public plays: number;
   public primary_artist_name: string;
   public productivity_score: number;
+  public provider: string;
   public song_id: string;
   public song_name: string;
   public song_rank: number;
@@ -34,6 +37,18 @@ export default class MusicMetrics {
     this.valence = this.incrementVals(this.valence, metrics.valence);
   }
 
+  public setAudioFeatures(features: SpotifyAudioFeature): void {
+    this.acousticness = features.acousticness;
+    this.danceability = features.danceability;
+    this.energy = features.energy;
+    this.instrumentalness = features.instrumentalness;
+    this.liveness = features.liveness;
+    this.loudness = features.loudness;
+    this.speechiness = features.speechiness;
+    this.tempo = features.tempo;
+    this.valence = features.valence;
+  }
+
   private incrementVals(thisVal, thatVal) {
     thisVal = thisVal ?? 0;
     thatVal = thatVal ?? 0;
@@ -44,6 +44,18 @@ export default class MusicScatterData {
     this.addMetricByFeature(metrics, "tempo");
   }
 
+  /**
+   * The average of a feature over the added metrics, i.e. "tempo"
+   * @param feature
+   */
+  public getAverage(feature: string): number {
+    const points: MusicScatterMetric[] = (this[feature] ?? []).filter((n: MusicScatterMetric) => typeof n.value === "number");
+    if (!points.length) {
+      return 0;
+    }
+    return points.reduce((sum: number, n: MusicScatterMetric) => sum + n.value, 0) / points.length;
+  }
+
   private addMetricByFeature(metrics: MusicMetrics, feature: string) {
     const scatterPoint: MusicScatterMetric = new MusicScatterMetric();
     scatterPoint.name = this.getTooltipDescription(metrics);
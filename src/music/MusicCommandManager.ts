@@ -1,8 +1,35 @@
-import { window, StatusBarAlignment, StatusBarItem } from "vscode";
-import { getSongDisplayName, getItem, setItem } from "../Util";
-import { TrackStatus, Track, getRunningTrack } from "cody-music";
-import { getBestActiveDevice, isLikedSong, requiresSpotifyAccess, requiresSpotifyReAuthentication } from "../managers/PlaylistDataManager";
+import { commands, window, Disposable, StatusBarAlignment, StatusBarItem } from "vscode";
+import { formatTrackTime, getSongDisplayName, getItem } from "../Util";
+import { TrackStatus, Track } from "cody-music";
+import { getMusicProvider } from "../managers/MusicProviderManager";
+import { MusicProvider } from "../providers/MusicProvider";
+import { NowPlayingTracker } from "./NowPlayingTracker";
 import { SPOTIFY_LIKED_SONGS_PLAYLIST_ID } from '../Constants';
+import { getSettings, MusicTimeSettings, StatusBarButtonId } from "../managers/SettingsManager";
+
+const MUSIC_TIME_LABEL = "🎧 MusicTime";
+const MUSIC_TIME_ICON = "🎧";
+const MARQUEE_INTERVAL_MS = 500;
+const MARQUEE_GAP = "   ";
+
+// the status bar items of each status bar buttons setting id
+const STATUS_BAR_BUTTONS: { [id: string]: { text: string; tooltip: string; command: string }[] } = {
+  // play previous or unicode ⏪
+  previous: [{ text: "$(chevron-left)", tooltip: "Previous", command: "musictime.previous" }],
+  // pause unicode ⏸
+  playPause: [
+    { text: "$(play)", tooltip: "Play", command: "musictime.play" },
+    { text: "$(primitive-square)", tooltip: "Stop", command: "musictime.pause" },
+  ],
+  // play next ⏩
+  next: [{ text: "$(chevron-right)", tooltip: "Next", command: "musictime.next" }],
+  like: [
+    { text: "♡", tooltip: "Like", command: "musictime.like" },
+    { text: "♥", tooltip: "Unlike", command: "musictime.unlike" },
+  ],
+  // button area for the current song name
+  currentSong: [{ text: "", tooltip: "Click to view track", command: "musictime.currentSong" }],
+};
 
 export interface Button {
   /**
@@ -31,6 +58,10 @@ export class MusicCommandManager {
   private static _songButton: Button = null;
   private static _musicTimeLabelButton: Button = null;
   private static _hideCurrentSongTimeout: any = null;
+  private static _progressInterval: any = null;
+  private static _marqueeOffset: number = 0;
+  private static _zenMode: boolean = false;
+  private static _trackListener: Disposable = null;
 
   private constructor() {
     // private to prevent non-singleton usage
@@ -49,58 +80,109 @@ export class MusicCommandManager {
       return;
     }
     this._initialized = true;
-    const musictimeMenuTooltip = await this.getMusicMenuTooltip();
+    await this.createButtons();
 
-    let requiresReAuth = requiresSpotifyReAuthentication();
-    const requiresAccessToken = await requiresSpotifyAccess();
+    this._trackListener = NowPlayingTracker.getInstance().onDidChangeTrack((e) => this.showTrackControls(e.track));
+    this.syncControls();
+  }
 
-    if (!requiresAccessToken && requiresReAuth) {
-      setItem("requiresSpotifyReAuth", false);
-      requiresReAuth = false;
+  /**
+   * Remove the status bar buttons and stop following the running track
+   */
+  public static dispose() {
+    if (this._trackListener) {
+      this._trackListener.dispose();
+      this._trackListener = null;
     }
+    this.stopProgressTooltip();
+    clearTimeout(this._hideCurrentSongTimeout);
+    this._buttons.forEach((button) => button.statusBarItem.dispose());
+    this._buttons = [];
+    this._songButton = null;
+    this._musicTimeLabelButton = null;
+    this._initialized = false;
+  }
 
-    const action = requiresReAuth ? "Reconnect" : "Connect";
-
-    // start with 100 0and go down in sequence
-    this._musicTimeLabelButton = this.createButton("🎧 MusicTime", musictimeMenuTooltip, "musictime.songTitleRefresh", 999);
-    this.createButton(`${action} Spotify`, `${action} Spotify to add your top productivity tracks.`, "musictime.connectSpotify", 999);
-    // play previous or unicode ⏪
-    this.createButton("$(chevron-left)", "Previous", "musictime.previous", 999);
-    // 998 buttons (play, pause)
-    this.createButton("$(play)", "Play", "musictime.play", 998);
-    // pause unicode ⏸
-    this.createButton("$(primitive-square)", "Stop", "musictime.pause", 998);
-    // play next ⏩
-    this.createButton("$(chevron-right)", "Next", "musictime.next", 997);
-    // 996 buttons (unlike, like)
-    this.createButton("♡", "Like", "musictime.like", 996);
-    this.createButton("♥", "Unlike", "musictime.unlike", 996);
-    // button area for the current song name
-    this.createButton("", "Click to view track", "musictime.currentSong", 994);
+  /**
+   * Create the buttons again with the status bar settings. The alignment
+   * and priority of a status bar item can't be changed once it's created.
+   */
+  public static async reloadButtons() {
+    if (!this._initialized) {
+      return;
+    }
+    this.stopProgressTooltip();
+    this._buttons.forEach((button) => button.statusBarItem.dispose());
+    this._buttons = [];
+    this._songButton = null;
+    await this.createButtons();
     this.syncControls();
   }
 
-  public static async syncControls() {
-    if (this._hideSongTimeout) {
-      clearTimeout(this._hideSongTimeout);
+  /**
+   * The zenMode compact setting shows the icons without the song and MusicTime
+   * label while in zen mode. VS Code doesn't tell extensions about zen mode,
+   * so it follows the Music Time: Toggle Zen Mode command.
+   */
+  public static toggleZenMode() {
+    this._zenMode = !this._zenMode;
+    if (this._initialized) {
+      this.syncControls();
     }
+  }
 
-    let track: Track = await getRunningTrack();
-    if (!track) {
-      track = new Track();
-    }
+  private static async createButtons() {
+    const settings: MusicTimeSettings = getSettings();
+    const alignment: StatusBarAlignment = settings.statusBarAlignment === "right" ? StatusBarAlignment.Right : StatusBarAlignment.Left;
+    const musictimeMenuTooltip = await this.getMusicMenuTooltip();
 
-    let pauseIt = track.state === TrackStatus.Playing;
+    const provider: MusicProvider = getMusicProvider();
+    const requiresReAuth = await provider.requiresReAuthentication();
 
-    const requiresAccessToken = await requiresSpotifyAccess();
-    let requiresReAuth = requiresSpotifyReAuthentication();
+    const action = requiresReAuth ? "Reconnect" : "Connect";
+
+    // start with 999 and go down in the order of the buttons setting
+    this._musicTimeLabelButton = this.createButton(MUSIC_TIME_LABEL, musictimeMenuTooltip, "musictime.songTitleRefresh", 999, alignment);
+    this.createButton(
+      `${action} ${provider.displayName}`,
+      `${action} ${provider.displayName} to add your top productivity tracks.`,
+      "musictime.connectSpotify",
+      999,
+      alignment
+    );
+    const buttonIds: StatusBarButtonId[] = Array.from(new Set(settings.statusBarButtons));
+    buttonIds.forEach((id: StatusBarButtonId, index: number) => {
+      (STATUS_BAR_BUTTONS[id] ?? []).forEach((n) => this.createButton(n.text, n.tooltip, n.command, 998 - index, alignment));
+    });
+  }
+
+  /**
+   * Update the status bar buttons with the running track. The track
+   * is fetched from the player unless another window has shared it.
+   * @param sharedTrack
+   */
+  public static async syncControls(sharedTrack: Track = undefined) {
+    const tracker: NowPlayingTracker = NowPlayingTracker.getInstance();
+    const trackChanged: boolean = await tracker.refresh(sharedTrack);
+    if (!trackChanged) {
+      // the track change listener updates the buttons otherwise,
+      // this picks up a change in the connection state
+      await this.showTrackControls(tracker.getTrack());
+    }
+  }
 
-    if (!requiresAccessToken && requiresReAuth) {
-      setItem("requiresSpotifyReAuth", false);
-      requiresReAuth = false;
+  private static async showTrackControls(track: Track) {
+    if (this._hideSongTimeout) {
+      clearTimeout(this._hideSongTimeout);
     }
 
-    const requiresAuth = requiresAccessToken || requiresReAuth ? true : false;
+    let pauseIt = track.state === TrackStatus.Playing;
+
+    const provider: MusicProvider = getMusicProvider();
+    const requiresAuth = (await provider.requiresAccess()) || (await provider.requiresReAuthentication());
+    // the editor title menu shows the player commands while there's a track
+    commands.executeCommand("setContext", "musictime.hasTrack", !requiresAuth && !!track?.id);
+    commands.executeCommand("setContext", "musictime.isPlaying", !requiresAuth && pauseIt);
 
     if (requiresAuth) {
       this.showLaunchPlayerControls();
@@ -119,9 +201,10 @@ export class MusicCommandManager {
    * @param tooltip
    * @param command
    * @param priority
+   * @param alignment
    */
-  private static createButton(text: string, tooltip: string, command: string, priority: number) {
-    let statusBarItem = window.createStatusBarItem(StatusBarAlignment.Left, priority);
+  private static createButton(text: string, tooltip: string, command: string, priority: number, alignment: StatusBarAlignment) {
+    let statusBarItem = window.createStatusBarItem(alignment, priority);
     statusBarItem.text = text;
     statusBarItem.command = command;
     statusBarItem.tooltip = tooltip;
@@ -143,14 +226,10 @@ export class MusicCommandManager {
     if (!this._buttons || this._buttons.length === 0) {
       return;
     }
+    this.stopProgressTooltip();
 
-    const requiresAccessToken = await requiresSpotifyAccess();
-    let requiresReAuth = requiresSpotifyReAuthentication();
-
-    if (!requiresAccessToken && requiresReAuth) {
-      setItem("requiresSpotifyReAuth", false);
-      requiresReAuth = false;
-    }
+    const provider: MusicProvider = getMusicProvider();
+    const requiresReAuth = await provider.requiresReAuthentication();
 
     const tooltip = await this.getMusicMenuTooltip();
 
@@ -168,7 +247,7 @@ export class MusicCommandManager {
       } else if (isConnectButton && requiresReAuth) {
         // show the connect button
         button.statusBarItem.show();
-        button.statusBarItem.text = `Reconnect Spotify`;
+        button.statusBarItem.text = `Reconnect ${provider.displayName}`;
       } else {
         // hide the rest
         button.statusBarItem.hide();
@@ -182,7 +261,7 @@ export class MusicCommandManager {
    * @param trackInfo
    */
   private static async showPlayControls(track: Track) {
-    if (!track && !getBestActiveDevice()) {
+    if (!track && !getMusicProvider().getActiveDevice()) {
       this.showLaunchPlayerControls();
     }
 
@@ -193,7 +272,7 @@ export class MusicCommandManager {
     const trackName = track.name;
     const songInfo = track.artist;
     const tooltip = await this.getMusicMenuTooltip();
-    const isLiked = await isLikedSong(track);
+    const isLiked = !!track.id && (await getMusicProvider().isLiked(track.id));
 
     this._buttons.map((button) => {
       const btnCmd = button.statusBarItem.command;
@@ -224,10 +303,11 @@ export class MusicCommandManager {
           button.statusBarItem.hide();
         }
       } else if (currentSongButton) {
-        button.statusBarItem.tooltip = `${songInfo}`;
-        button.statusBarItem.text = getSongDisplayName(trackName);
-        button.statusBarItem.show();
+        button.statusBarItem.tooltip = this.getSongTooltip(songInfo, track);
         this._songButton = button;
+        this._marqueeOffset = 0;
+        this.updateSongText(track);
+        button.statusBarItem.show();
       } else if (isPlayButton) {
         if (songInfo) {
           // show the song info over the play button
@@ -239,6 +319,8 @@ export class MusicCommandManager {
       }
     });
 
+    this.applyCompactMode();
+    this.stopProgressTooltip();
     this.hideCurrentSong();
   }
 
@@ -247,7 +329,7 @@ export class MusicCommandManager {
    * @param trackInfo
    */
   private static async showPauseControls(trackInfo: Track) {
-    if (!trackInfo && !getBestActiveDevice()) {
+    if (!trackInfo && !getMusicProvider().getActiveDevice()) {
       this.showLaunchPlayerControls();
     } else if (!trackInfo) {
       trackInfo = new Track();
@@ -260,7 +342,10 @@ export class MusicCommandManager {
     const trackName = trackInfo ? trackInfo.name : "";
     const songInfo = trackInfo && trackInfo.id ? `${trackInfo.name} (${trackInfo.artist})` : "";
     const tooltip = await this.getMusicMenuTooltip();
-    const isLiked = !!((trackInfo && trackInfo["playlist_id"] === SPOTIFY_LIKED_SONGS_PLAYLIST_ID) || (await isLikedSong(trackInfo)));
+    const isLiked = !!(
+      (trackInfo && trackInfo["playlist_id"] === SPOTIFY_LIKED_SONGS_PLAYLIST_ID) ||
+      (trackInfo?.id && (await getMusicProvider().isLiked(trackInfo.id)))
+    );
 
     this._buttons.map((button) => {
       const btnCmd = button.statusBarItem.command;
@@ -291,10 +376,11 @@ export class MusicCommandManager {
           button.statusBarItem.hide();
         }
       } else if (currentSongButton) {
-        button.statusBarItem.tooltip = `${songInfo}`;
-        button.statusBarItem.text = getSongDisplayName(trackName);
-        button.statusBarItem.show();
+        button.statusBarItem.tooltip = this.getSongTooltip(songInfo, trackInfo);
         this._songButton = button;
+        this._marqueeOffset = 0;
+        this.updateSongText(trackInfo);
+        button.statusBarItem.show();
       } else if (isPauseButton) {
         if (songInfo) {
           button.statusBarItem.tooltip = `${button.tooltip} - ${songInfo}`;
@@ -305,23 +391,102 @@ export class MusicCommandManager {
       }
     });
 
+    this.applyCompactMode();
+    this.startProgressTooltip(songInfo, trackInfo);
     this.hideCurrentSong();
   }
 
-  private static async getMusicMenuTooltip() {
-    const name = getItem("name");
+  private static isCompact(): boolean {
+    const mode = getSettings().statusBarCompactMode;
+    return mode === "on" || (mode === "zenMode" && this._zenMode);
+  }
+
+  private static applyCompactMode() {
+    const compact: boolean = this.isCompact();
+    if (this._musicTimeLabelButton) {
+      this._musicTimeLabelButton.statusBarItem.text = compact ? MUSIC_TIME_ICON : MUSIC_TIME_LABEL;
+    }
+    if (compact && this._songButton) {
+      this._songButton.statusBarItem.hide();
+    }
+  }
+
+  /**
+   * Fill in the now playing format and keep it within the max length,
+   * scrolling it when the marquee is on
+   * @param track
+   */
+  private static updateSongText(track: Track) {
+    if (!this._songButton) {
+      return;
+    }
+    const settings: MusicTimeSettings = getSettings();
+    const text: string = track?.name ? this.formatSongText(settings.nowPlayingFormat, track) : "";
+    const maxLength: number = settings.nowPlayingMaxLength;
+    if (settings.nowPlayingMarquee && maxLength > 0 && text.length > maxLength) {
+      const loop = `${text}${MARQUEE_GAP}`;
+      const offset: number = this._marqueeOffset % loop.length;
+      this._songButton.statusBarItem.text = `${loop}${loop}`.substring(offset, offset + maxLength);
+    } else {
+      this._songButton.statusBarItem.text = getSongDisplayName(text, maxLength);
+    }
+  }
 
-    const requiresAccessToken = await requiresSpotifyAccess();
-    let requiresReAuth = requiresSpotifyReAuthentication();
+  private static formatSongText(format: string, track: Track) {
+    const values = {
+      track: track.name,
+      artist: track.artist,
+      album: track.album?.name ?? (typeof track.album === "string" ? track.album : ""),
+      elapsed: formatTrackTime(NowPlayingTracker.getInstance().getProgressMs()),
+      duration: formatTrackTime(track.duration_ms),
+    };
+    return (format || "${track}").replace(/\$\{(\w+)\}/g, (match: string, key: string) => values[key] ?? match).trim();
+  }
+
+  private static getSongTooltip(songInfo: string, track: Track) {
+    if (!track?.duration_ms) {
+      return songInfo;
+    }
+    const elapsed = formatTrackTime(NowPlayingTracker.getInstance().getProgressMs());
+    return `${songInfo} ${elapsed} / ${formatTrackTime(track.duration_ms)}`;
+  }
+
+  /**
+   * Keep the elapsed time in the song tooltip and text moving, and
+   * scroll the marquee, while the track plays
+   */
+  private static startProgressTooltip(songInfo: string, track: Track) {
+    this.stopProgressTooltip();
+    if (!track?.duration_ms) {
+      return;
+    }
+    const interval: number = getSettings().nowPlayingMarquee ? MARQUEE_INTERVAL_MS : 1000;
+    this._progressInterval = setInterval(() => {
+      if (this._songButton) {
+        this._songButton.statusBarItem.tooltip = this.getSongTooltip(songInfo, track);
+        this._marqueeOffset++;
+        this.updateSongText(track);
+      }
+    }, interval);
+  }
 
-    if (!requiresAccessToken && requiresReAuth) {
-      setItem("requiresSpotifyReAuth", false);
-      requiresReAuth = false;
+  private static stopProgressTooltip() {
+    if (this._progressInterval) {
+      clearInterval(this._progressInterval);
+      this._progressInterval = null;
     }
+  }
+
+  private static async getMusicMenuTooltip() {
+    const name = getItem("name");
+
+    const provider: MusicProvider = getMusicProvider();
+    const requiresAccessToken = await provider.requiresAccess();
+    const requiresReAuth = await provider.requiresReAuthentication();
 
     if (requiresAccessToken || requiresReAuth) {
       const action = requiresReAuth ? "Reconnect" : "Connect";
-      return `${action} Spotify`;
+      return `${action} ${provider.displayName}`;
     }
 
     let musicTimeTooltip = "Click to see more from Music Time";
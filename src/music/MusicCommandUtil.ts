@@ -1,6 +1,7 @@
 import { accessExpired } from "cody-music";
 import { logIt } from '../Util';
 import { getDeviceSet } from "../managers/PlaylistDataManager";
+import { getSpotifyResponseStatus, SpotifyRequestOptions, SpotifyRequestScheduler } from "./SpotifyRequestScheduler";
 
 export class MusicCommandUtil {
   private static instance: MusicCommandUtil;
@@ -17,13 +18,12 @@ export class MusicCommandUtil {
     return MusicCommandUtil.instance;
   }
 
-  async runSpotifyCommand(fnc: Function, args: any[] = null): Promise<any> {
-    let result = null;
-    if (args && args.length) {
-      result = await fnc(...args);
-    } else {
-      result = await fnc();
-    }
+  /**
+   * Send a spotify web api call through the request scheduler. Rate limited
+   * calls are retried by the scheduler before the 429 is returned here.
+   */
+  async runSpotifyCommand(fnc: Function, args: any[] = null, options: SpotifyRequestOptions = {}): Promise<any> {
+    const result = await SpotifyRequestScheduler.getInstance().schedule(fnc, args ?? [], options);
 
     const resultStatus = this.getResponseStatus(result);
     if (resultStatus === 401 || resultStatus === 429) {
@@ -81,13 +81,6 @@ export class MusicCommandUtil {
   }
 
   getResponseStatus(resp) {
-    if (resp && resp.status) {
-      return resp.status;
-    } else if (resp && resp.data && resp.data.status) {
-      return resp.data.status;
-    } else if (resp && resp.error && resp.error.response && resp.error.response.status) {
-      return resp.error.response.status;
-    }
-    return 200;
+    return getSpotifyResponseStatus(resp);
   }
 }
@@ -6,9 +6,6 @@ import {
   PlayerName,
   Track,
   PlaylistItem,
-  saveToSpotifyLiked,
-  addTracksToPlaylist,
-  removeFromSpotifyLiked,
   repeatOn,
   repeatOff,
   PlayerDevice,
@@ -25,20 +22,23 @@ import {
   PlayerContext,
   getSpotifyPlayerContext,
 } from "cody-music";
-import { window, commands } from "vscode";
+import { window, commands, env } from "vscode";
 import { MusicCommandManager } from "./MusicCommandManager";
 import { showQuickPick } from "../MenuManager";
-import { playInitialization, playNextLikedSong, playPreviousLikedSongs } from "../managers/PlaylistControlManager";
-import { createSpotifyIdFromUri, createUriFromTrackId, isMac, getCodyErrorMessage, isWindows } from "../Util";
+import { enqueueMusicMutation, isMutationSent, MutationResult } from "../managers/MusicMutationQueueManager";
+import { launchTrackPlayer, playInitialization, playNextLikedSong, playPreviousLikedSongs } from "../managers/PlaylistControlManager";
+import { createSpotifyIdFromUri, createUriFromTrackId, isMac, isWindows } from "../Util";
 import {
   SPOTIFY_LIKED_SONGS_PLAYLIST_NAME,
-  OK_LABEL,
   SPOTIFY_LIKED_SONGS_PLAYLIST_ID,
   RECOMMENDATION_PLAYLIST_ID,
+  MUSIC_TIME_EXT_ID,
 } from "../Constants";
 import { SocialShareManager } from "../social/SocialShareManager";
 import { MusicPlaylistManager } from "./MusicPlaylistManager";
 import { MusicCommandUtil } from "./MusicCommandUtil";
+import { scheduleSpotifyRequest } from "./SpotifyRequestScheduler";
+import { NowPlayingTracker } from "./NowPlayingTracker";
 import { isPremiumUser } from "../managers/SpotifyManager";
 import {
   getBestActiveDevice,
@@ -56,7 +56,8 @@ import {
   createPlaylistItemFromTrack,
   getSelectedPlaylistId,
   updateLikedStatusInPlaylist,
-  getPlayerContext
+  getPlayerContext,
+  addTrackToPlaylistTracks
 } from "../managers/PlaylistDataManager";
 import { connectSlackWorkspace, hasSlackWorkspaces } from "../managers/SlackManager";
 
@@ -141,30 +142,30 @@ export class MusicControlManager {
 
   async setShuffleOn() {
     const device = getBestActiveDevice();
-    await setShuffle(PlayerName.SpotifyWeb, true, device?.id);
+    await MusicCommandUtil.getInstance().runSpotifyCommand(setShuffle, [PlayerName.SpotifyWeb, true, device?.id]);
   }
 
   async setShuffleOff() {
     const device = getBestActiveDevice();
-    await setShuffle(PlayerName.SpotifyWeb, false, device?.id);
+    await MusicCommandUtil.getInstance().runSpotifyCommand(setShuffle, [PlayerName.SpotifyWeb, false, device?.id]);
   }
 
   async setRepeatTrackOn() {
     const device = getBestActiveDevice();
-    await setRepeatTrack(PlayerName.SpotifyWeb, device?.id);
+    await MusicCommandUtil.getInstance().runSpotifyCommand(setRepeatTrack, [PlayerName.SpotifyWeb, device?.id]);
   }
 
   async setRepeatPlaylistOn() {
     const device = getBestActiveDevice();
-    await setRepeatPlaylist(PlayerName.SpotifyWeb, device?.id);
+    await MusicCommandUtil.getInstance().runSpotifyCommand(setRepeatPlaylist, [PlayerName.SpotifyWeb, device?.id]);
   }
 
   async setRepeatOnOff(setToOn: boolean) {
     let result = null;
     if (setToOn) {
-      result = await repeatOn(PlayerName.SpotifyWeb);
+      result = await MusicCommandUtil.getInstance().runSpotifyCommand(repeatOn, [PlayerName.SpotifyWeb]);
     } else {
-      result = await repeatOff(PlayerName.SpotifyWeb);
+      result = await MusicCommandUtil.getInstance().runSpotifyCommand(repeatOff, [PlayerName.SpotifyWeb]);
     }
   }
 
@@ -271,7 +272,7 @@ export class MusicControlManager {
   async playSpotifyByTrackAndPlaylist(playlistId: string, trackId: string) {
     const device = getBestActiveDevice();
     // just play the 1st track
-    await playSpotifyPlaylist(playlistId, trackId, device?.id);
+    await MusicCommandUtil.getInstance().runSpotifyCommand(playSpotifyPlaylist, [playlistId, trackId, device?.id]);
   }
 
   async playSpotifyByTrack(track: PlaylistItem, devices: PlayerDevice[] = []) {
@@ -288,7 +289,10 @@ export class MusicControlManager {
     }
   }
 
-  async setLiked(track: any, liked: boolean) {
+  /**
+   * Resolves to the result of sending the change to spotify, undefined when there's no track
+   */
+  async setLiked(track: any, liked: boolean): Promise<MutationResult> {
     let trackId = track?.id;
     if (!trackId) {
       // check to see if we have a running track
@@ -310,16 +314,15 @@ export class MusicControlManager {
       isRecommendationTrack = true;
     }
 
-    // save the spotify track to the users liked songs playlist
     if (liked) {
-      await saveToSpotifyLiked([trackId]);
       // add it to the liked songs playlist
       addTrackToLikedPlaylist(track);
     } else {
-      await removeFromSpotifyLiked([trackId]);
       // remove from the cached liked list
       removeTrackFromLikedPlaylist(trackId);
     }
+    // save the change to the users spotify liked songs, queued if spotify isn't reachable
+    const result: MutationResult = await enqueueMusicMutation({ type: liked ? "like" : "unlike", track_id: trackId, track_name: track.name });
 
     if (isRecommendationTrack) {
       updateLikedStatusInPlaylist(selectedPlaylistId, trackId, liked);
@@ -339,10 +342,11 @@ export class MusicControlManager {
         );
       }
     }
+    return result;
   }
 
-  async copySpotifyLink(id: string, isPlaylist: boolean) {
-    let link = buildSpotifyLink(id, isPlaylist);
+  async copySpotifyLink(id: string, isPlaylist: boolean, deepLink: boolean = false) {
+    let link = buildSpotifyLink(id, isPlaylist, deepLink);
 
     if (id === SPOTIFY_LIKED_SONGS_PLAYLIST_NAME) {
       link = "https://open.spotify.com/collection/tracks";
@@ -357,7 +361,7 @@ export class MusicControlManager {
 
     try {
       clipboardy.writeSync(link);
-      window.showInformationMessage(`Spotify ${messageContext} link copied to clipboard.`);
+      window.showInformationMessage(`${deepLink ? "Music Time" : "Spotify"} ${messageContext} link copied to clipboard.`);
     } catch (err) {
       console.log(`Unable to copy to clipboard, error: ${err.message}`);
     }
@@ -384,6 +388,28 @@ export class MusicControlManager {
     socialShare.shareIt("facebook", { u: url, hashtag: "OneOfMyFavs" });
   }
 
+  /**
+   * The actions for the running track, shown from the song in the status bar
+   */
+  async showCurrentSongMenu() {
+    const track = NowPlayingTracker.getInstance().getTrack();
+    await showQuickPick({
+      items: [
+        {
+          label: "Show artist",
+          detail: "Top tracks, albums and related artists",
+          command: "musictime.showArtist",
+        },
+        {
+          label: "Open the player",
+          detail: "Launch the player the track is playing in",
+          cb: () => launchTrackPlayer(),
+        },
+      ],
+      placeholder: track?.name ? `${track.name}${track.artist ? ` - ${track.artist}` : ""}` : "",
+    });
+  }
+
   async showMenu() {
     let menuOptions = {
       items: [],
@@ -519,50 +545,62 @@ export class MusicControlManager {
         const matchingPlaylist = matchingPlaylists[0];
         if (matchingPlaylist) {
           const playlistName = matchingPlaylist.name;
-          let errMsg = null;
 
           const trackUri = playlistItem.uri || createUriFromTrackId(playlistItem.id);
           const trackId = playlistItem.id;
+          let result: MutationResult;
 
           if (matchingPlaylist.name !== "Liked Songs") {
             // it's a non-liked songs playlist update
             // uri:"spotify:track:2JHCaLTVvYjyUrCck0Uvrp" or id
-            const codyResponse = await addTracksToPlaylist(matchingPlaylist.id, [trackUri]);
-            errMsg = getCodyErrorMessage(codyResponse);
-
-            // populate the spotify playlists
-            await getSpotifyPlaylists(true);
+            addTrackToPlaylistTracks(matchingPlaylist.id, playlistItem);
+            result = await enqueueMusicMutation({
+              type: "addToPlaylist",
+              track_id: trackId,
+              track_uri: trackUri,
+              track_name: playlistItem.name,
+              playlist_id: matchingPlaylist.id,
+              playlist_name: playlistName,
+            });
           } else {
             // it's a liked songs playlist update
-            let track: Track = await getRunningTrack();
+            let track: Track = await scheduleSpotifyRequest(getRunningTrack, [], { coalesce: true });
             if (track.id !== trackId) {
               track = new Track();
               track.id = playlistItem.id;
               track.playerType = playlistItem.playerType;
               track.state = playlistItem.state;
             }
-            await this.setLiked(playlistItem, true);
+            result = await this.setLiked(playlistItem, true);
           }
-          if (!errMsg) {
+          // a failed or queued update is reported by the mutation queue
+          if (isMutationSent(result)) {
             window.showInformationMessage(`Added ${playlistItem.name} to ${playlistName}`);
-            // refresh the playlist and clear the current recommendation metadata
-            removeTracksFromRecommendations(trackId);
-            commands.executeCommand("musictime.refreshMusicTimeView");
-          } else {
-            if (errMsg) {
-              window.showErrorMessage(`Failed to add '${playlistItem.name}' to '${playlistName}'. ${errMsg}`, ...[OK_LABEL]);
-            }
           }
+          // refresh the playlist and clear the current recommendation metadata
+          removeTracksFromRecommendations(trackId);
+          commands.executeCommand("musictime.refreshMusicTimeView");
         }
       }
     }
   }
 }
 
-export function buildSpotifyLink(id: string, isPlaylist: boolean) {
+/**
+ * The open.spotify.com link, or with deepLink a link that plays
+ * it in VS Code through the Music Time uri handler
+ * @param id
+ * @param isPlaylist
+ * @param deepLink
+ */
+export function buildSpotifyLink(id: string, isPlaylist: boolean, deepLink: boolean = false) {
   let link = "";
   id = createSpotifyIdFromUri(id);
-  if (isPlaylist) {
+  if (deepLink) {
+    // example: vscode://softwaredotcom.music-time/play?uri=spotify%3Atrack%3A7fa9MBXhVfQ8P8Df9OEbD8
+    const uri = `spotify:${isPlaylist ? "playlist" : "track"}:${id}`;
+    link = `${env.uriScheme}://${MUSIC_TIME_EXT_ID}/${isPlaylist ? "playlist" : "play"}?uri=${encodeURIComponent(uri)}`;
+  } else if (isPlaylist) {
     link = `https://open.spotify.com/playlist/${id}`;
   } else {
     link = `https://open.spotify.com/track/${id}`;
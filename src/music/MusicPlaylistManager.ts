@@ -1,8 +1,18 @@
 import { window, commands } from "vscode";
-import { CodyResponse, CodyResponseType, addTracksToPlaylist, createPlaylist, PlaylistItem, getSpotifyLikedSongs } from "cody-music";
-import { OK_LABEL, SPOTIFY_LIKED_SONGS_PLAYLIST_NAME } from "../Constants";
+import { CodyResponse, CodyResponseType, addTracksToPlaylist, createPlaylist, PlaylistItem, getSpotifyLikedSongs, replacePlaylistTracks } from "cody-music";
+import {
+  FLOW_PLAYLIST_MAX_TRACKS,
+  FLOW_PLAYLIST_NAME,
+  OK_LABEL,
+  SPOTIFY_LIKED_SONGS_PLAYLIST_NAME,
+} from "../Constants";
+import { scheduleSpotifyRequest } from "./SpotifyRequestScheduler";
 import { getCodyErrorMessage } from "../Util";
 import { getSelectedPlaylistId, getSelectedTabView, getSpotifyPlaylists, populateLikedSongs } from "../managers/PlaylistDataManager";
+import { getProductivityScores } from "../managers/ProductivityScoreManager";
+import { getSettings, updateSetting } from "../managers/SettingsManager";
+import MusicMetrics from "../model/MusicMetrics";
+import MusicScatterData from "../model/MusicScatterData";
 
 export class MusicPlaylistManager {
   private static instance: MusicPlaylistManager;
@@ -19,9 +29,9 @@ export class MusicPlaylistManager {
     return MusicPlaylistManager.instance;
   }
 
-  async createPlaylist(playlistName: string, playlistTrackItems: PlaylistItem[]) {
+  async createPlaylist(playlistName: string, playlistTrackItems: PlaylistItem[], description: string = undefined) {
     // create the playlist
-    const playlistResult: CodyResponse = await createPlaylist(playlistName, true);
+    const playlistResult: CodyResponse = await scheduleSpotifyRequest(createPlaylist, [playlistName, true, description]);
 
     let playlistId = null;
     const errMsg = getCodyErrorMessage(playlistResult);
@@ -44,12 +54,96 @@ export class MusicPlaylistManager {
     });
 
     this.addTracks(playlistId, playlistName, tracksToAdd);
+    return playlistId;
+  }
+
+  /**
+   * Create or refresh the flow playlist with the most productive songs.
+   * The playlist id is saved in the settings so later runs replace its tracks in place.
+   */
+  async generateFlowPlaylist() {
+    const minPlays: number = getSettings().flowPlaylistMinPlays;
+    const flowSongs: MusicMetrics[] = this.getFlowSongs(minPlays);
+    if (!flowSongs.length) {
+      window.showInformationMessage(
+        `Keep coding while listening to music. Songs played at least ${minPlays} times while coding will be added to your ${FLOW_PLAYLIST_NAME} playlist.`
+      );
+      return;
+    }
+
+    const description = this.getFlowPlaylistDescription(flowSongs);
+    const tracks: PlaylistItem[] = flowSongs.map((song: MusicMetrics) => {
+      const item: PlaylistItem = new PlaylistItem();
+      item.id = song.song_id;
+      item.name = song.song_name;
+      return item;
+    });
+
+    const playlists: PlaylistItem[] = await getSpotifyPlaylists();
+    if (!playlists) {
+      // creating one now could duplicate the flow playlist
+      window.showErrorMessage(`Unable to fetch your Spotify playlists to update ${FLOW_PLAYLIST_NAME}. Please try again.`, ...[OK_LABEL]);
+      return;
+    }
+    const flowPlaylistId: string = getSettings().flowPlaylistId;
+    const flowPlaylist: PlaylistItem = flowPlaylistId ? playlists.find((n) => n.id === flowPlaylistId) : null;
+
+    if (!flowPlaylist) {
+      // never created or removed from the user's playlists since the last run
+      const playlistId = await this.createPlaylist(FLOW_PLAYLIST_NAME, tracks, description);
+      if (playlistId) {
+        await updateSetting("flowPlaylistId", playlistId);
+      }
+      return;
+    }
+
+    const replaceResult: CodyResponse = await scheduleSpotifyRequest(replacePlaylistTracks, [flowPlaylist.id, tracks.map((n) => n.id)]);
+    const errMsg = getCodyErrorMessage(replaceResult);
+    if (errMsg) {
+      window.showErrorMessage(`There was an unexpected error updating ${flowPlaylist.name}. ${errMsg}`, ...[OK_LABEL]);
+      return;
+    }
+    window.showInformationMessage(`Updated ${flowPlaylist.name} with your ${tracks.length} most productive songs.`);
+    await getSpotifyPlaylists(true);
+    commands.executeCommand("musictime.refreshMusicTimeView");
+  }
+
+  private getFlowSongs(minPlays: number): MusicMetrics[] {
+    const flowSongs: MusicMetrics[] = [];
+    const songKeys = new Set<string>();
+    // songs are ranked by productivity score
+    for (const song of getProductivityScores().songs) {
+      // the same song can be on several albums with a different track id
+      const songKey = `${song.song_name}:${song.artist_name}`.toLowerCase();
+      // spotify rejects the whole update if any of the ids is a local or media player id
+      if (song.provider !== "spotify" || song.plays < minPlays || songKeys.has(songKey)) {
+        continue;
+      }
+      songKeys.add(songKey);
+      flowSongs.push(song);
+      if (flowSongs.length === FLOW_PLAYLIST_MAX_TRACKS) {
+        break;
+      }
+    }
+    return flowSongs;
+  }
+
+  private getFlowPlaylistDescription(flowSongs: MusicMetrics[]) {
+    const scatterData: MusicScatterData = new MusicScatterData();
+    const songsWithFeatures = flowSongs.filter((n) => n.tempo !== undefined);
+    songsWithFeatures.forEach((n) => scatterData.addMetric(n));
+    if (!songsWithFeatures.length) {
+      return "The songs you code best to, generated by Music Time.";
+    }
+    const tempo: number = scatterData.getAverage("tempo");
+    const energy: number = scatterData.getAverage("energy");
+    return `The songs you code best to, generated by Music Time. Average tempo ${Math.round(tempo)} bpm, energy ${energy.toFixed(2)}.`;
   }
 
   async addTracks(playlist_id: string, name: string, tracksToAdd: string[]) {
     if (playlist_id) {
       // create the playlist_id in software
-      const addTracksResult: CodyResponse = await addTracksToPlaylist(playlist_id, tracksToAdd);
+      const addTracksResult: CodyResponse = await scheduleSpotifyRequest(addTracksToPlaylist, [playlist_id, tracksToAdd]);
 
       if (addTracksResult.state === CodyResponseType.Success) {
         window.showInformationMessage(`Successfully created ${name} and added tracks.`);
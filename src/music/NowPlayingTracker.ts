@@ -0,0 +1,204 @@
+import { Track, TrackStatus } from "cody-music";
+import { Disposable, Event, EventEmitter, window, WindowState } from "vscode";
+import { fetchRunningTrack } from "../managers/PlayerStateSyncManager";
+import { updateCachedRunningTrack } from "../managers/PlaylistDataManager";
+import { getSettings } from "../managers/SettingsManager";
+import { logIt } from "../Util";
+
+// poll quickly for a short time after play, pause, next, etc.
+const USER_ACTION_POLL_SECONDS = 2;
+const USER_ACTION_WINDOW_SECONDS = 10;
+// catches seeks and skips made in the player itself, unless the setting polls sooner
+const PLAYING_POLL_SECONDS = 20;
+// the poll delay is this many times longer when no window is focused
+const UNFOCUSED_POLL_FACTOR = 4;
+// wait a little past the predicted end so the player has moved on
+const TRACK_END_GRACE_MILLIS = 1500;
+const MIN_POLL_MILLIS = 1000;
+
+export interface TrackChangeEvent {
+  track: Track;
+  previous_track: Track;
+}
+
+/**
+ * Keeps the running track up to date. It predicts the next track change
+ * from the track progress, polls quickly after user actions and backs off
+ * while playback is paused or the window isn't focused. A window that's
+ * focused takes the lead, so the polling window is the focused one unless
+ * no window is.
+ */
+export class NowPlayingTracker {
+  private static instance: NowPlayingTracker;
+
+  private _onDidChangeTrack = new EventEmitter<TrackChangeEvent>();
+  private track: Track = undefined;
+  private trackUpdatedAt: number = 0;
+  private pollHandler: () => Promise<any> = undefined;
+  private pollTimeout: any = undefined;
+  private userActionUntil: number = 0;
+  private windowStateListener: Disposable = undefined;
+
+  private constructor() {
+    // private to prevent non-singleton usage
+  }
+
+  static getInstance(): NowPlayingTracker {
+    if (!NowPlayingTracker.instance) {
+      NowPlayingTracker.instance = new NowPlayingTracker();
+    }
+
+    return NowPlayingTracker.instance;
+  }
+
+  get onDidChangeTrack(): Event<TrackChangeEvent> {
+    return this._onDidChangeTrack.event;
+  }
+
+  getTrack(): Track {
+    return this.track;
+  }
+
+  /**
+   * The track position, moved forward by the time since it was fetched while playing
+   */
+  getProgressMs(): number {
+    if (!this.track?.progress_ms) {
+      return 0;
+    }
+    const elapsed = this.track.state === TrackStatus.Playing ? Date.now() - this.trackUpdatedAt : 0;
+    return Math.min(this.track.progress_ms + elapsed, this.track.duration_ms || Number.MAX_SAFE_INTEGER);
+  }
+
+  /**
+   * Start polling the player. The handler fetches the player state,
+   * which is expected to pass the running track to refresh.
+   * @param pollHandler
+   */
+  start(pollHandler: () => Promise<any>) {
+    this.pollHandler = pollHandler;
+    if (!this.windowStateListener) {
+      this.windowStateListener = window.onDidChangeWindowState(this.onWindowStateChange, this);
+    }
+    this.poll();
+  }
+
+  stop() {
+    this.pollHandler = undefined;
+    this.clearPollTimeout();
+    if (this.windowStateListener) {
+      this.windowStateListener.dispose();
+      this.windowStateListener = undefined;
+    }
+  }
+
+  /**
+   * Fetch the running track unless another window has shared it.
+   * Returns true when the track changed.
+   * @param sharedTrack
+   */
+  async refresh(sharedTrack: Track = undefined): Promise<boolean> {
+    const track: Track = sharedTrack ?? (await fetchRunningTrack()) ?? new Track();
+    return this.update(track);
+  }
+
+  /**
+   * Play, pause, next, etc. change the track within a few seconds
+   */
+  notifyUserAction() {
+    this.userActionUntil = Date.now() + USER_ACTION_WINDOW_SECONDS * 1000;
+    if (this.pollHandler) {
+      this.schedule(USER_ACTION_POLL_SECONDS * 1000);
+    } else {
+      // the polling window will pick it up from the shared state
+      setTimeout(() => {
+        this.refresh().catch((e) => logIt(`Unable to refresh the running track. ${e.message}`));
+      }, USER_ACTION_POLL_SECONDS * 1000);
+    }
+  }
+
+  dispose() {
+    this.stop();
+    this._onDidChangeTrack.dispose();
+  }
+
+  private update(track: Track): boolean {
+    const previous_track: Track = this.track;
+    this.track = track;
+    this.trackUpdatedAt = Date.now();
+    updateCachedRunningTrack(track);
+
+    if (this.pollHandler) {
+      this.schedule(this.getNextPollDelay());
+    }
+
+    if (getTrackKey(track) === getTrackKey(previous_track)) {
+      return false;
+    }
+    this._onDidChangeTrack.fire({ track, previous_track });
+    return true;
+  }
+
+  private async poll() {
+    this.clearPollTimeout();
+    try {
+      await this.pollHandler?.();
+    } catch (e) {
+      // try again on the next poll
+    }
+    if (this.pollHandler) {
+      this.schedule(this.getNextPollDelay());
+    }
+  }
+
+  private schedule(delay: number) {
+    this.clearPollTimeout();
+    this.pollTimeout = setTimeout(() => this.poll(), Math.max(delay, MIN_POLL_MILLIS));
+  }
+
+  private clearPollTimeout() {
+    if (this.pollTimeout) {
+      clearTimeout(this.pollTimeout);
+      this.pollTimeout = undefined;
+    }
+  }
+
+  private getNextPollDelay(): number {
+    const now = Date.now();
+    if (now < this.userActionUntil) {
+      return USER_ACTION_POLL_SECONDS * 1000;
+    }
+
+    const pollSeconds: number = getSettings().trackPollSeconds;
+    const factor: number = window.state.focused ? 1 : UNFOCUSED_POLL_FACTOR;
+    if (this.track?.state !== TrackStatus.Playing) {
+      return pollSeconds * factor * 1000;
+    }
+
+    let delay = Math.min(pollSeconds, PLAYING_POLL_SECONDS) * factor * 1000;
+    if (this.track.duration_ms && this.track.progress_ms !== undefined && this.track.progress_ms !== null) {
+      const remaining = this.track.duration_ms - this.track.progress_ms - (now - this.trackUpdatedAt);
+      delay = Math.min(delay, Math.max(remaining, 0) + TRACK_END_GRACE_MILLIS);
+    }
+    return delay;
+  }
+
+  private onWindowStateChange(state: WindowState) {
+    if (!this.pollHandler) {
+      return;
+    }
+    if (state.focused && Date.now() - this.trackUpdatedAt > PLAYING_POLL_SECONDS * 1000) {
+      // the track may have changed while the window was in the background
+      this.poll();
+    } else {
+      this.schedule(this.getNextPollDelay());
+    }
+  }
+}
+
+/**
+ * The running track only changes when the id or play state does
+ */
+function getTrackKey(track: Track): string {
+  return track ? `${track.id ?? ""}:${track.state ?? ""}` : "";
+}
@@ -0,0 +1,225 @@
+// requests sent to spotify at the same time
+const MAX_CONCURRENT_REQUESTS = 4;
+// used when a 429 doesn't include a Retry-After header
+const DEFAULT_RETRY_AFTER_SECONDS = 5;
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+export enum RequestPriority {
+  // started by a user action, i.e. play, like or opening a playlist
+  User = 0,
+  // polling and cache revalidation
+  Background = 1,
+}
+
+export interface SpotifyRequestOptions {
+  priority?: RequestPriority;
+  // share the result with an identical request that's queued or in flight
+  coalesce?: boolean;
+}
+
+export interface SpotifyRequestMetrics {
+  requests: number;
+  sent: number;
+  coalesced: number;
+  rate_limited: number;
+  retries: number;
+  queued: number;
+  in_flight: number;
+  user_requests: number;
+  background_requests: number;
+  // epoch millis until requests are held back, 0 when not rate limited
+  rate_limited_until: number;
+}
+
+interface ScheduledRequest {
+  key: string;
+  fnc: Function;
+  args: any[];
+  priority: RequestPriority;
+  attempts: number;
+  promise: Promise<any>;
+  resolve: (result: any) => void;
+  reject: (error: any) => void;
+}
+
+/**
+ * Every spotify web api call goes through this queue. User actions are
+ * sent before background polling, a 429 pauses the queue for the
+ * Retry-After time and identical reads are only sent once.
+ */
+export class SpotifyRequestScheduler {
+  private static instance: SpotifyRequestScheduler;
+
+  private queues: ScheduledRequest[][] = [[], []];
+  private pending: Map<string, ScheduledRequest> = new Map();
+  private inFlight: number = 0;
+  private rateLimitedUntil: number = 0;
+  private resumeTimeout: any = undefined;
+  private metrics: SpotifyRequestMetrics;
+
+  private constructor() {
+    this.resetMetrics();
+  }
+
+  static getInstance(): SpotifyRequestScheduler {
+    if (!SpotifyRequestScheduler.instance) {
+      SpotifyRequestScheduler.instance = new SpotifyRequestScheduler();
+    }
+
+    return SpotifyRequestScheduler.instance;
+  }
+
+  schedule(fnc: Function, args: any[] = [], options: SpotifyRequestOptions = {}): Promise<any> {
+    const priority: RequestPriority = options.priority ?? RequestPriority.User;
+    this.metrics.requests++;
+
+    const key: string = options.coalesce ? `${fnc.name}:${JSON.stringify(args)}` : undefined;
+    const existing: ScheduledRequest = key ? this.pending.get(key) : undefined;
+    if (existing) {
+      this.metrics.coalesced++;
+      if (priority < existing.priority) {
+        this.promote(existing, priority);
+      }
+      return existing.promise;
+    }
+
+    if (priority === RequestPriority.User) {
+      this.metrics.user_requests++;
+    } else {
+      this.metrics.background_requests++;
+    }
+
+    let resolve: (result: any) => void;
+    let reject: (error: any) => void;
+    const promise = new Promise((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    const request: ScheduledRequest = { key, fnc, args, priority, attempts: 0, promise, resolve, reject };
+    if (key) {
+      this.pending.set(key, request);
+    }
+    this.queues[priority].push(request);
+    this.processQueue();
+    return promise;
+  }
+
+  getMetrics(): SpotifyRequestMetrics {
+    return {
+      ...this.metrics,
+      queued: this.queues[RequestPriority.User].length + this.queues[RequestPriority.Background].length,
+      in_flight: this.inFlight,
+      rate_limited_until: this.rateLimitedUntil > Date.now() ? this.rateLimitedUntil : 0,
+    };
+  }
+
+  resetMetrics() {
+    this.metrics = {
+      requests: 0,
+      sent: 0,
+      coalesced: 0,
+      rate_limited: 0,
+      retries: 0,
+      queued: 0,
+      in_flight: 0,
+      user_requests: 0,
+      background_requests: 0,
+      rate_limited_until: 0,
+    };
+  }
+
+  private processQueue() {
+    const waitMillis = this.rateLimitedUntil - Date.now();
+    if (waitMillis > 0) {
+      if (!this.resumeTimeout) {
+        this.resumeTimeout = setTimeout(() => {
+          this.resumeTimeout = undefined;
+          this.processQueue();
+        }, waitMillis);
+      }
+      return;
+    }
+
+    while (this.inFlight < MAX_CONCURRENT_REQUESTS) {
+      const request: ScheduledRequest = this.queues[RequestPriority.User].shift() ?? this.queues[RequestPriority.Background].shift();
+      if (!request) {
+        return;
+      }
+      this.send(request);
+    }
+  }
+
+  private async send(request: ScheduledRequest) {
+    this.inFlight++;
+    this.metrics.sent++;
+    let result = null;
+    let error = undefined;
+    try {
+      result = await request.fnc(...request.args);
+    } catch (e) {
+      error = e;
+    }
+    this.inFlight--;
+
+    if (!error && getSpotifyResponseStatus(result) === 429) {
+      this.metrics.rate_limited++;
+      this.rateLimitedUntil = Math.max(this.rateLimitedUntil, Date.now() + getRetryAfterSeconds(result) * 1000);
+      if (request.attempts < MAX_RATE_LIMIT_RETRIES) {
+        request.attempts++;
+        this.metrics.retries++;
+        // send it first once the rate limit is lifted
+        this.queues[request.priority].unshift(request);
+        this.processQueue();
+        return;
+      }
+    }
+
+    if (request.key) {
+      this.pending.delete(request.key);
+    }
+    if (error) {
+      request.reject(error);
+    } else {
+      request.resolve(result);
+    }
+    this.processQueue();
+  }
+
+  private promote(request: ScheduledRequest, priority: RequestPriority) {
+    const idx = this.queues[request.priority].indexOf(request);
+    if (idx !== -1) {
+      this.queues[request.priority].splice(idx, 1);
+      this.queues[priority].push(request);
+    }
+    request.priority = priority;
+  }
+}
+
+export function getSpotifyResponseStatus(resp: any): number {
+  if (resp && resp.status) {
+    return resp.status;
+  } else if (resp && resp.data && resp.data.status) {
+    return resp.data.status;
+  } else if (resp && resp.error && resp.error.response && resp.error.response.status) {
+    return resp.error.response.status;
+  }
+  return 200;
+}
+
+function getRetryAfterSeconds(resp: any): number {
+  // cody-music reads the Retry-After header into retrySeconds
+  const retryAfter = resp?.retrySeconds ?? resp?.error?.response?.headers?.["retry-after"];
+  const seconds = parseInt(retryAfter, 10);
+  return seconds > 0 ? seconds : DEFAULT_RETRY_AFTER_SECONDS;
+}
+
+/**
+ * Schedule a spotify call and return its unmodified result
+ */
+export function scheduleSpotifyRequest(fnc: Function, args: any[] = [], options: SpotifyRequestOptions = {}): Promise<any> {
+  return SpotifyRequestScheduler.getInstance().schedule(fnc, args, options);
+}
+
+export function getSpotifyRequestMetrics(): SpotifyRequestMetrics {
+  return SpotifyRequestScheduler.getInstance().getMetrics();
+}
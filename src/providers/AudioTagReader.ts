@@ -0,0 +1,285 @@
+const fs = require("fs");
+const path = require("path");
+
+export interface AudioTags {
+  title: string;
+  artist: string;
+  album: string;
+  genre: string;
+  // release year, empty when not tagged
+  year: string;
+  duration_ms: number;
+}
+
+export const AUDIO_FILE_EXTENSIONS = [".mp3", ".flac", ".ogg"];
+
+// enough for the text frames, embedded cover art is skipped
+const MAX_TAG_BYTES = 512 * 1024;
+const OGG_TAIL_BYTES = 64 * 1024;
+
+// kbps for MPEG-1 and MPEG-2 layer III
+const MPEG1_L3_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_L3_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+
+/**
+ * Reads the title, artist, album, genre, year and duration of an mp3 (ID3),
+ * flac or ogg (vorbis comment) file. Missing tags fall back to the file name.
+ */
+export function readAudioTags(file: string): AudioTags {
+  const tags: AudioTags = { title: "", artist: "", album: "", genre: "", year: "", duration_ms: 0 };
+  const ext = path.extname(file).toLowerCase();
+  let fd;
+  try {
+    fd = fs.openSync(file, "r");
+    const size: number = fs.fstatSync(fd).size;
+    if (ext === ".mp3") {
+      readMp3Tags(fd, size, tags);
+    } else if (ext === ".flac") {
+      readFlacTags(fd, tags);
+    } else if (ext === ".ogg") {
+      readOggTags(fd, size, tags);
+    }
+  } catch (e) {
+    // unreadable or truncated file, use what we have
+  } finally {
+    if (fd !== undefined) {
+      fs.closeSync(fd);
+    }
+  }
+  if (!tags.title) {
+    tags.title = path.basename(file, path.extname(file));
+  }
+  return tags;
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+function readBytes(fd, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const bytesRead: number = fs.readSync(fd, buffer, 0, length, position);
+  return buffer.slice(0, bytesRead);
+}
+
+function readMp3Tags(fd, size: number, tags: AudioTags) {
+  const header: Buffer = readBytes(fd, 0, 10);
+  let audioStart = 0;
+  if (header.length === 10 && header.toString("latin1", 0, 3) === "ID3") {
+    const version: number = header[3];
+    const tagSize: number = syncSafeInt(header, 6);
+    audioStart = 10 + tagSize;
+    readId3v2Frames(readBytes(fd, 10, Math.min(tagSize, MAX_TAG_BYTES)), version, tags);
+  }
+
+  if (!tags.title && size > 128) {
+    readId3v1(readBytes(fd, size - 128, 128), tags);
+  }
+
+  if (!tags.duration_ms) {
+    tags.duration_ms = estimateMp3Duration(readBytes(fd, audioStart, 4096), size - audioStart);
+  }
+}
+
+function readId3v2Frames(data: Buffer, version: number, tags: AudioTags) {
+  // v2.2 uses 3 character ids and 3 byte sizes
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  const frameNames = {
+    TT2: "title",
+    TIT2: "title",
+    TP1: "artist",
+    TPE1: "artist",
+    TAL: "album",
+    TALB: "album",
+    TCO: "genre",
+    TCON: "genre",
+    TYE: "year",
+    TYER: "year",
+    // v2.4 recording time, i.e. 1999-05-01
+    TDRC: "year",
+    TLE: "length",
+    TLEN: "length",
+  };
+
+  let offset = 0;
+  while (offset + headerLength <= data.length) {
+    const id: string = data.toString("latin1", offset, offset + idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) {
+      // reached the padding
+      break;
+    }
+    let frameSize: number;
+    if (version === 2) {
+      frameSize = data.readUIntBE(offset + 3, 3);
+    } else if (version === 4) {
+      frameSize = syncSafeInt(data, offset + 4);
+    } else {
+      frameSize = data.readUInt32BE(offset + 4);
+    }
+    const start = offset + headerLength;
+    const end = Math.min(start + frameSize, data.length);
+    const name = frameNames[id];
+    if (name && end > start) {
+      const value = decodeId3Text(data.slice(start, end));
+      if (name === "length") {
+        tags.duration_ms = parseInt(value, 10) || 0;
+      } else if (name === "genre") {
+        tags.genre = cleanId3Genre(value);
+      } else if (name === "year") {
+        tags.year = value.substring(0, 4);
+      } else {
+        tags[name] = value;
+      }
+    }
+    offset = start + frameSize;
+  }
+}
+
+function readId3v1(data: Buffer, tags: AudioTags) {
+  if (data.toString("latin1", 0, 3) !== "TAG") {
+    return;
+  }
+  const field = (start: number, length: number) => data.toString("latin1", start, start + length).replace(/\0.*$/, "").trim();
+  tags.title = field(3, 30);
+  tags.artist = tags.artist || field(33, 30);
+  tags.album = tags.album || field(63, 30);
+  tags.year = tags.year || field(93, 4);
+}
+
+function decodeId3Text(frame: Buffer): string {
+  const encoding: number = frame[0];
+  const body: Buffer = frame.slice(1);
+  let text: string;
+  if (encoding === 1 || encoding === 2) {
+    text = decodeUtf16(body, encoding === 2);
+  } else if (encoding === 3) {
+    text = body.toString("utf8");
+  } else {
+    text = body.toString("latin1");
+  }
+  // multiple values are null separated in v2.4
+  return text.split("\0").filter((n) => !!n).join(", ").trim();
+}
+
+function decodeUtf16(body: Buffer, bigEndian: boolean): string {
+  let start = 0;
+  if (body.length >= 2 && body[0] === 0xff && body[1] === 0xfe) {
+    bigEndian = false;
+    start = 2;
+  } else if (body.length >= 2 && body[0] === 0xfe && body[1] === 0xff) {
+    bigEndian = true;
+    start = 2;
+  }
+  const chars: Buffer = Buffer.from(body.slice(start, start + ((body.length - start) & ~1)));
+  if (bigEndian) {
+    chars.swap16();
+  }
+  return chars.toString("utf16le");
+}
+
+function cleanId3Genre(genre: string): string {
+  // older taggers write "(17)" or "(17)Rock"
+  return genre.replace(/^\(\d+\)/, "").trim() || genre;
+}
+
+function estimateMp3Duration(data: Buffer, audioBytes: number): number {
+  for (let i = 0; i + 4 <= data.length; i++) {
+    if (data[i] !== 0xff || (data[i + 1] & 0xe0) !== 0xe0) {
+      continue;
+    }
+    const versionBits = (data[i + 1] >> 3) & 0x03;
+    const layerBits = (data[i + 1] >> 1) & 0x03;
+    const bitrateIndex = (data[i + 2] >> 4) & 0x0f;
+    if (layerBits !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || versionBits === 1) {
+      continue;
+    }
+    const kbps = versionBits === 3 ? MPEG1_L3_BITRATES[bitrateIndex] : MPEG2_L3_BITRATES[bitrateIndex];
+    // assumes a constant bitrate
+    return Math.round((audioBytes * 8) / kbps);
+  }
+  return 0;
+}
+
+function readFlacTags(fd, tags: AudioTags) {
+  if (readBytes(fd, 0, 4).toString("latin1") !== "fLaC") {
+    return;
+  }
+  let position = 4;
+  let isLast = false;
+  while (!isLast) {
+    const blockHeader: Buffer = readBytes(fd, position, 4);
+    if (blockHeader.length < 4) {
+      break;
+    }
+    isLast = (blockHeader[0] & 0x80) !== 0;
+    const blockType = blockHeader[0] & 0x7f;
+    const blockLength: number = blockHeader.readUIntBE(1, 3);
+    if (blockType === 0) {
+      const streamInfo: Buffer = readBytes(fd, position + 4, 18);
+      const sampleRate = (streamInfo[10] << 12) | (streamInfo[11] << 4) | (streamInfo[12] >> 4);
+      const totalSamples = (streamInfo[13] & 0x0f) * 0x100000000 + streamInfo.readUInt32BE(14);
+      if (sampleRate) {
+        tags.duration_ms = Math.round((totalSamples / sampleRate) * 1000);
+      }
+    } else if (blockType === 4) {
+      readVorbisComments(readBytes(fd, position + 4, Math.min(blockLength, MAX_TAG_BYTES)), 0, tags);
+    }
+    position += 4 + blockLength;
+  }
+}
+
+function readOggTags(fd, size: number, tags: AudioTags) {
+  const head: Buffer = readBytes(fd, 0, Math.min(size, MAX_TAG_BYTES));
+  let sampleRate = 48000;
+  const idHeader: number = head.indexOf("\x01vorbis", 0, "latin1");
+  if (idHeader >= 0) {
+    sampleRate = head.readUInt32LE(idHeader + 12);
+  }
+  const vorbisComments: number = head.indexOf("\x03vorbis", 0, "latin1");
+  const opusComments: number = head.indexOf("OpusTags", 0, "latin1");
+  if (vorbisComments >= 0) {
+    readVorbisComments(head, vorbisComments + 7, tags);
+  } else if (opusComments >= 0) {
+    readVorbisComments(head, opusComments + 8, tags);
+  }
+
+  // the granule position of the last page is the total sample count
+  const tail: Buffer = readBytes(fd, Math.max(size - OGG_TAIL_BYTES, 0), OGG_TAIL_BYTES);
+  const lastPage: number = tail.lastIndexOf("OggS", tail.length, "latin1");
+  if (lastPage >= 0 && lastPage + 14 <= tail.length && sampleRate) {
+    const granule = tail.readUInt32LE(lastPage + 6) + tail.readUInt32LE(lastPage + 10) * 0x100000000;
+    tags.duration_ms = Math.round((granule / sampleRate) * 1000);
+  }
+}
+
+function readVorbisComments(data: Buffer, offset: number, tags: AudioTags) {
+  const vendorLength: number = data.readUInt32LE(offset);
+  offset += 4 + vendorLength;
+  const count: number = data.readUInt32LE(offset);
+  offset += 4;
+  for (let i = 0; i < count && offset + 4 <= data.length; i++) {
+    const length: number = data.readUInt32LE(offset);
+    const comment: string = data.toString("utf8", offset + 4, Math.min(offset + 4 + length, data.length));
+    offset += 4 + length;
+    const separator = comment.indexOf("=");
+    const key = comment.substring(0, separator).toUpperCase();
+    const value = comment.substring(separator + 1).trim();
+    if (key === "TITLE") {
+      tags.title = value;
+    } else if (key === "ARTIST") {
+      // repeated artist fields are joined
+      tags.artist = tags.artist ? `${tags.artist}, ${value}` : value;
+    } else if (key === "ALBUM") {
+      tags.album = value;
+    } else if (key === "GENRE") {
+      tags.genre = tags.genre || value;
+    } else if (key === "DATE") {
+      tags.year = value.substring(0, 4);
+    }
+  }
+}
+
+function syncSafeInt(buffer: Buffer, offset: number): number {
+  return ((buffer[offset] & 0x7f) << 21) | ((buffer[offset + 1] & 0x7f) << 14) | ((buffer[offset + 2] & 0x7f) << 7) | (buffer[offset + 3] & 0x7f);
+}
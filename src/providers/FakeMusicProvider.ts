@@ -0,0 +1,349 @@
+import { PlayerContext, PlayerDevice, PlaylistItem, PlaylistTrackInfo, Track, TrackStatus } from "cody-music";
+import { SPOTIFY_LIKED_SONGS_PLAYLIST_ID, SPOTIFY_LIKED_SONGS_PLAYLIST_NAME } from "../Constants";
+import { matchesSearchQuery, parseSearchQuery, ParsedSearchQuery, SearchResults, SearchResultType } from "./SearchQuery";
+import { ArtistInfo, MusicProvider, MusicProviderUser, PlaylistDetails, QUEUE_LIMIT, RecommendationInfo } from "./MusicProvider";
+
+export interface FakeMusicData {
+  user: MusicProviderUser;
+  playlists: PlaylistItem[];
+  // tracks by playlist id
+  tracks: any;
+  liked_ids: string[];
+}
+
+/**
+ * An in memory provider that lets the sidebar and status bar run
+ * without a music account. Used by the tests and offline demos.
+ */
+export class FakeMusicProvider implements MusicProvider {
+  readonly id: string = "fake";
+  readonly displayName: string = "Demo Music";
+
+  private data: FakeMusicData;
+  private device: PlayerDevice;
+  private currentTrack: PlaylistItem = undefined;
+  private currentTracks: PlaylistItem[] = [];
+  // tracks added with add to queue, played before the rest of currentTracks
+  private queue: PlaylistItem[] = [];
+  // position in currentTracks while a queued track plays
+  private contextIdx: number = -1;
+  private isPlaying: boolean = false;
+  private progressMs: number = 0;
+
+  constructor(data: FakeMusicData = createDemoMusicData()) {
+    this.data = data;
+    this.device = { id: "fake-device", is_active: "true", is_restricted: false, name: "Demo Player", type: "Computer", volume_percent: 50 };
+  }
+
+  hasUser(): boolean {
+    return !!this.data.user;
+  }
+
+  async getUser(): Promise<MusicProviderUser> {
+    return this.data.user;
+  }
+
+  async requiresAccess(): Promise<boolean> {
+    return !this.data.user;
+  }
+
+  async requiresReAuthentication(): Promise<boolean> {
+    return false;
+  }
+
+  async getPlaylists(): Promise<PlaylistItem[]> {
+    return this.data.playlists;
+  }
+
+  async getPlaylistTracks(playlist_id: string): Promise<PlaylistItem[]> {
+    if (playlist_id === SPOTIFY_LIKED_SONGS_PLAYLIST_ID) {
+      return await this.getLikedTracks();
+    }
+    return this.data.tracks[playlist_id] ?? [];
+  }
+
+  async getTrack(playlist_id: string, track_id: string): Promise<PlaylistItem> {
+    if (!track_id) {
+      return this.currentTrack;
+    }
+    return this.getAllTracks().find((n) => n.id === track_id);
+  }
+
+  getLikedPlaylist(): PlaylistItem {
+    const item: PlaylistItem = new PlaylistItem();
+    item.type = "playlist";
+    item.itemType = "playlist";
+    item.id = SPOTIFY_LIKED_SONGS_PLAYLIST_ID;
+    item.name = SPOTIFY_LIKED_SONGS_PLAYLIST_NAME;
+    item.tracks = new PlaylistTrackInfo();
+    item.tracks.total = this.data.liked_ids.length;
+    return item;
+  }
+
+  async getLikedTracks(): Promise<PlaylistItem[]> {
+    return this.getAllTracks().filter((n) => this.data.liked_ids.includes(n.id));
+  }
+
+  async isLiked(track_id: string): Promise<boolean> {
+    return this.data.liked_ids.includes(track_id);
+  }
+
+  async setLiked(track: PlaylistItem, liked: boolean): Promise<void> {
+    const trackId = track?.id ?? this.currentTrack?.id;
+    this.data.liked_ids = this.data.liked_ids.filter((id) => id !== trackId);
+    if (liked && trackId) {
+      this.data.liked_ids.push(trackId);
+    }
+  }
+
+  async getDevices(): Promise<PlayerDevice[]> {
+    return [this.device];
+  }
+
+  getActiveDevice(): PlayerDevice {
+    return this.device;
+  }
+
+  async getRunningTrack(): Promise<Track> {
+    const track: Track = new Track();
+    if (this.currentTrack) {
+      track.id = this.currentTrack.id;
+      track.name = this.currentTrack.name;
+      track.artist = this.currentTrack.artist;
+      track.state = this.isPlaying ? TrackStatus.Playing : TrackStatus.Paused;
+    }
+    return track;
+  }
+
+  async getPlayerContext(useSharedState: boolean = false): Promise<PlayerContext> {
+    const playerContext: PlayerContext = new PlayerContext();
+    playerContext.device = this.device;
+    playerContext.is_playing = this.isPlaying;
+    playerContext.item = this.currentTrack ? { ...this.currentTrack } : null;
+    playerContext.progress_ms = `${this.progressMs}`;
+    playerContext.repeat_state = "off";
+    playerContext.shuffle_state = false;
+    return playerContext;
+  }
+
+  async play(): Promise<void> {
+    if (!this.currentTrack) {
+      this.currentTracks = this.getAllTracks();
+      this.currentTrack = this.currentTracks[0];
+    }
+    this.isPlaying = !!this.currentTrack;
+  }
+
+  async pause(): Promise<void> {
+    this.isPlaying = false;
+  }
+
+  async next(): Promise<void> {
+    await this.moveCurrentTrack(1);
+  }
+
+  async previous(): Promise<void> {
+    await this.moveCurrentTrack(-1);
+  }
+
+  async playTrack(track: PlaylistItem): Promise<void> {
+    this.currentTracks = this.data.tracks[track["playlist_id"]] ?? this.getAllTracks();
+    this.currentTrack = this.currentTracks.find((n) => n.id === track.id) ?? track;
+    this.progressMs = 0;
+    this.isPlaying = true;
+  }
+
+  async seek(position_ms: number): Promise<void> {
+    this.progressMs = position_ms;
+  }
+
+  async setVolume(percent: number): Promise<void> {
+    this.device.volume_percent = Math.min(Math.max(percent, 0), 100);
+  }
+
+  canEditPlaylist(playlist: PlaylistItem): boolean {
+    return playlist?.id !== SPOTIFY_LIKED_SONGS_PLAYLIST_ID && !!this.data.playlists.find((n) => n.id === playlist?.id);
+  }
+
+  async reorderPlaylistTrack(playlist_id: string, from_index: number, to_index: number): Promise<boolean> {
+    const tracks: PlaylistItem[] = this.data.tracks[playlist_id];
+    if (!tracks?.[from_index] || to_index < 0 || to_index >= tracks.length) {
+      return false;
+    }
+    tracks.splice(to_index, 0, ...tracks.splice(from_index, 1));
+    return true;
+  }
+
+  async updatePlaylistDetails(playlist_id: string, details: PlaylistDetails): Promise<boolean> {
+    const playlist: PlaylistItem = this.data.playlists.find((n) => n.id === playlist_id);
+    if (!playlist) {
+      return false;
+    }
+    Object.assign(playlist, details);
+    return true;
+  }
+
+  async uploadPlaylistCover(playlist_id: string, image_base64: string): Promise<boolean> {
+    const playlist: PlaylistItem = this.data.playlists.find((n) => n.id === playlist_id);
+    if (playlist) {
+      playlist["images"] = [{ url: `data:image/jpeg;base64,${image_base64}` }];
+    }
+    return !!playlist;
+  }
+
+  async deletePlaylist(playlist_id: string): Promise<boolean> {
+    const count: number = this.data.playlists.length;
+    this.data.playlists = this.data.playlists.filter((n) => n.id !== playlist_id);
+    delete this.data.tracks[playlist_id];
+    return this.data.playlists.length < count;
+  }
+
+  async setLikedTracks(tracks: PlaylistItem[], liked: boolean): Promise<PlaylistItem[]> {
+    for (const track of tracks) {
+      await this.setLiked(track, liked);
+    }
+    return [];
+  }
+
+  async addTracksToPlaylist(playlist_id: string, tracks: PlaylistItem[]): Promise<PlaylistItem[]> {
+    const playlistTracks: PlaylistItem[] = this.data.tracks[playlist_id];
+    if (!playlistTracks) {
+      return tracks;
+    }
+    const added: PlaylistItem[] = tracks.filter((n) => !playlistTracks.find((track) => track.id === n.id));
+    playlistTracks.push(...added.map((n) => ({ ...n, playlist_id })));
+    return [];
+  }
+
+  async removeTracksFromPlaylist(playlist_id: string, tracks: PlaylistItem[]): Promise<PlaylistItem[]> {
+    if (!this.data.tracks[playlist_id]) {
+      return tracks;
+    }
+    this.data.tracks[playlist_id] = this.data.tracks[playlist_id].filter((n) => !tracks.find((track) => track.id === n.id));
+    return [];
+  }
+
+  async getQueue(): Promise<PlaylistItem[]> {
+    const upcoming: PlaylistItem[] = this.currentTracks.slice(this.getContextIndex() + 1);
+    return [...this.queue, ...upcoming].slice(0, QUEUE_LIMIT);
+  }
+
+  canPlayNext(): boolean {
+    return true;
+  }
+
+  async addToQueue(track: PlaylistItem, playNext: boolean = false): Promise<boolean> {
+    if (playNext) {
+      this.queue.unshift(track);
+    } else {
+      this.queue.push(track);
+    }
+    return true;
+  }
+
+  async search(query: string, type: SearchResultType, offset: number, limit: number): Promise<SearchResults> {
+    const parsedQuery: ParsedSearchQuery = parseSearchQuery(query);
+    let items: PlaylistItem[] = [];
+    if (type === "track") {
+      items = this.getAllTracks().filter((n) => matchesSearchQuery(n, parsedQuery));
+    } else if (type === "playlist") {
+      items = this.data.playlists.filter((n) => n.name.toLowerCase().includes(parsedQuery.text));
+    }
+    return { items: items.slice(offset, offset + limit), total: items.length };
+  }
+
+  async getAlbumTracks(album: PlaylistItem): Promise<PlaylistItem[]> {
+    return [];
+  }
+
+  async getArtistTopTracks(artist: PlaylistItem): Promise<PlaylistItem[]> {
+    return this.getAllTracks().filter((n) => n.artist === artist.name);
+  }
+
+  async getArtistInfo(artist: PlaylistItem): Promise<ArtistInfo> {
+    return { artist, top_tracks: await this.getArtistTopTracks(artist), albums: [], singles: [], related_artists: [] };
+  }
+
+  getRecommendationInfo(): RecommendationInfo {
+    return { label: "Familiar", tracks: this.getAllTracks().filter((n) => !this.data.liked_ids.includes(n.id)) };
+  }
+
+  async getAudioMetrics(): Promise<any> {
+    return {};
+  }
+
+  private getAllTracks(): PlaylistItem[] {
+    const tracks: PlaylistItem[] = [];
+    Object.keys(this.data.tracks).forEach((playlist_id) => {
+      this.data.tracks[playlist_id].forEach((track: PlaylistItem) => {
+        if (!tracks.find((n) => n.id === track.id)) {
+          tracks.push(track);
+        }
+      });
+    });
+    return tracks;
+  }
+
+  private getContextIndex(): number {
+    const idx = this.currentTracks.findIndex((n) => n.id === this.currentTrack?.id);
+    return idx !== -1 ? idx : this.contextIdx;
+  }
+
+  private async moveCurrentTrack(offset: number) {
+    if (!this.currentTracks.length) {
+      return await this.play();
+    }
+    const idx = this.getContextIndex();
+    if (offset > 0 && this.queue.length) {
+      this.currentTrack = this.queue.shift();
+    } else {
+      const nextIdx = (idx + offset + this.currentTracks.length) % this.currentTracks.length;
+      this.currentTrack = this.currentTracks[nextIdx];
+    }
+    this.contextIdx = idx;
+    this.progressMs = 0;
+    this.isPlaying = true;
+  }
+}
+
+export function createDemoMusicData(): FakeMusicData {
+  const playlists: PlaylistItem[] = [createDemoPlaylist("demo-focus", "Focus"), createDemoPlaylist("demo-chill", "Chill")];
+  return {
+    user: { id: "demo-user", display_name: "Demo User" },
+    playlists,
+    tracks: {
+      "demo-focus": [
+        createDemoTrack("demo-1", "Deep Work", "The Compilers", "demo-focus"),
+        createDemoTrack("demo-2", "Null Pointer", "Stack Trace", "demo-focus"),
+        createDemoTrack("demo-3", "Refactor", "The Compilers", "demo-focus"),
+      ],
+      "demo-chill": [
+        createDemoTrack("demo-4", "Code Review", "Lo-fi Linters", "demo-chill"),
+        createDemoTrack("demo-5", "Merge Conflict", "Lo-fi Linters", "demo-chill"),
+      ],
+    },
+    liked_ids: ["demo-1", "demo-4"],
+  };
+}
+
+function createDemoPlaylist(id: string, name: string): PlaylistItem {
+  const item: PlaylistItem = new PlaylistItem();
+  item.type = "playlist";
+  item.itemType = "playlist";
+  item.id = id;
+  item.name = name;
+  item.tracks = new PlaylistTrackInfo();
+  return item;
+}
+
+function createDemoTrack(id: string, name: string, artist: string, playlist_id: string): PlaylistItem {
+  const item: PlaylistItem = new PlaylistItem();
+  item.type = "track";
+  item.itemType = "track";
+  item.id = id;
+  item.name = name;
+  item.artist = artist;
+  item["playlist_id"] = playlist_id;
+  item["description"] = artist;
+  return item;
+}
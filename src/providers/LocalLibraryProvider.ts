@@ -0,0 +1,531 @@
+import { PlayerContext, PlayerDevice, PlaylistItem, PlaylistTrackInfo, Track, TrackStatus } from "cody-music";
+import { window } from "vscode";
+import { SPOTIFY_LIKED_SONGS_PLAYLIST_ID, SPOTIFY_LIKED_SONGS_PLAYLIST_NAME } from "../Constants";
+import { getSettings } from "../managers/SettingsManager";
+import { MusicCommandManager } from "../music/MusicCommandManager";
+import { getItem, logIt, setItem } from "../Util";
+import { AudioTags, AUDIO_FILE_EXTENSIONS, readAudioTags } from "./AudioTagReader";
+import { LocalPlayer } from "./LocalPlayer";
+import { matchesSearchQuery, parseSearchQuery, ParsedSearchQuery, SearchResults, SearchResultType } from "./SearchQuery";
+import { ArtistInfo, MusicProvider, MusicProviderUser, PlaylistDetails, QUEUE_LIMIT, RecommendationInfo } from "./MusicProvider";
+
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const crypto = require("crypto");
+
+const FOLDER_PLAYLIST_PREFIX = "local-folder-";
+const ARTIST_PLAYLIST_PREFIX = "local-artist-";
+const RELATED_ARTIST_LIMIT = 10;
+const DEFAULT_LOCAL_VOLUME = 70;
+
+interface LocalLibrary {
+  folder: string;
+  tracks: PlaylistItem[];
+  playlists: PlaylistItem[];
+  // tracks by playlist id
+  playlistTracks: any;
+}
+
+/**
+ * Plays the MP3, FLAC and OGG files of a local folder. Playlists are
+ * built from the sub folders and the artist tags. Needs no account
+ * or network, only mpv or ffplay on the path.
+ */
+export class LocalLibraryProvider implements MusicProvider {
+  readonly id: string = "local";
+  readonly displayName: string = "Local music library";
+
+  private library: LocalLibrary = undefined;
+  private indexing: Promise<LocalLibrary> = undefined;
+  private player: LocalPlayer;
+  private device: PlayerDevice;
+  private currentTrack: PlaylistItem = undefined;
+  private currentTracks: PlaylistItem[] = [];
+  // tracks added with add to queue, played before the rest of currentTracks
+  private queue: PlaylistItem[] = [];
+  // position in currentTracks while a queued track plays
+  private contextIdx: number = -1;
+
+  constructor() {
+    this.player = new LocalPlayer(
+      () => this.onTrackEnded(),
+      () => this.onPlaybackFailed()
+    );
+    this.device = {
+      id: "local-player",
+      is_active: "",
+      is_restricted: false,
+      name: "Local player",
+      type: "Computer",
+      volume_percent: getItem("localLibraryVolume") ?? DEFAULT_LOCAL_VOLUME,
+    };
+  }
+
+  hasUser(): boolean {
+    return !!getLocalMusicFolder();
+  }
+
+  async getUser(): Promise<MusicProviderUser> {
+    // there's no account, the library folder stands in for the user
+    return this.hasUser() ? { id: getLocalMusicFolder(), display_name: os.userInfo().username } : null;
+  }
+
+  async requiresAccess(): Promise<boolean> {
+    return false;
+  }
+
+  async requiresReAuthentication(): Promise<boolean> {
+    return false;
+  }
+
+  async getPlaylists(): Promise<PlaylistItem[]> {
+    return (await this.getLibrary()).playlists;
+  }
+
+  async getPlaylistTracks(playlist_id: string): Promise<PlaylistItem[]> {
+    if (playlist_id === SPOTIFY_LIKED_SONGS_PLAYLIST_ID) {
+      return await this.getLikedTracks();
+    }
+    return (await this.getLibrary()).playlistTracks[playlist_id] ?? [];
+  }
+
+  async getTrack(playlist_id: string, track_id: string): Promise<PlaylistItem> {
+    if (!track_id) {
+      return this.currentTrack;
+    }
+    const tracks: PlaylistItem[] = playlist_id ? await this.getPlaylistTracks(playlist_id) : [];
+    return tracks.find((n) => n.id === track_id) ?? (await this.getLibrary()).tracks.find((n) => n.id === track_id);
+  }
+
+  getLikedPlaylist(): PlaylistItem {
+    const item: PlaylistItem = new PlaylistItem();
+    item.type = "playlist";
+    item.itemType = "playlist";
+    item.id = SPOTIFY_LIKED_SONGS_PLAYLIST_ID;
+    item.name = SPOTIFY_LIKED_SONGS_PLAYLIST_NAME;
+    item.tracks = new PlaylistTrackInfo();
+    item.tracks.total = getLikedIds().length;
+    return item;
+  }
+
+  async getLikedTracks(): Promise<PlaylistItem[]> {
+    const likedIds: string[] = getLikedIds();
+    return (await this.getLibrary()).tracks
+      .filter((n) => likedIds.includes(n.id))
+      .map((n) => {
+        return { ...n, playlist_id: SPOTIFY_LIKED_SONGS_PLAYLIST_ID };
+      });
+  }
+
+  async isLiked(track_id: string): Promise<boolean> {
+    return getLikedIds().includes(track_id);
+  }
+
+  async setLiked(track: PlaylistItem, liked: boolean): Promise<void> {
+    const trackId = track?.id ?? this.currentTrack?.id;
+    const likedIds: string[] = getLikedIds().filter((id) => id !== trackId);
+    if (liked && trackId) {
+      likedIds.push(trackId);
+    }
+    setItem("localLibraryLikedIds", likedIds);
+    MusicCommandManager.syncControls();
+  }
+
+  async getDevices(): Promise<PlayerDevice[]> {
+    return [this.getActiveDevice()];
+  }
+
+  getActiveDevice(): PlayerDevice {
+    this.device.is_active = this.player.isPlaying() ? "true" : "";
+    return this.device;
+  }
+
+  async getRunningTrack(): Promise<Track> {
+    const track: Track = new Track();
+    if (this.currentTrack) {
+      track.id = this.currentTrack.id;
+      track.name = this.currentTrack.name;
+      track.artist = this.currentTrack.artist;
+      track.artist_names = [this.currentTrack.artist];
+      track.album = this.currentTrack["album"];
+      track.genre = this.currentTrack["genre"];
+      track.uri = this.currentTrack.uri;
+      track.duration_ms = this.currentTrack["duration_ms"];
+      track.progress_ms = this.player.getPositionMs();
+      track.state = this.player.isPlaying() ? TrackStatus.Playing : TrackStatus.Paused;
+    }
+    return track;
+  }
+
+  async getPlayerContext(useSharedState: boolean = false): Promise<PlayerContext> {
+    const track: Track = await this.getRunningTrack();
+    const playerContext: PlayerContext = new PlayerContext();
+    playerContext.device = this.getActiveDevice();
+    playerContext.is_playing = this.player.isPlaying();
+    playerContext.item = track.id ? track : null;
+    playerContext.progress_ms = `${track.progress_ms ?? 0}`;
+    playerContext.repeat_state = "off";
+    playerContext.shuffle_state = false;
+    return playerContext;
+  }
+
+  async play(): Promise<void> {
+    if (!this.currentTrack) {
+      this.currentTracks = (await this.getLibrary()).tracks;
+      this.currentTrack = this.currentTracks[0];
+    }
+    if (this.currentTrack) {
+      await this.startPlayer(this.player.getPositionMs());
+    }
+  }
+
+  async pause(): Promise<void> {
+    this.player.pause();
+    MusicCommandManager.syncControls();
+  }
+
+  async next(): Promise<void> {
+    await this.moveCurrentTrack(1);
+  }
+
+  async previous(): Promise<void> {
+    await this.moveCurrentTrack(-1);
+  }
+
+  async playTrack(track: PlaylistItem): Promise<void> {
+    const playlistTracks: PlaylistItem[] = track["playlist_id"] ? await this.getPlaylistTracks(track["playlist_id"]) : [];
+    this.currentTracks = playlistTracks.length ? playlistTracks : (await this.getLibrary()).tracks;
+    this.currentTrack = this.currentTracks.find((n) => n.id === track.id) ?? track;
+    await this.startPlayer(0);
+  }
+
+  async seek(position_ms: number): Promise<void> {
+    if (this.player.isPlaying()) {
+      await this.startPlayer(position_ms);
+    } else {
+      this.player.setPositionMs(position_ms);
+    }
+  }
+
+  async setVolume(percent: number): Promise<void> {
+    this.device.volume_percent = Math.min(Math.max(percent, 0), 100);
+    setItem("localLibraryVolume", this.device.volume_percent);
+    if (this.player.isPlaying()) {
+      // the volume is a start option of the player process
+      await this.startPlayer(this.player.getPositionMs());
+    }
+  }
+
+  // the playlists come from the folders and the artist tags
+  canEditPlaylist(playlist: PlaylistItem): boolean {
+    return false;
+  }
+
+  async reorderPlaylistTrack(playlist_id: string, from_index: number, to_index: number): Promise<boolean> {
+    return false;
+  }
+
+  async updatePlaylistDetails(playlist_id: string, details: PlaylistDetails): Promise<boolean> {
+    return false;
+  }
+
+  async uploadPlaylistCover(playlist_id: string, image_base64: string): Promise<boolean> {
+    return false;
+  }
+
+  async deletePlaylist(playlist_id: string): Promise<boolean> {
+    return false;
+  }
+
+  async setLikedTracks(tracks: PlaylistItem[], liked: boolean): Promise<PlaylistItem[]> {
+    const trackIds: string[] = tracks.map((n) => n.id);
+    const likedIds: string[] = getLikedIds().filter((id) => !trackIds.includes(id));
+    setItem("localLibraryLikedIds", liked ? [...likedIds, ...trackIds] : likedIds);
+    MusicCommandManager.syncControls();
+    return [];
+  }
+
+  // the playlists are built from the folders and tags
+  async addTracksToPlaylist(playlist_id: string, tracks: PlaylistItem[]): Promise<PlaylistItem[]> {
+    return tracks;
+  }
+
+  async removeTracksFromPlaylist(playlist_id: string, tracks: PlaylistItem[]): Promise<PlaylistItem[]> {
+    return tracks;
+  }
+
+  async getQueue(): Promise<PlaylistItem[]> {
+    const upcoming: PlaylistItem[] = this.currentTracks.slice(this.getContextIndex() + 1);
+    return [...this.queue, ...upcoming].slice(0, QUEUE_LIMIT);
+  }
+
+  canPlayNext(): boolean {
+    return true;
+  }
+
+  async addToQueue(track: PlaylistItem, playNext: boolean = false): Promise<boolean> {
+    if (playNext) {
+      this.queue.unshift(track);
+    } else {
+      this.queue.push(track);
+    }
+    return true;
+  }
+
+  async search(query: string, type: SearchResultType, offset: number, limit: number): Promise<SearchResults> {
+    const library: LocalLibrary = await this.getLibrary();
+    const parsedQuery: ParsedSearchQuery = parseSearchQuery(query);
+    const tracks: PlaylistItem[] = library.tracks.filter((n) => matchesSearchQuery(n, parsedQuery));
+    let items: PlaylistItem[] = [];
+    if (type === "track") {
+      items = tracks;
+    } else if (type === "album") {
+      items = groupTracks(tracks, "album", (track) => createSearchItem("album", hashId(`${track["album"]}:${track.artist}`), track["album"], track.artist));
+    } else if (type === "artist") {
+      items = groupTracks(tracks, "artist", (track) => createSearchItem("artist", getArtistPlaylistId(track.artist), track.artist, ""));
+    } else {
+      // the folders, the artists are listed on their own
+      items = library.playlists.filter((n) => n.id.startsWith(FOLDER_PLAYLIST_PREFIX) && n.name.toLowerCase().includes(parsedQuery.text));
+    }
+    return { items: items.slice(offset, offset + limit), total: items.length };
+  }
+
+  async getAlbumTracks(album: PlaylistItem): Promise<PlaylistItem[]> {
+    return (await this.getLibrary()).tracks.filter((n) => n["album"] === album.name && n.artist === album.artist);
+  }
+
+  async getArtistTopTracks(artist: PlaylistItem): Promise<PlaylistItem[]> {
+    return (await this.getLibrary()).playlistTracks[artist.id] ?? [];
+  }
+
+  /**
+   * The albums come from the track tags. Artists that share a genre
+   * with the artist are listed as related.
+   */
+  async getArtistInfo(artist: PlaylistItem): Promise<ArtistInfo> {
+    const library: LocalLibrary = await this.getLibrary();
+    const artistItem: PlaylistItem = createSearchItem("artist", getArtistPlaylistId(artist.name), artist.name, "");
+    const tracks: PlaylistItem[] = library.playlistTracks[artistItem.id] ?? [];
+    const albums: PlaylistItem[] = groupTracks(tracks, "album", (track) =>
+      createSearchItem("album", hashId(`${track["album"]}:${track.artist}`), track["album"], track.artist)
+    );
+    const genres: string[] = tracks.map((n) => n["genre"]).filter((n) => !!n);
+    const related_artists: PlaylistItem[] = groupTracks(
+      library.tracks.filter((n) => n.artist !== artist.name && genres.includes(n["genre"])),
+      "artist",
+      (track) => createSearchItem("artist", getArtistPlaylistId(track.artist), track.artist, track["genre"])
+    ).slice(0, RELATED_ARTIST_LIMIT);
+    return { artist: artistItem, top_tracks: tracks, albums, singles: [], related_artists };
+  }
+
+  getRecommendationInfo(): RecommendationInfo {
+    return { label: "", tracks: [] };
+  }
+
+  async getAudioMetrics(): Promise<any> {
+    return {};
+  }
+
+  /**
+   * Drop the index so the next request rescans the folder
+   */
+  resetLibrary() {
+    this.library = undefined;
+    this.indexing = undefined;
+  }
+
+  dispose() {
+    this.player.stop();
+  }
+
+  private async getLibrary(): Promise<LocalLibrary> {
+    const folder: string = getLocalMusicFolder();
+    if (this.library?.folder === folder) {
+      return this.library;
+    }
+    if (!this.indexing) {
+      this.indexing = indexLocalLibrary(folder).then((library: LocalLibrary) => {
+        this.library = library;
+        this.indexing = undefined;
+        return library;
+      });
+    }
+    return await this.indexing;
+  }
+
+  private async startPlayer(start_ms: number) {
+    const file: string = this.currentTrack["file"];
+    const started: boolean = file ? await this.player.play(file, start_ms, this.device.volume_percent) : false;
+    if (!started) {
+      window.showInformationMessage("Install mpv or ffplay to play your local music library.");
+    }
+    MusicCommandManager.syncControls();
+  }
+
+  private getContextIndex(): number {
+    const idx = this.currentTracks.findIndex((n) => n.id === this.currentTrack?.id);
+    return idx !== -1 ? idx : this.contextIdx;
+  }
+
+  private async moveCurrentTrack(offset: number) {
+    if (!this.currentTracks.length) {
+      return await this.play();
+    }
+    const idx = this.getContextIndex();
+    if (offset > 0 && this.queue.length) {
+      this.currentTrack = this.queue.shift();
+    } else {
+      const nextIdx = (idx + offset + this.currentTracks.length) % this.currentTracks.length;
+      this.currentTrack = this.currentTracks[nextIdx];
+    }
+    this.contextIdx = idx;
+    await this.startPlayer(0);
+  }
+
+  private onTrackEnded() {
+    this.next();
+  }
+
+  private onPlaybackFailed() {
+    // the player is already stopped, the controls show it as paused
+    MusicCommandManager.syncControls();
+    window.showErrorMessage(
+      `Music Time stopped playing because several tracks in a row couldn't be played. Check that mpv or ffplay can play the files in ${getLocalMusicFolder()}.`
+    );
+  }
+}
+
+export function getLocalMusicFolder(): string {
+  return getSettings().localMusicFolder;
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+function getLikedIds(): string[] {
+  return getItem("localLibraryLikedIds") ?? [];
+}
+
+async function indexLocalLibrary(folder: string): Promise<LocalLibrary> {
+  const library: LocalLibrary = { folder, tracks: [], playlists: [], playlistTracks: {} };
+  if (!folder || !fs.existsSync(folder)) {
+    return library;
+  }
+
+  const files: string[] = findAudioFiles(folder);
+  const artistPlaylists = {};
+  for (let i = 0; i < files.length; i++) {
+    const track: PlaylistItem = createLocalTrack(folder, files[i]);
+    library.tracks.push(track);
+
+    const folderName: string = path.relative(folder, path.dirname(files[i])) || path.basename(folder);
+    addToPlaylist(library, `${FOLDER_PLAYLIST_PREFIX}${hashId(folderName)}`, folderName, track);
+    if (track.artist) {
+      const artistPlaylistId = getArtistPlaylistId(track.artist);
+      artistPlaylists[artistPlaylistId] = track.artist;
+      addToPlaylist(library, artistPlaylistId, track.artist, track);
+    }
+    if (i % 50 === 0) {
+      // let the extension host breathe while reading the tags
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  }
+
+  // folders first, then artists
+  library.playlists.sort((a: PlaylistItem, b: PlaylistItem) => {
+    const aIsArtist = !!artistPlaylists[a.id];
+    const bIsArtist = !!artistPlaylists[b.id];
+    return aIsArtist === bIsArtist ? a.name.localeCompare(b.name) : aIsArtist ? 1 : -1;
+  });
+  logIt(`Indexed ${library.tracks.length} local tracks in ${folder}`);
+  return library;
+}
+
+function findAudioFiles(dir: string): string[] {
+  const files: string[] = [];
+  let entries = [];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch (e) {
+    logIt(`Unable to read ${dir}. ${e.message}`);
+  }
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory() && !entry.name.startsWith(".")) {
+      files.push(...findAudioFiles(file));
+    } else if (entry.isFile() && AUDIO_FILE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+      files.push(file);
+    }
+  }
+  return files;
+}
+
+function createLocalTrack(folder: string, file: string): PlaylistItem {
+  const tags: AudioTags = readAudioTags(file);
+  const item: PlaylistItem = new PlaylistItem();
+  item.type = "track";
+  item.itemType = "track";
+  // stable across rescans and safe to put in the sidebar html
+  item.id = hashId(path.relative(folder, file));
+  item.uri = `file://${file}`;
+  item.name = tags.title;
+  item.artist = tags.artist;
+  item["album"] = tags.album;
+  item["genre"] = tags.genre;
+  item["year"] = tags.year;
+  item["duration_ms"] = tags.duration_ms;
+  item["file"] = file;
+  item["description"] = tags.artist || tags.album;
+  return item;
+}
+
+/**
+ * One search result per distinct album or artist of the tracks
+ */
+function groupTracks(tracks: PlaylistItem[], field: string, createItem: (track: PlaylistItem) => PlaylistItem): PlaylistItem[] {
+  const items = {};
+  tracks.forEach((track: PlaylistItem) => {
+    const item: PlaylistItem = track[field] ? createItem(track) : null;
+    if (item && !items[item.id]) {
+      items[item.id] = item;
+    }
+  });
+  return Object.keys(items).map((id) => items[id]);
+}
+
+function createSearchItem(type: string, id: string, name: string, artist: string): PlaylistItem {
+  const item: PlaylistItem = new PlaylistItem();
+  item.type = type;
+  item.itemType = type;
+  item.id = id;
+  item.name = name;
+  item.artist = artist;
+  item["description"] = artist;
+  return item;
+}
+
+function addToPlaylist(library: LocalLibrary, playlist_id: string, name: string, track: PlaylistItem) {
+  if (!library.playlistTracks[playlist_id]) {
+    const playlist: PlaylistItem = new PlaylistItem();
+    playlist.type = "playlist";
+    playlist.itemType = "playlist";
+    playlist.id = playlist_id;
+    playlist.name = name;
+    playlist.tracks = new PlaylistTrackInfo();
+    library.playlists.push(playlist);
+    library.playlistTracks[playlist_id] = [];
+  }
+  library.playlistTracks[playlist_id].push({ ...track, playlist_id });
+  library.playlists.find((n) => n.id === playlist_id).tracks.total = library.playlistTracks[playlist_id].length;
+}
+
+function hashId(value: string): string {
+  return crypto.createHash("md5").update(value).digest("hex");
+}
+
+function getArtistPlaylistId(artist: string): string {
+  return `${ARTIST_PLAYLIST_PREFIX}${hashId(artist)}`;
+}
@@ -0,0 +1,149 @@
+import { logIt } from "../Util";
+
+const { spawn } = require("child_process");
+
+interface PlayerCommand {
+  name: string;
+  args: (file: string, start_ms: number, volume: number) => string[];
+}
+
+// command line players that can start at an offset and volume
+const PLAYER_COMMANDS: PlayerCommand[] = [
+  {
+    name: "mpv",
+    args: (file, start_ms, volume) => ["--no-video", "--really-quiet", `--start=${start_ms / 1000}`, `--volume=${volume}`, file],
+  },
+  {
+    name: "ffplay",
+    args: (file, start_ms, volume) => ["-nodisp", "-autoexit", "-loglevel", "quiet", "-ss", `${start_ms / 1000}`, "-volume", `${volume}`, file],
+  },
+];
+// a player that exits sooner couldn't play the file
+const MIN_TRACK_RUN_MILLIS = 2000;
+// stop moving to the next track after this many files fail in a row
+const MAX_FAILED_TRACKS = 3;
+
+/**
+ * Plays a single audio file through a child player process. Pausing stops
+ * the process and resuming starts a new one at the paused position.
+ */
+export class LocalPlayer {
+  private process = undefined;
+  private playerCommand: PlayerCommand = undefined;
+  private file: string = undefined;
+  // position when the process was started or paused
+  private offsetMs: number = 0;
+  private startedAt: number = 0;
+  private failedTracks: number = 0;
+  private onEnded: () => void;
+  private onFailed: () => void;
+
+  /**
+   * @param onEnded called when a track plays to the end or fails to play, to move to the next one
+   * @param onFailed called instead once several tracks in a row fail to play
+   */
+  constructor(onEnded: () => void, onFailed: () => void) {
+    this.onEnded = onEnded;
+    this.onFailed = onFailed;
+  }
+
+  isPlaying(): boolean {
+    return !!this.process;
+  }
+
+  getPositionMs(): number {
+    return this.process ? this.offsetMs + (Date.now() - this.startedAt) : this.offsetMs;
+  }
+
+  getFile(): string {
+    return this.file;
+  }
+
+  /**
+   * Move the position of a paused track
+   */
+  setPositionMs(position_ms: number) {
+    if (!this.process) {
+      this.offsetMs = Math.max(position_ms, 0);
+    }
+  }
+
+  async play(file: string, start_ms: number, volume: number): Promise<boolean> {
+    this.stop();
+    this.file = file;
+    this.offsetMs = Math.max(start_ms, 0);
+
+    const candidates: PlayerCommand[] = this.playerCommand ? [this.playerCommand] : PLAYER_COMMANDS;
+    for (const command of candidates) {
+      if (await this.startProcess(command, volume)) {
+        this.playerCommand = command;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  pause() {
+    if (this.process) {
+      this.offsetMs = this.getPositionMs();
+      this.stop();
+    }
+  }
+
+  stop() {
+    const proc = this.process;
+    if (proc) {
+      // clear it first so the exit handler knows it was stopped
+      this.process = undefined;
+      proc.kill();
+    }
+  }
+
+  private startProcess(command: PlayerCommand, volume: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const proc = spawn(command.name, command.args(this.file, this.offsetMs, volume), { stdio: "ignore" });
+      proc.on("error", (err) => {
+        logIt(`Unable to start ${command.name}. ${err.message}`);
+        if (this.process === proc) {
+          this.process = undefined;
+        }
+        resolve(false);
+      });
+      proc.on("exit", (code: number) => {
+        if (this.process === proc) {
+          this.process = undefined;
+          this.onProcessExit(command, code, Date.now() - this.startedAt);
+        }
+      });
+      if (!proc.pid) {
+        // the player isn't installed, the error event resolves it
+        return;
+      }
+      this.process = proc;
+      this.startedAt = Date.now();
+      resolve(true);
+    });
+  }
+
+  private onProcessExit(command: PlayerCommand, code: number, run_ms: number) {
+    if (code === 0 && run_ms >= MIN_TRACK_RUN_MILLIS) {
+      // reached the end of the track
+      this.failedTracks = 0;
+      this.offsetMs = 0;
+      this.onEnded();
+      return;
+    }
+
+    this.failedTracks++;
+    logIt(`${command.name} exited with code ${code} after ${run_ms}ms playing ${this.file}`);
+    if (this.failedTracks >= MAX_FAILED_TRACKS) {
+      // keep the position so play retries the same track
+      this.failedTracks = 0;
+      this.onFailed();
+    } else {
+      // skip the file that couldn't be played
+      this.offsetMs = 0;
+      this.onEnded();
+    }
+  }
+}
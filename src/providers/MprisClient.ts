@@ -0,0 +1,146 @@
+import { logIt } from "../Util";
+
+const { execFile } = require("child_process");
+
+const MPRIS_BUS_PREFIX = "org.mpris.MediaPlayer2.";
+const MPRIS_OBJECT_PATH = "/org/mpris/MediaPlayer2";
+export const MPRIS_PLAYER_INTERFACE = "org.mpris.MediaPlayer2.Player";
+const MPRIS_ROOT_INTERFACE = "org.mpris.MediaPlayer2";
+const DBUS_TIMEOUT_MILLIS = 2000;
+
+/**
+ * Returns the bus names of the running MPRIS players on the session bus.
+ * The session bus is taken from DBUS_SESSION_BUS_ADDRESS so a private
+ * bus with a mock player can be used.
+ */
+export async function listMprisPlayers(): Promise<string[]> {
+  const names: string[] = await dbusSend([
+    "--dest=org.freedesktop.DBus",
+    "/org/freedesktop/DBus",
+    "org.freedesktop.DBus.ListNames",
+  ]);
+  return (names ?? []).filter((n) => typeof n === "string" && n.startsWith(MPRIS_BUS_PREFIX));
+}
+
+export async function getMprisIdentity(busName: string): Promise<string> {
+  return await getMprisProperty(busName, "Identity", MPRIS_ROOT_INTERFACE);
+}
+
+export async function getMprisProperty(busName: string, property: string, iface: string = MPRIS_PLAYER_INTERFACE): Promise<any> {
+  return await dbusSend([
+    `--dest=${busName}`,
+    MPRIS_OBJECT_PATH,
+    "org.freedesktop.DBus.Properties.Get",
+    `string:${iface}`,
+    `string:${property}`,
+  ]);
+}
+
+/**
+ * @param value a dbus-send typed value, i.e. "double:0.5"
+ */
+export async function setMprisProperty(busName: string, property: string, value: string) {
+  await dbusSend([
+    `--dest=${busName}`,
+    MPRIS_OBJECT_PATH,
+    "org.freedesktop.DBus.Properties.Set",
+    `string:${MPRIS_PLAYER_INTERFACE}`,
+    `string:${property}`,
+    `variant:${value}`,
+  ]);
+}
+
+/**
+ * Call a method on the player interface
+ * @param args dbus-send typed values, i.e. ["int64:1000000"]
+ */
+export async function callMprisMethod(busName: string, method: string, args: string[] = []) {
+  await dbusSend([`--dest=${busName}`, MPRIS_OBJECT_PATH, `${MPRIS_PLAYER_INTERFACE}.${method}`, ...args]);
+}
+
+/**
+ * Parses the output of dbus-send --print-reply into javascript values.
+ * Arrays of dict entries become objects.
+ */
+export function parseDbusReply(output: string): any {
+  // the first line is the "method return ..." header
+  const lines: string[] = (output ?? "").split(/\r?\n/).slice(1);
+  let idx = 0;
+
+  function parseValue(): any {
+    while (idx < lines.length) {
+      const line = lines[idx++].trim().replace(/^variant\s+/, "");
+      if (!line) {
+        continue;
+      }
+      if (line === "array [") {
+        const items = [];
+        while (idx < lines.length && lines[idx].trim() !== "]") {
+          items.push(parseValue());
+        }
+        idx++;
+        return toObjectIfDict(items);
+      }
+      if (line === "dict entry(") {
+        const key = parseValue();
+        const value = parseValue();
+        // move past the closing parenthesis
+        while (idx < lines.length && lines[idx++].trim() !== ")") {}
+        return { dict_key: key, dict_value: value };
+      }
+      return parseSimpleValue(line);
+    }
+    return undefined;
+  }
+
+  return parseValue();
+}
+
+////////////////////////////////////////////////////////////////
+// PRIVATE FUNCTIONS
+////////////////////////////////////////////////////////////////
+
+function dbusSend(args: string[]): Promise<any> {
+  return new Promise((resolve) => {
+    execFile(
+      "dbus-send",
+      ["--session", "--print-reply", ...args],
+      { encoding: "utf8", timeout: DBUS_TIMEOUT_MILLIS },
+      (err, stdout) => {
+        if (err) {
+          // no session bus, dbus-send isn't installed or the player went away
+          logIt(`MPRIS request failed. ${err.message}`);
+          resolve(null);
+          return;
+        }
+        resolve(parseDbusReply(stdout));
+      }
+    );
+  });
+}
+
+function parseSimpleValue(line: string): any {
+  // strings aren't escaped, take everything up to the last quote
+  const stringMatch = line.match(/^(string|object path) "(.*)"$/);
+  if (stringMatch) {
+    return stringMatch[2];
+  }
+  const booleanMatch = line.match(/^boolean (true|false)$/);
+  if (booleanMatch) {
+    return booleanMatch[1] === "true";
+  }
+  const numberMatch = line.match(/^(u?int16|u?int32|u?int64|double|byte) (\S+)$/);
+  if (numberMatch) {
+    return Number(numberMatch[2]);
+  }
+  return line;
+}
+
+function toObjectIfDict(items: any[]) {
+  if (!items.length || !items.every((n) => n?.dict_key !== undefined)) {
+    return items;
+  }
+  const obj = {};
+  items.forEach((n) => (obj[n.dict_key] = n.dict_value));
+  return obj;
+}
@@ -0,0 +1,297 @@
+import { PlayerContext, PlayerDevice, PlaylistItem, PlaylistTrackInfo, Track, TrackStatus } from "cody-music";
+import { SPOTIFY_LIKED_SONGS_PLAYLIST_ID } from "../Constants";
+import { createPlaylistItemFromTrack } from "../managers/PlaylistDataManager";
+import { callMprisMethod, getMprisIdentity, getMprisProperty, listMprisPlayers, setMprisProperty } from "./MprisClient";
+import { SearchResults, SearchResultType } from "./SearchQuery";
+import { ArtistInfo, MusicProvider, MusicProviderUser, PlaylistDetails, RecommendationInfo } from "./MusicProvider";
+import { MusicCommandManager } from "../music/MusicCommandManager";
+
+const crypto = require("crypto");
+
+/**
+ * Controls any MPRIS compliant player on a Linux D-Bus session
+ * (Spotify desktop, VLC, Rhythmbox, mpv). Works offline and
+ * without a Spotify account.
+ */
+export class MprisProvider implements MusicProvider {
+  readonly id: string = "mpris";
+  readonly displayName: string = "Linux media player";
+
+  private devices: PlayerDevice[] = [];
+  private selectedBusName: string = undefined;
+  // the mpris:trackid object path is required to set the position
+  private currentTrackPath: string = undefined;
+
+  hasUser(): boolean {
+    return !!this.selectedBusName;
+  }
+
+  async getUser(): Promise<MusicProviderUser> {
+    const device: PlayerDevice = await this.getPlayerDevice();
+    // there's no account, the selected player stands in for the user
+    return device ? { id: device.id, display_name: device.name } : null;
+  }
+
+  async requiresAccess(): Promise<boolean> {
+    return false;
+  }
+
+  async requiresReAuthentication(): Promise<boolean> {
+    return false;
+  }
+
+  async getPlaylists(): Promise<PlaylistItem[]> {
+    return [];
+  }
+
+  async getPlaylistTracks(playlist_id: string): Promise<PlaylistItem[]> {
+    return [];
+  }
+
+  async getTrack(playlist_id: string, track_id: string): Promise<PlaylistItem> {
+    // there are no playlists, only the playing track
+    const track: Track = await this.getRunningTrack();
+    return track.id ? createPlaylistItemFromTrack(track) : null;
+  }
+
+  getLikedPlaylist(): PlaylistItem {
+    const item: PlaylistItem = new PlaylistItem();
+    item.type = "playlist";
+    item.itemType = "playlist";
+    item.id = SPOTIFY_LIKED_SONGS_PLAYLIST_ID;
+    item.name = "Liked Songs";
+    item.tracks = new PlaylistTrackInfo();
+    return item;
+  }
+
+  async getLikedTracks(): Promise<PlaylistItem[]> {
+    return [];
+  }
+
+  async isLiked(track_id: string): Promise<boolean> {
+    return false;
+  }
+
+  async setLiked(track: PlaylistItem, liked: boolean): Promise<void> {
+    // mpris has no liked songs
+  }
+
+  async getDevices(): Promise<PlayerDevice[]> {
+    const busNames: string[] = await listMprisPlayers();
+    const devices: PlayerDevice[] = [];
+    for (const busName of busNames) {
+      const identity: string = await getMprisIdentity(busName);
+      const status: string = await getMprisProperty(busName, "PlaybackStatus");
+      const volume: number = await getMprisProperty(busName, "Volume");
+      devices.push({
+        id: busName,
+        name: identity || busName.substring(busName.lastIndexOf(".") + 1),
+        is_active: status === "Playing" ? "true" : "",
+        is_restricted: false,
+        type: "Computer",
+        volume_percent: Math.round((volume ?? 0) * 100),
+      });
+    }
+    this.devices = devices;
+
+    if (!devices.find((n) => n.id === this.selectedBusName)) {
+      // prefer the player that's playing
+      this.selectedBusName = (devices.find((n) => !!n.is_active) ?? devices[0])?.id;
+    }
+    return devices;
+  }
+
+  getActiveDevice(): PlayerDevice {
+    return this.devices.find((n) => n.id === this.selectedBusName);
+  }
+
+  async getRunningTrack(): Promise<Track> {
+    const track: Track = new Track();
+    const device: PlayerDevice = await this.getPlayerDevice();
+    if (!device) {
+      return track;
+    }
+    const status: string = await getMprisProperty(device.id, "PlaybackStatus");
+    if (!status) {
+      // the player was closed, look for another one next time
+      this.devices = [];
+      this.selectedBusName = undefined;
+      return track;
+    }
+    const metadata = (await getMprisProperty(device.id, "Metadata")) ?? {};
+    const position: number = await getMprisProperty(device.id, "Position");
+
+    this.currentTrackPath = metadata["mpris:trackid"];
+    const artists: string[] = metadata["xesam:artist"] ?? [];
+    track.id = this.getTrackId(device.id, metadata);
+    track.uri = metadata["xesam:url"] ?? "";
+    track.name = metadata["xesam:title"] ?? "";
+    track.artist = artists.join(", ");
+    track.artist_names = artists;
+    track.album = metadata["xesam:album"] ?? "";
+    // mpris reports times in microseconds
+    track.duration_ms = Math.round((metadata["mpris:length"] ?? 0) / 1000);
+    track.progress_ms = Math.round((position ?? 0) / 1000);
+    track.state = status === "Playing" ? TrackStatus.Playing : status === "Paused" ? TrackStatus.Paused : TrackStatus.NotAssigned;
+    return track;
+  }
+
+  async getPlayerContext(useSharedState: boolean = false): Promise<PlayerContext> {
+    const track: Track = await this.getRunningTrack();
+    const playerContext: PlayerContext = new PlayerContext();
+    playerContext.device = this.getActiveDevice();
+    playerContext.is_playing = track.state === TrackStatus.Playing;
+    playerContext.item = track.id ? track : null;
+    playerContext.progress_ms = `${track.progress_ms ?? 0}`;
+    playerContext.repeat_state = "off";
+    playerContext.shuffle_state = false;
+    return playerContext;
+  }
+
+  async play(): Promise<void> {
+    await this.callPlayer("Play");
+  }
+
+  async pause(): Promise<void> {
+    await this.callPlayer("Pause");
+  }
+
+  async next(): Promise<void> {
+    await this.callPlayer("Next");
+  }
+
+  async previous(): Promise<void> {
+    await this.callPlayer("Previous");
+  }
+
+  async playTrack(track: PlaylistItem): Promise<void> {
+    // players that support it will load and play the uri
+    const uri = track.uri || track.id;
+    if (uri) {
+      await this.callPlayer("OpenUri", [`string:${uri}`]);
+    }
+  }
+
+  async seek(position_ms: number): Promise<void> {
+    if (!this.currentTrackPath) {
+      await this.getRunningTrack();
+    }
+    if (this.currentTrackPath) {
+      await this.callPlayer("SetPosition", [`objpath:${this.currentTrackPath}`, `int64:${Math.round(position_ms * 1000)}`]);
+    }
+  }
+
+  async setVolume(percent: number): Promise<void> {
+    const device: PlayerDevice = await this.getPlayerDevice();
+    if (device) {
+      const volume = Math.min(Math.max(percent, 0), 100) / 100;
+      await setMprisProperty(device.id, "Volume", `double:${volume}`);
+      device.volume_percent = Math.round(volume * 100);
+    }
+  }
+
+  canEditPlaylist(playlist: PlaylistItem): boolean {
+    return false;
+  }
+
+  async reorderPlaylistTrack(playlist_id: string, from_index: number, to_index: number): Promise<boolean> {
+    return false;
+  }
+
+  async updatePlaylistDetails(playlist_id: string, details: PlaylistDetails): Promise<boolean> {
+    return false;
+  }
+
+  async uploadPlaylistCover(playlist_id: string, image_base64: string): Promise<boolean> {
+    return false;
+  }
+
+  async deletePlaylist(playlist_id: string): Promise<boolean> {
+    return false;
+  }
+
+  async setLikedTracks(tracks: PlaylistItem[], liked: boolean): Promise<PlaylistItem[]> {
+    return tracks;
+  }
+
+  async addTracksToPlaylist(playlist_id: string, tracks: PlaylistItem[]): Promise<PlaylistItem[]> {
+    return tracks;
+  }
+
+  async removeTracksFromPlaylist(playlist_id: string, tracks: PlaylistItem[]): Promise<PlaylistItem[]> {
+    return tracks;
+  }
+
+  async getQueue(): Promise<PlaylistItem[]> {
+    // few players implement the optional mpris track list
+    return [];
+  }
+
+  canPlayNext(): boolean {
+    return false;
+  }
+
+  async addToQueue(track: PlaylistItem, playNext: boolean = false): Promise<boolean> {
+    return false;
+  }
+
+  async search(query: string, type: SearchResultType, offset: number, limit: number): Promise<SearchResults> {
+    // players only expose what's playing
+    return { items: [], total: 0 };
+  }
+
+  async getAlbumTracks(album: PlaylistItem): Promise<PlaylistItem[]> {
+    return [];
+  }
+
+  async getArtistTopTracks(artist: PlaylistItem): Promise<PlaylistItem[]> {
+    return [];
+  }
+
+  async getArtistInfo(artist: PlaylistItem): Promise<ArtistInfo> {
+    return { artist, top_tracks: [], albums: [], singles: [], related_artists: [] };
+  }
+
+  getRecommendationInfo(): RecommendationInfo {
+    return { label: "", tracks: [] };
+  }
+
+  async getAudioMetrics(): Promise<any> {
+    return {};
+  }
+
+  private async getPlayerDevice(): Promise<PlayerDevice> {
+    if (!this.getActiveDevice()) {
+      await this.getDevices();
+    }
+    return this.getActiveDevice();
+  }
+
+  private async callPlayer(method: string, args: string[] = []) {
+    const device: PlayerDevice = await this.getPlayerDevice();
+    if (device) {
+      await callMprisMethod(device.id, method, args);
+      // update the status bar with the new player state
+      MusicCommandManager.syncControls();
+    }
+  }
+
+  /**
+   * Spotify uses /com/spotify/track/<id>. Other players use a path to their
+   * playlist entry that's reused by different songs, so the id is a hash of
+   * the song's url or of the player, entry and title when there's no url.
+   */
+  private getTrackId(busName: string, metadata: any): string {
+    const trackPath: string = metadata["mpris:trackid"] ?? "";
+    const spotifyId: string = trackPath.match(/^\/com\/spotify\/track\/([a-zA-Z0-9]+)$/)?.[1];
+    if (spotifyId) {
+      return spotifyId;
+    }
+    const url: string = metadata["xesam:url"];
+    if (!url && !trackPath) {
+      return "";
+    }
+    const value: string = url ? url : `${busName}:${trackPath}:${metadata["xesam:title"] ?? ""}`;
+    return `mpris-${crypto.createHash("md5").update(value).digest("hex")}`;
+  }
+}
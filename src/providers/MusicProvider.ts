@@ -0,0 +1,113 @@
+import { PlayerContext, PlayerDevice, PlaylistItem, Track } from "cody-music";
+import { SearchResults, SearchResultType } from "./SearchQuery";
+
+// the most upcoming tracks a provider returns from getQueue
+export const QUEUE_LIMIT = 20;
+// the most tracks sent to a provider in one batch change
+export const BATCH_TRACK_LIMIT = 100;
+
+export interface MusicProviderUser {
+  id: string;
+  display_name: string;
+  email?: string;
+}
+
+export interface RecommendationInfo {
+  label: string;
+  tracks: PlaylistItem[];
+}
+
+// the playlist fields that can be edited, unset fields are left as they are
+export interface PlaylistDetails {
+  name?: string;
+  description?: string;
+  public?: boolean;
+  collaborative?: boolean;
+}
+
+export interface ArtistInfo {
+  artist: PlaylistItem;
+  top_tracks: PlaylistItem[];
+  albums: PlaylistItem[];
+  singles: PlaylistItem[];
+  related_artists: PlaylistItem[];
+}
+
+/**
+ * A source of music the sidebar and status bar can display and control.
+ * Spotify is the default, other providers can be swapped in with
+ * setMusicProvider.
+ */
+export interface MusicProvider {
+  readonly id: string;
+  readonly displayName: string;
+
+  // ACCOUNT
+  hasUser(): boolean;
+  getUser(): Promise<MusicProviderUser>;
+  requiresAccess(): Promise<boolean>;
+  requiresReAuthentication(): Promise<boolean>;
+
+  // PLAYLISTS AND TRACKS
+  getPlaylists(): Promise<PlaylistItem[]>;
+  getPlaylistTracks(playlist_id: string): Promise<PlaylistItem[]>;
+  // the running track when track_id isn't set
+  getTrack(playlist_id: string, track_id: string): Promise<PlaylistItem>;
+  getLikedPlaylist(): PlaylistItem;
+  getLikedTracks(): Promise<PlaylistItem[]>;
+  isLiked(track_id: string): Promise<boolean>;
+  setLiked(track: PlaylistItem, liked: boolean): Promise<void>;
+
+  // DEVICES AND PLAYBACK
+  getDevices(): Promise<PlayerDevice[]>;
+  getActiveDevice(): PlayerDevice;
+  getRunningTrack(): Promise<Track>;
+  getPlayerContext(useSharedState?: boolean): Promise<PlayerContext>;
+  play(): Promise<void>;
+  pause(): Promise<void>;
+  next(): Promise<void>;
+  previous(): Promise<void>;
+  playTrack(track: PlaylistItem): Promise<void>;
+  seek(position_ms: number): Promise<void>;
+  // 0 to 100, on the active device unless a device id is given
+  setVolume(percent: number, device_id?: string): Promise<void>;
+
+  // PLAYLIST EDITING
+  // the changes are applied to the cached playlists before they're sent
+  // and each returns false when the change was rejected
+  canEditPlaylist(playlist: PlaylistItem): boolean;
+  reorderPlaylistTrack(playlist_id: string, from_index: number, to_index: number): Promise<boolean>;
+  updatePlaylistDetails(playlist_id: string, details: PlaylistDetails): Promise<boolean>;
+  // a base64 encoded jpeg
+  uploadPlaylistCover(playlist_id: string, image_base64: string): Promise<boolean>;
+  deletePlaylist(playlist_id: string): Promise<boolean>;
+
+  // BATCH CHANGES
+  // the callers keep batches to BATCH_TRACK_LIMIT tracks. Each returns
+  // the tracks that couldn't be changed and updates the cached tracks.
+  setLikedTracks(tracks: PlaylistItem[], liked: boolean): Promise<PlaylistItem[]>;
+  addTracksToPlaylist(playlist_id: string, tracks: PlaylistItem[]): Promise<PlaylistItem[]>;
+  removeTracksFromPlaylist(playlist_id: string, tracks: PlaylistItem[]): Promise<PlaylistItem[]>;
+
+  // PLAYBACK QUEUE
+  // the tracks that play after the running one
+  getQueue(): Promise<PlaylistItem[]>;
+  // false when tracks can only be added to the end of the queue
+  canPlayNext(): boolean;
+  // returns false when the track couldn't be queued. Play next puts the track
+  // ahead of the queued tracks, or returns false when it can't go ahead of them.
+  addToQueue(track: PlaylistItem, playNext?: boolean): Promise<boolean>;
+
+  // SEARCH AND RECOMMENDATIONS
+  // the query can include filters, i.e. artist:name year:2001
+  search(query: string, type: SearchResultType, offset: number, limit: number): Promise<SearchResults>;
+  getAlbumTracks(album: PlaylistItem): Promise<PlaylistItem[]>;
+  getArtistTopTracks(artist: PlaylistItem): Promise<PlaylistItem[]>;
+  // the artist can be one without an id, i.e. from a track's artist name
+  getArtistInfo(artist: PlaylistItem): Promise<ArtistInfo>;
+  getRecommendationInfo(): RecommendationInfo;
+  getAudioMetrics(): Promise<any>;
+
+  // release players and processes when the provider is replaced
+  dispose?(): void;
+}
@@ -0,0 +1,80 @@
+import { PlaylistItem } from "cody-music";
+
+export type SearchResultType = "track" | "album" | "artist" | "playlist";
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ["track", "album", "artist", "playlist"];
+
+// the filters spotify supports in the search query
+export const SEARCH_FILTER_FIELDS = ["artist", "album", "track", "year", "genre"];
+
+export interface SearchResults {
+  items: PlaylistItem[];
+  // the number of matches across all pages
+  total: number;
+}
+
+export interface ParsedSearchQuery {
+  // the keywords left after removing the filters
+  text: string;
+  // filter values by field, i.e. { artist: "daft punk", year: "2001" }
+  filters: any;
+}
+
+/**
+ * Splits `artist:"daft punk" year:1990-1999 around` into its
+ * filters and the remaining keywords
+ * @param query
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const filters = {};
+  const filterPattern = new RegExp(`\\b(${SEARCH_FILTER_FIELDS.join("|")}):(?:"([^"]*)"|(\\S+))`, "gi");
+  const text = (query ?? "")
+    .replace(filterPattern, (match: string, field: string, quoted: string, word: string) => {
+      filters[field.toLowerCase()] = (quoted ?? word).trim().toLowerCase();
+      return "";
+    })
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+  return { text, filters };
+}
+
+/**
+ * Matches a track against the keywords and filters of a parsed query. Used
+ * by the providers that search their own tracks instead of a web api.
+ * @param track
+ * @param query
+ */
+export function matchesSearchQuery(track: PlaylistItem, query: ParsedSearchQuery): boolean {
+  const values = {
+    track: track.name ?? "",
+    artist: track.artist ?? "",
+    album: track["album"]?.name ?? track["album"] ?? track["albumName"] ?? "",
+    genre: track["genre"] ?? "",
+    year: `${track["year"] ?? ""}`,
+  };
+  for (const field of Object.keys(query.filters)) {
+    const filter: string = query.filters[field];
+    if (field === "year") {
+      if (!matchesYear(values.year, filter)) {
+        return false;
+      }
+    } else if (!`${values[field]}`.toLowerCase().includes(filter)) {
+      return false;
+    }
+  }
+  const text = `${values.track} ${values.artist} ${values.album}`.toLowerCase();
+  return query.text.split(" ").every((keyword: string) => text.includes(keyword));
+}
+
+/**
+ * Year filters are a single year or a range, i.e. 1990-1999
+ */
+function matchesYear(year: string, filter: string): boolean {
+  const value = parseInt(year, 10);
+  if (!value) {
+    return false;
+  }
+  const [from, to] = filter.split("-").map((n) => parseInt(n, 10));
+  return to ? value >= from && value <= to : value === from;
+}
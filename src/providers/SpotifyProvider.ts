@@ -0,0 +1,482 @@
+import axios from "axios";
+import {
+  addTracksToPlaylist,
+  CodyResponseType,
+  getRunningTrack,
+  PlayerContext,
+  PlayerDevice,
+  PlaylistItem,
+  removeFromSpotifyLiked,
+  removeTracksFromPlaylist,
+  saveToSpotifyLiked,
+  Track,
+} from "cody-music";
+import { MusicClient } from "cody-music/dist/lib/client";
+import { commands } from "vscode";
+import { SPOTIFY_LIKED_SONGS_PLAYLIST_ID } from "../Constants";
+import { playSelectedItem } from "../managers/PlaylistControlManager";
+import {
+  addTrackToLikedPlaylist,
+  addTrackToPlaylistTracks,
+  createPlaylistItemFromTrack,
+  getAlbumTracks,
+  getBestActiveDevice,
+  getCachedAudioMetrics,
+  getCachedLikedSongsTracks,
+  getCachedPlaylistTracks,
+  getCachedRecommendationInfo,
+  getCachedSpotifyPlaylists,
+  getCurrentDevices,
+  getPlayerContext,
+  getSpotifyLikedPlaylist,
+  getTrackByPlaylistIdAndTrackId,
+  getSpotifyPlaylists,
+  isLikedTrackId,
+  moveTrackInPlaylistTracks,
+  populatePlaylistTracks,
+  populateSpotifyDevices,
+  reloadPlaylistTracks,
+  removeCachedPlaylist,
+  removeTrackFromLikedPlaylist,
+  removeTrackFromPlaylistTracks,
+  requiresSpotifyAccess,
+  requiresSpotifyReAuthentication,
+  updateCachedPlaylist,
+  updateLikedStatusInPlaylist,
+} from "../managers/PlaylistDataManager";
+import {
+  getConnectedSpotifyUser,
+  getSpotifyAccessToken,
+  getSpotifyUserId,
+  hasSpotifyUser,
+  updateCodyConfig,
+  updateSpotifyClientInfo,
+} from "../managers/SpotifyManager";
+import { MusicControlManager } from "../music/MusicControlManager";
+import { MusicCommandUtil } from "../music/MusicCommandUtil";
+import { RequestPriority, scheduleSpotifyRequest } from "../music/SpotifyRequestScheduler";
+import { chunkArray, createUriFromTrackId, setItem } from "../Util";
+import { ArtistInfo, MusicProvider, MusicProviderUser, PlaylistDetails, QUEUE_LIMIT, RecommendationInfo } from "./MusicProvider";
+import { SearchResults, SearchResultType } from "./SearchQuery";
+
+const LIKED_TRACKS_REQUEST_LIMIT = 50;
+// how long spotify takes to process an uploaded cover image
+const COVER_PROCESSING_SECONDS = 5;
+
+/**
+ * Spotify through cody-music and the cached data in the PlaylistDataManager
+ */
+export class SpotifyProvider implements MusicProvider {
+  readonly id: string = "spotify";
+  readonly displayName: string = "Spotify";
+
+  // the tracks added to the queue from Music Time, the queue api doesn't tell them from the playlist's tracks
+  private queuedUris: string[] = [];
+
+  hasUser(): boolean {
+    return hasSpotifyUser();
+  }
+
+  async getUser(): Promise<MusicProviderUser> {
+    return await getConnectedSpotifyUser();
+  }
+
+  async requiresAccess(): Promise<boolean> {
+    return await requiresSpotifyAccess();
+  }
+
+  async requiresReAuthentication(): Promise<boolean> {
+    if (!requiresSpotifyReAuthentication()) {
+      return false;
+    }
+    if (!(await requiresSpotifyAccess())) {
+      // the access token was updated since the re-auth flag was set
+      setItem("requiresSpotifyReAuth", false);
+      return false;
+    }
+    return true;
+  }
+
+  async getPlaylists(): Promise<PlaylistItem[]> {
+    return (await getCachedSpotifyPlaylists()) ?? [];
+  }
+
+  async getPlaylistTracks(playlist_id: string): Promise<PlaylistItem[]> {
+    if (playlist_id === SPOTIFY_LIKED_SONGS_PLAYLIST_ID) {
+      return await this.getLikedTracks();
+    }
+    await populatePlaylistTracks(playlist_id);
+    return getCachedPlaylistTracks()[playlist_id] ?? [];
+  }
+
+  async getTrack(playlist_id: string, track_id: string): Promise<PlaylistItem> {
+    return await getTrackByPlaylistIdAndTrackId(playlist_id, track_id);
+  }
+
+  getLikedPlaylist(): PlaylistItem {
+    return getSpotifyLikedPlaylist();
+  }
+
+  async getLikedTracks(): Promise<PlaylistItem[]> {
+    return (await getCachedLikedSongsTracks()) ?? [];
+  }
+
+  async isLiked(track_id: string): Promise<boolean> {
+    return await isLikedTrackId(track_id);
+  }
+
+  async setLiked(track: PlaylistItem, liked: boolean): Promise<void> {
+    await MusicControlManager.getInstance().setLiked(track, liked);
+  }
+
+  async getDevices(): Promise<PlayerDevice[]> {
+    await populateSpotifyDevices();
+    return getCurrentDevices();
+  }
+
+  getActiveDevice(): PlayerDevice {
+    return getBestActiveDevice();
+  }
+
+  async getRunningTrack(): Promise<Track> {
+    // polled by the player state sync, a user request for it promotes the poll
+    return await scheduleSpotifyRequest(getRunningTrack, [], { priority: RequestPriority.Background, coalesce: true });
+  }
+
+  async getPlayerContext(useSharedState: boolean = false): Promise<PlayerContext> {
+    return await getPlayerContext(useSharedState);
+  }
+
+  async play(): Promise<void> {
+    await MusicControlManager.getInstance().playSong(1);
+  }
+
+  async pause(): Promise<void> {
+    await MusicControlManager.getInstance().pauseSong();
+  }
+
+  async next(): Promise<void> {
+    await MusicControlManager.getInstance().nextSong();
+  }
+
+  async previous(): Promise<void> {
+    await MusicControlManager.getInstance().previousSong();
+  }
+
+  async playTrack(track: PlaylistItem): Promise<void> {
+    await playSelectedItem(track);
+  }
+
+  async seek(position_ms: number): Promise<void> {
+    const device: PlayerDevice = getBestActiveDevice();
+    const qsOptions: any = { position_ms: Math.max(Math.round(position_ms), 0) };
+    if (device?.id) {
+      qsOptions.device_id = device.id;
+    }
+    const client = MusicClient.getInstance();
+    await MusicCommandUtil.getInstance().runSpotifyCommand(client.spotifyApiPut.bind(client), ["/v1/me/player/seek", qsOptions, {}]);
+  }
+
+  async setVolume(percent: number, device_id: string = undefined): Promise<void> {
+    const device: PlayerDevice = device_id ? getCurrentDevices().find((n) => n.id === device_id) : getBestActiveDevice();
+    const qsOptions: any = { volume_percent: Math.min(Math.max(Math.round(percent), 0), 100) };
+    if (device_id ?? device?.id) {
+      qsOptions.device_id = device_id ?? device.id;
+    }
+    const client = MusicClient.getInstance();
+    const resp = await MusicCommandUtil.getInstance().runSpotifyCommand(client.spotifyApiPut.bind(client), ["/v1/me/player/volume", qsOptions, {}]);
+    if (device && MusicCommandUtil.getInstance().getResponseStatus(resp) < 300) {
+      // keep the cached device in step until the devices are fetched again
+      device.volume_percent = qsOptions.volume_percent;
+    }
+  }
+
+  canEditPlaylist(playlist: PlaylistItem): boolean {
+    if (!playlist || playlist.id === SPOTIFY_LIKED_SONGS_PLAYLIST_ID) {
+      return false;
+    }
+    return playlist.collaborative || (!!playlist.owner?.id && playlist.owner.id === getSpotifyUserId());
+  }
+
+  async reorderPlaylistTrack(playlist_id: string, from_index: number, to_index: number): Promise<boolean> {
+    moveTrackInPlaylistTracks(playlist_id, from_index, to_index);
+    // spotify inserts before the given position, which is past the moved track when moving down
+    const payload = { range_start: from_index, insert_before: to_index > from_index ? to_index + 1 : to_index };
+    const resp = await this.sendPlaylistChange("spotifyApiPut", `/v1/playlists/${playlist_id}/tracks`, payload);
+    if (!isOk(resp)) {
+      await reloadPlaylistTracks(playlist_id);
+      return false;
+    }
+    // keep the cached tracks when the playlists are revalidated
+    updateCachedPlaylist(playlist_id, { snapshot_id: resp.data?.snapshot_id });
+    return true;
+  }
+
+  async updatePlaylistDetails(playlist_id: string, details: PlaylistDetails): Promise<boolean> {
+    updateCachedPlaylist(playlist_id, details);
+    const resp = await this.sendPlaylistChange("spotifyApiPut", `/v1/playlists/${playlist_id}`, details);
+    if (!isOk(resp)) {
+      await getSpotifyPlaylists(true);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * The image is sent as the request body, which the cody-music client
+   * can't do, so it's sent with the access token directly
+   */
+  async uploadPlaylistCover(playlist_id: string, image_base64: string): Promise<boolean> {
+    let resp = await scheduleSpotifyRequest(putPlaylistCover, [playlist_id, image_base64]);
+    if (MusicCommandUtil.getInstance().getResponseStatus(resp) === 401) {
+      // the upload doesn't go through cody-music, fetch a new token and try once more
+      await updateSpotifyClientInfo();
+      await updateCodyConfig();
+      resp = await scheduleSpotifyRequest(putPlaylistCover, [playlist_id, image_base64]);
+    }
+    if (!isOk(resp)) {
+      return false;
+    }
+    // spotify processes the image before it's returned with the playlist
+    setTimeout(() => this.reloadPlaylistImages(playlist_id), COVER_PROCESSING_SECONDS * 1000);
+    return true;
+  }
+
+  /**
+   * Spotify doesn't delete playlists, the owner unfollows it instead
+   */
+  async deletePlaylist(playlist_id: string): Promise<boolean> {
+    removeCachedPlaylist(playlist_id);
+    const resp = await this.sendPlaylistChange("spotifyApiDelete", `/v1/playlists/${playlist_id}/followers`, {});
+    if (!isOk(resp)) {
+      await getSpotifyPlaylists(true);
+      return false;
+    }
+    return true;
+  }
+
+  async setLikedTracks(tracks: PlaylistItem[], liked: boolean): Promise<PlaylistItem[]> {
+    const failed: PlaylistItem[] = [];
+    // the liked songs endpoints take at most 50 ids
+    for (const batch of chunkArray(tracks, LIKED_TRACKS_REQUEST_LIMIT)) {
+      const resp = await MusicCommandUtil.getInstance().runSpotifyCommand(liked ? saveToSpotifyLiked : removeFromSpotifyLiked, [
+        batch.map((n) => n.id),
+      ]);
+      if (!isOk(resp)) {
+        failed.push(...batch);
+        continue;
+      }
+      for (const track of batch) {
+        if (liked) {
+          addTrackToLikedPlaylist({ ...track });
+        } else {
+          removeTrackFromLikedPlaylist(track.id);
+        }
+        updateLikedStatusInPlaylist(track["playlist_id"], track.id, liked);
+      }
+    }
+    return failed;
+  }
+
+  async addTracksToPlaylist(playlist_id: string, tracks: PlaylistItem[]): Promise<PlaylistItem[]> {
+    const uris: string[] = tracks.map((n) => n.uri || createUriFromTrackId(n.id));
+    const resp = await MusicCommandUtil.getInstance().runSpotifyCommand(addTracksToPlaylist, [playlist_id, uris]);
+    if (!isOk(resp)) {
+      return tracks;
+    }
+    tracks.forEach((track: PlaylistItem) => addTrackToPlaylistTracks(playlist_id, track));
+    return [];
+  }
+
+  async removeTracksFromPlaylist(playlist_id: string, tracks: PlaylistItem[]): Promise<PlaylistItem[]> {
+    const resp = await MusicCommandUtil.getInstance().runSpotifyCommand(removeTracksFromPlaylist, [playlist_id, tracks.map((n) => n.id)]);
+    if (!isOk(resp)) {
+      return tracks;
+    }
+    tracks.forEach((track: PlaylistItem) => removeTrackFromPlaylistTracks(playlist_id, track.id));
+    return [];
+  }
+
+  async getQueue(): Promise<PlaylistItem[]> {
+    const tracks: Track[] = await this.fetchQueue(RequestPriority.Background);
+    // episodes can be queued too, only tracks are listed
+    return tracks
+      .filter((n: any) => n?.type === "track")
+      .slice(0, QUEUE_LIMIT)
+      .map((n: Track, idx: number) => createPlaylistItemFromTrack(n, idx));
+  }
+
+  canPlayNext(): boolean {
+    return true;
+  }
+
+  /**
+   * Spotify only appends to the queue, but queued tracks play before the rest
+   * of the playlist. So a track plays next when no queued track is ahead of it.
+   */
+  async addToQueue(track: PlaylistItem, playNext: boolean = false): Promise<boolean> {
+    const uri: string = track.uri || createUriFromTrackId(track.id);
+    if (playNext && (await this.hasQueuedTracks())) {
+      return false;
+    }
+    const device: PlayerDevice = getBestActiveDevice();
+    const qsOptions: any = { uri };
+    if (device?.id) {
+      qsOptions.device_id = device.id;
+    }
+    const client = MusicClient.getInstance();
+    const resp = await MusicCommandUtil.getInstance().runSpotifyCommand(client.spotifyApiPost.bind(client), ["/v1/me/player/queue", qsOptions, {}]);
+    if (MusicCommandUtil.getInstance().getResponseStatus(resp) >= 300) {
+      return false;
+    }
+    this.queuedUris.push(uri);
+    return true;
+  }
+
+  async search(query: string, type: SearchResultType, offset: number, limit: number): Promise<SearchResults> {
+    const client = MusicClient.getInstance();
+    const qsOptions = { q: query, type, offset, limit, market: "from_token" };
+    const resp = await scheduleSpotifyRequest(client.spotifyApiGet.bind(client), ["/v1/search", qsOptions], { coalesce: true });
+    const page = resp?.data?.[`${type}s`];
+    const items: PlaylistItem[] = (page?.items ?? [])
+      .filter((n: any) => !!n)
+      .map((n: any, idx: number) => createSearchResultItem(type, n, offset + idx));
+    return { items, total: page?.total ?? 0 };
+  }
+
+  async getAlbumTracks(album: PlaylistItem): Promise<PlaylistItem[]> {
+    return (await getAlbumTracks(album)) ?? [];
+  }
+
+  async getArtistTopTracks(artist: PlaylistItem): Promise<PlaylistItem[]> {
+    const client = MusicClient.getInstance();
+    const resp = await scheduleSpotifyRequest(client.spotifyApiGet.bind(client), [`/v1/artists/${artist.id}/top-tracks`, { market: "from_token" }], {
+      coalesce: true,
+    });
+    const tracks: Track[] = resp?.data?.tracks ?? [];
+    return tracks.map((n: Track, idx: number) => createPlaylistItemFromTrack(n, idx));
+  }
+
+  async getArtistInfo(artist: PlaylistItem): Promise<ArtistInfo> {
+    if (!artist.id) {
+      // i.e. a running track that only has the artist name
+      const results: SearchResults = await this.search(`artist:"${artist.name}"`, "artist", 0, 1);
+      artist = results.items[0] ?? artist;
+    }
+    if (!artist.id) {
+      return { artist, top_tracks: [], albums: [], singles: [], related_artists: [] };
+    }
+
+    const client = MusicClient.getInstance();
+    const get = (api: string, qsOptions: any = {}) =>
+      scheduleSpotifyRequest(client.spotifyApiGet.bind(client), [api, qsOptions], { coalesce: true });
+    const [artistResp, top_tracks, albumsResp, relatedResp] = await Promise.all([
+      get(`/v1/artists/${artist.id}`),
+      this.getArtistTopTracks(artist),
+      get(`/v1/artists/${artist.id}/albums`, { include_groups: "album,single", limit: 50, market: "from_token" }),
+      get(`/v1/artists/${artist.id}/related-artists`),
+    ]);
+
+    const albums: PlaylistItem[] = [];
+    const singles: PlaylistItem[] = [];
+    (albumsResp?.data?.items ?? []).forEach((n: any, idx: number) => {
+      const item: PlaylistItem = createSearchResultItem("album", n, idx);
+      (n.album_type === "single" ? singles : albums).push(item);
+    });
+    const related_artists: PlaylistItem[] = (relatedResp?.data?.artists ?? []).map((n: any, idx: number) =>
+      createSearchResultItem("artist", n, idx)
+    );
+    return {
+      artist: artistResp?.data?.id ? createSearchResultItem("artist", artistResp.data, 0) : artist,
+      top_tracks,
+      albums,
+      singles,
+      related_artists,
+    };
+  }
+
+  getRecommendationInfo(): RecommendationInfo {
+    return getCachedRecommendationInfo() ?? { label: "", tracks: [] };
+  }
+
+  async getAudioMetrics(): Promise<any> {
+    return await getCachedAudioMetrics();
+  }
+
+  private async fetchQueue(priority: RequestPriority): Promise<Track[]> {
+    const client = MusicClient.getInstance();
+    const resp = await scheduleSpotifyRequest(client.spotifyApiGet.bind(client), ["/v1/me/player/queue", {}], { priority, coalesce: true });
+    return resp?.data?.queue ?? [];
+  }
+
+  /**
+   * True when a track queued from Music Time is still waiting to play. Queued
+   * tracks are at the front of the queue, so only the next track is checked.
+   */
+  private async hasQueuedTracks(): Promise<boolean> {
+    const queue: Track[] = await this.fetchQueue(RequestPriority.User);
+    const upcomingUris: string[] = queue.map((n: Track) => n?.uri);
+    // forget the tracks that have played
+    this.queuedUris = this.queuedUris.filter((n) => upcomingUris.includes(n));
+    return !!queue.length && this.queuedUris.includes(queue[0]?.uri);
+  }
+
+  private async sendPlaylistChange(method: string, api: string, payload: any): Promise<any> {
+    const client = MusicClient.getInstance();
+    return await MusicCommandUtil.getInstance().runSpotifyCommand(client[method].bind(client), [api, {}, payload]);
+  }
+
+  private async reloadPlaylistImages(playlist_id: string) {
+    const client = MusicClient.getInstance();
+    const api = `/v1/playlists/${playlist_id}/images`;
+    const resp = await MusicCommandUtil.getInstance().runSpotifyCommand(client.spotifyApiGet.bind(client), [api, {}], {
+      priority: RequestPriority.Background,
+    });
+    if (isOk(resp) && Array.isArray(resp.data)) {
+      updateCachedPlaylist(playlist_id, { images: resp.data });
+      commands.executeCommand("musictime.refreshMusicTimeView");
+    }
+  }
+}
+
+/**
+ * Convert a spotify search result into a sidebar item
+ */
+function createSearchResultItem(type: SearchResultType, result: any, position: number): PlaylistItem {
+  if (type === "track") {
+    return createPlaylistItemFromTrack(result, position);
+  }
+  const item: PlaylistItem = new PlaylistItem();
+  item.type = type;
+  item.itemType = type;
+  item.id = result.id;
+  item.name = result.name;
+  item.uri = result.uri;
+  item.position = position;
+  if (type === "album") {
+    const year: string = (result.release_date ?? "").substring(0, 4);
+    item.artist = (result.artists ?? []).map((n: any) => n.name).join(", ");
+    item["albumId"] = result.id;
+    item["albumName"] = result.name;
+    item["description"] = [item.artist, year].filter((n) => !!n).join(" · ");
+  } else if (type === "artist") {
+    item["description"] = (result.genres ?? []).slice(0, 3).join(", ");
+  } else {
+    item["description"] = `${result.owner?.display_name ?? ""} · ${result.tracks?.total ?? 0} songs`;
+  }
+  return item;
+}
+
+async function putPlaylistCover(playlist_id: string, image_base64: string) {
+  try {
+    return await axios.put(`https://api.spotify.com/v1/playlists/${playlist_id}/images`, image_base64, {
+      headers: { Authorization: `Bearer ${getSpotifyAccessToken()}`, "Content-Type": "image/jpeg" },
+    });
+  } catch (e) {
+    return { status: e.response?.status ?? 500, retrySeconds: e.response?.headers?.["retry-after"] };
+  }
+}
+
+function isOk(resp: any): boolean {
+  return MusicCommandUtil.getInstance().getResponseStatus(resp) < 300 && resp?.state !== CodyResponseType.Failed;
+}
@@ -0,0 +1,78 @@
+import { commands, Uri, window } from "vscode";
+import { showQuickPick } from "../MenuManager";
+import { getAvailableMusicProviderIds, getMusicProvider, selectMusicProvider } from "../managers/MusicProviderManager";
+import { MusicCommandManager } from "../music/MusicCommandManager";
+import { getLocalMusicFolder, LocalLibraryProvider } from "../providers/LocalLibraryProvider";
+import { updateSetting } from "../managers/SettingsManager";
+
+const providerLabels = {
+  spotify: "Spotify",
+  local: "Local music library",
+  mpris: "Linux media player (MPRIS)",
+};
+
+export async function showMusicProviderMenu() {
+  const currentProviderId = getMusicProvider().id;
+  const items = getAvailableMusicProviderIds().map((id: string) => {
+    return {
+      label: providerLabels[id],
+      description: id === currentProviderId ? "selected" : "",
+      cb: () => switchMusicProvider(id),
+    };
+  });
+
+  await showQuickPick({
+    items,
+    placeholder: "Select the music player to control",
+  });
+}
+
+/**
+ * Choose the folder the local music library is indexed from
+ */
+export async function showLocalMusicFolderPicker(): Promise<boolean> {
+  const folders: Uri[] = await window.showOpenDialog({
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: false,
+    openLabel: "Use as music library",
+  });
+  if (!folders?.length) {
+    return false;
+  }
+  // the settings listener indexes the new folder
+  await updateSetting("localMusicFolder", folders[0].fsPath);
+  return true;
+}
+
+/**
+ * Index the library folder again after it was changed
+ */
+export function reloadLocalMusicLibrary() {
+  const provider = getMusicProvider();
+  if (provider instanceof LocalLibraryProvider) {
+    provider.resetLibrary();
+    refreshMusicProviderViews();
+  }
+}
+
+/**
+ * Resolves to false when the provider wasn't switched, i.e. the
+ * local music folder picker was cancelled
+ */
+export async function switchMusicProvider(providerId: string): Promise<boolean> {
+  if (providerId === getMusicProvider().id) {
+    return true;
+  }
+  if (providerId === "local" && !getLocalMusicFolder() && !(await showLocalMusicFolderPicker())) {
+    return false;
+  }
+  await selectMusicProvider(providerId);
+  refreshMusicProviderViews();
+  return true;
+}
+
+function refreshMusicProviderViews() {
+  MusicCommandManager.syncControls();
+  commands.executeCommand("musictime.reloadMusicTimeView");
+}
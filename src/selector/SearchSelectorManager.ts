@@ -1,31 +1,48 @@
-import { window } from "vscode";
-import { searchTracks } from "cody-music";
-import { populateRecommendationTracks, requiresSpotifyAccess } from "../managers/PlaylistDataManager";
+import { QuickPickItem, window } from "vscode";
+import { getMusicProvider } from "../managers/MusicProviderManager";
+import { clearSearchHistory, getSearchHistory, getSearchState, runSearch } from "../managers/SearchManager";
 
+const CLEAR_HISTORY_LABEL = "Clear search history";
+
+/**
+ * Prompt for a query, listing the recent searches while the input is empty
+ */
 export async function showSearchInput() {
-  if (await requiresSpotifyAccess()) {
-    window.showInformationMessage("Spotify connection required");
+  const provider = getMusicProvider();
+  if (await provider.requiresAccess()) {
+    window.showInformationMessage(`${provider.displayName} connection required`);
     return;
   }
-  let keywords = await window.showInputBox({
-    value: "",
-    placeHolder: "Search",
-    prompt: "Search for songs",
-    validateInput: (text) => {
-      return !text ? "Please enter one more more keywords to continue." : null;
-    },
-  });
-  if (!keywords) {
-    return;
+
+  const history: QuickPickItem[] = getSearchHistory().map((query: string) => ({ label: query, description: "recent" }));
+  if (history.length) {
+    history.push({ label: CLEAR_HISTORY_LABEL, description: "" });
   }
 
-  keywords = keywords.trim();
-  // the default limit is 50, so just send in the keywords
-  const result = await searchTracks(keywords, 50 /*limit*/);
+  const quickPick = window.createQuickPick();
+  quickPick.placeholder = 'Search, i.e. artist:"daft punk" year:2001 or genre:jazz';
+  const updateItems = (value: string) => {
+    // the typed query is the first item so enter searches for it
+    const typed: QuickPickItem[] = value.trim() ? [{ label: value, description: "search" }] : [];
+    quickPick.items = [...typed, ...history.filter((n) => n.label !== value)];
+  };
+  quickPick.value = getSearchState().query;
+  updateItems(quickPick.value);
+  quickPick.onDidChangeValue(updateItems);
+
+  const query: string = await new Promise((resolve) => {
+    quickPick.onDidAccept(() => {
+      resolve(quickPick.selectedItems[0]?.label ?? quickPick.value);
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => resolve(""));
+    quickPick.show();
+  });
+  quickPick.dispose();
 
-  if (result && result.tracks && result.tracks.items && result.tracks.items.length) {
-    populateRecommendationTracks(keywords, result.tracks.items);
-  } else {
-    window.showErrorMessage(`No songs found matching '${keywords}'`);
+  if (query === CLEAR_HISTORY_LABEL) {
+    clearSearchHistory();
+  } else if (query?.trim()) {
+    await runSearch(query);
   }
 }
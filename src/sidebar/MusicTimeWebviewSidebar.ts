@@ -10,15 +10,28 @@ import {
   WebviewViewProvider,
   WebviewViewResolveContext,
 } from "vscode";
-import { getImage, getItem } from "../Util";
+import { escapeHtml, formatTrackTime, getImage, getItem } from "../Util";
 import { getConnectionErrorHtml } from '../local/404';
 import { getLoadingHtml } from '../local/Loading';
+import { getLocalSidebarHtml } from '../local/LocalSidebar';
 import { MusicCommandManager } from "../music/MusicCommandManager";
 import { appGet, isResponseOk } from '../HttpClient';
-import { getConnectedSpotifyUser, hasSpotifyUser } from '../managers/SpotifyManager';
-import { getSelectedTabView, getSelectedPlaylistId, getCachedSpotifyPlaylists, getCachedSoftwareTop40Playlist, getCachedPlaylistTracks, getCachedRecommendationInfo, getSpotifyLikedPlaylist, getCachedLikedSongsTracks, getExpandedPlaylistId, updateExpandedPlaylistId, sortingAlphabetically, getPlayerContext, getCachedAudioMetrics, isLikedTrackId } from '../managers/PlaylistDataManager';
-import { RECOMMENDATION_PLAYLIST_ID, SPOTIFY_LIKED_SONGS_PLAYLIST_ID } from '../Constants';
+import { getSelectedTabView, getSelectedPlaylistId, getExpandedPlaylistId, updateExpandedPlaylistId, sortingAlphabetically } from '../managers/PlaylistDataManager';
+import { getMusicProvider } from '../managers/MusicProviderManager';
+import { ArtistInfo, MusicProvider } from '../providers/MusicProvider';
+import { getMostProductiveSongs } from '../managers/ProductivityScoreManager';
+import { ARTIST_PLAYLIST_ID, RECOMMENDATION_PLAYLIST_ID, SEARCH_RESULTS_PLAYLIST_ID, SPOTIFY_LIKED_SONGS_PLAYLIST_ID } from '../Constants';
 import { PlayerContext, PlaylistItem } from 'cody-music';
+import MusicMetrics from '../model/MusicMetrics';
+import { describeMusicMutation, getPendingMusicMutations, MusicMutation } from '../managers/MusicMutationQueueManager';
+import { getSearchState, SearchState } from '../managers/SearchManager';
+import { ArtistAlbumDetail, getArtistAlbumDetail, getArtistInfo } from '../managers/ArtistManager';
+import { getEditingPlaylistId } from '../managers/PlaylistEditorManager';
+import { SearchResultType, SEARCH_RESULT_TYPES } from '../providers/SearchQuery';
+
+// the queue can be long, the sidebar only lists the first few
+const QUEUE_DISPLAY_LIMIT = 5;
+const SEARCH_TYPE_LABELS = { track: 'Songs', album: 'Albums', artist: 'Artists', playlist: 'Playlists' };
 
 export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider {
   private _webview: WebviewView | undefined;
@@ -29,7 +42,7 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
     //
   }
 
-  public async refresh(reloadData: boolean, refreshOpenFolder: boolean = false) {
+  public async refresh(reloadData: boolean, refreshOpenFolder: boolean = false, useSharedState: boolean = false) {
     if (!this._webview) {
       // its not available to refresh yet
       return;
@@ -37,7 +50,7 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
     if (!this._origHtml || reloadData) {
       this._webview.webview.html = await this.getHtml();
     } else {
-      this._webview.webview.html = await this.buildPlaylistItems(this._origHtml, refreshOpenFolder);
+      this._webview.webview.html = await this.buildPlaylistItems(this._origHtml, refreshOpenFolder, useSharedState);
     }
   }
 
@@ -112,7 +125,7 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
   }
 
   private async getHtml(): Promise<string> {
-    if (hasSpotifyUser() && !this._origHtml) {
+    if (getMusicProvider().hasUser() && !this._origHtml) {
       this._webview.webview.html = await getLoadingHtml();
     }
 
@@ -125,17 +138,22 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
       return await this.buildPlaylistItems(this._origHtml);
     }
 
+    if (getMusicProvider().id !== "spotify") {
+      // the local players keep working without the app
+      this._origHtml = await getLocalSidebarHtml(getSelectedTabView());
+      return await this.buildPlaylistItems(this._origHtml);
+    }
+
     return await getConnectionErrorHtml();
   }
 
-  private async buildPlaylistItems(html: string, refreshOpenFolder: boolean = false) {
-    const spotifyUser = await getConnectedSpotifyUser();
+  private async buildPlaylistItems(html: string, refreshOpenFolder: boolean = false, useSharedState: boolean = false) {
     const selectedTabView = getSelectedTabView();
     const playlistId = getSelectedPlaylistId();
-    const data: any = await this.getViewData(selectedTabView, playlistId, spotifyUser);
+    const data: any = await this.getViewData(selectedTabView, playlistId, useSharedState);
 
     let sidebarContent = '';
-    if (selectedTabView === 'playlists' && data?.spotifyPlaylists?.length) {
+    if (selectedTabView === 'playlists' && data?.playlists?.length) {
       let tracks = [];
 
       if (playlistId) {
@@ -147,14 +165,18 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
       }
 
       const likedFolder = this.buildPlaylistItem(data.likedPlaylistItem, playlistId, tracks, refreshOpenFolder);
-      const playlistFolders = data.spotifyPlaylists.map(
+      const playlistFolders = data.playlists.map(
         (item: any) => this.buildPlaylistItem(item, playlistId, tracks, refreshOpenFolder)
       ).join('\n')
-      sidebarContent = await this.buildPlaylistSidebar(likedFolder, playlistFolders, data.playerContext);
+      sidebarContent = await this.buildPlaylistSidebar(likedFolder, playlistFolders, data.playerContext, data.pendingMutations, data.queue);
     } else if (selectedTabView === 'recommendations' && data.recommendationInfo?.tracks?.length) {
       sidebarContent = await this.buildRecommendationSidebar(data.recommendationInfo, data.playerContext);
-    } else if (selectedTabView === 'metrics' && Object.keys(data.audioMetrics).length) {
-      sidebarContent = this.getMetricsSidebar(data.audioMetrics);
+    } else if (selectedTabView === 'search' && data.searchState) {
+      sidebarContent = await this.buildSearchSidebar(data.searchState, data.playerContext);
+    } else if (selectedTabView === 'artist' && data.artistInfo) {
+      sidebarContent = await this.buildArtistSidebar(data.artistInfo, data.artistAlbumDetail, data.playerContext);
+    } else if (selectedTabView === 'metrics' && (Object.keys(data.audioMetrics).length || data.productiveSongs.length)) {
+      sidebarContent = this.getMetricsSidebar(data.audioMetrics, data.productiveSongs);
     } else {
       sidebarContent = this.getMusicConnectErrorHtml();
     }
@@ -165,6 +187,14 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
 
   private getMusicConnectErrorHtml() {
     const dancePartyImg = `vscode-resource:${getImage('404-image.png')}`;
+    if (getMusicProvider().id === 'local') {
+      return `<div class="flex flex-col items-center justify-center p-2 space-y-3">
+        <h4 class="header text-gray-500 text-sm">No music found</h4>
+        <p class="text-gray-500 text-sm">
+          <a href class="underline text-blue-500 hover:text-gray-500" onclick="onCmdClick('selectLocalMusicFolder')">Select a folder of MP3, FLAC or OGG files</a>
+        </p>
+      </div>`
+    }
     return `<div class="flex flex-col items-center justify-center p-2 space-y-3">
       <h4 class="header text-gray-500 text-sm">Oops! Something went wrong.</h4>
       <img src="${dancePartyImg}" alt="DJ-Cody" class="rounded-xl h-64">
@@ -174,8 +204,10 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
     </div>`
   }
 
-  private async buildPlaylistSidebar(likedFolder, playlistFolders, playerContext) {
+  private async buildPlaylistSidebar(likedFolder, playlistFolders, playerContext, pendingMutations: MusicMutation[], queue: PlaylistItem[]) {
     return `<div class="divide-y dark:divide-gray-100 dark:divide-opacity-25">
+      ${this.getPendingMutationsHtml(pendingMutations)}
+      ${this.getQueueHtml(queue)}
       <div class="flex flex-col w-full pb-2">
         <div class="flex justify-between items-center space-x-2 py-3">
           <div class="text-gray-500 text-xs font-semibold">Playlists</div>
@@ -196,7 +228,7 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
   private async buildRecommendationSidebar(recommendationInfo: any, playerContext: PlayerContext) {
     return `<div class="flex flex-col w-full space-y-2">
       <div class="flex justify-between items-center space-x-2 py-3">
-        <div class="text-gray-500 text-xs font-semibold">${recommendationInfo.label}</div>
+        <div class="text-gray-500 text-xs font-semibold">${escapeHtml(recommendationInfo.label)}</div>
         <div class="flex items-center space-x-2">
           ${this.getMoodSelectorIconButton()}
           ${this.getGenreSelectorIconButton()}
@@ -209,20 +241,236 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
     </div>`
   }
 
+  private async buildSearchSidebar(searchState: SearchState, playerContext: PlayerContext) {
+    const typeTabs = SEARCH_RESULT_TYPES.map((type: SearchResultType) => {
+      const tabClass = type === searchState.type ? 'text-blue-500' : 'text-gray-500 hover:text-blue-500';
+      return `<button type="button" onclick="onCmdClick('searchResultType', { type: '${type}' })"
+        class="text-xs font-semibold focus:outline-none ${tabClass}">${SEARCH_TYPE_LABELS[type]}</button>`
+    }).join('');
+    return `<div class="flex flex-col w-full space-y-2">
+      <div class="flex justify-between items-center space-x-2 py-3">
+        <div class="text-gray-500 text-xs font-semibold truncate">${searchState.query ? `Results for '${escapeHtml(searchState.query)}'` : 'Search'}</div>
+        <div class="flex items-center space-x-2">
+          ${this.getSearchIconButton()}
+          ${await this.getTrackControlButton(playerContext)}
+        </div>
+      </div>
+      <div class="flex items-center space-x-2">${typeTabs}</div>
+      <div class="flex flex-col">
+        ${searchState.detail ? this.buildSearchDetail(searchState) : this.buildSearchResults(searchState)}
+      </div>
+    </div>`
+  }
+
+  private buildSearchResults(searchState: SearchState) {
+    if (!searchState.query) {
+      return `<p class="text-xs text-gray-500 font-medium pl-2 py-1">
+        <a href class="underline hover:text-blue-500" onclick="onCmdClick('searchTracks')">Search</a> for songs, albums, artists and playlists</p>`
+    }
+    if (!searchState.results.items.length) {
+      return `<p class="text-xs text-gray-500 font-medium pl-2 py-1">No ${SEARCH_TYPE_LABELS[searchState.type].toLowerCase()} found</p>`
+    }
+    const items = searchState.results.items.map((item: PlaylistItem) => {
+      return searchState.type === 'track'
+        ? this.buildViewTrackItem(item, SEARCH_RESULTS_PLAYLIST_ID, 'playSearchTrack')
+        : this.buildSearchResultItem(item, searchState.type);
+    });
+    const hasMore = searchState.results.items.length < searchState.results.total;
+    // fetch the next page when the list is scrolled near the end
+    return `<div>${items.join('\n')}</div>
+      ${hasMore ? '<p class="text-xs text-gray-500 font-medium pl-2 py-1">Loading more...</p>' : ''}
+      <script language="javascript">
+        (function () {
+          window.scrollTo(0, ${searchState.scrollY});
+          const hasMore = ${hasMore};
+          let requested = false;
+          function loadMoreAtEnd() {
+            if (hasMore && !requested && window.innerHeight + window.scrollY >= document.body.scrollHeight - 100) {
+              requested = true;
+              onCmdClick('searchMore', { scrollY: window.scrollY });
+            }
+          }
+          window.addEventListener('scroll', loadMoreAtEnd);
+          // the first page may not fill the view
+          loadMoreAtEnd();
+        })();
+      </script>`
+  }
+
+  private buildSearchDetail(searchState: SearchState) {
+    const tracks = searchState.detail.tracks.map((track: PlaylistItem) => this.buildViewTrackItem(track, SEARCH_RESULTS_PLAYLIST_ID, 'playSearchTrack'));
+    return `<div class="flex justify-between items-center space-x-2 pb-2">
+        <a href class="text-xs text-gray-500 font-medium hover:text-blue-500" onclick="onCmdClick('closeSearchResult')">&larr; Back to results</a>
+        <div class="text-gray-500 text-xs font-semibold truncate">${escapeHtml(searchState.detail.label)}</div>
+      </div>
+      <div>${tracks.length ? tracks.join('\n') : '<p class="text-xs text-gray-500 font-medium pl-2 py-1">No songs found</p>'}</div>`
+  }
+
+  private buildSearchResultItem(item: PlaylistItem, type: SearchResultType) {
+    const onclick = type === 'artist'
+      ? `onCmdClick('showArtist', { artistId: ${toAttributeArg(item.id)} })`
+      : `onCmdClick('showSearchResult', { type: '${type}', id: ${toAttributeArg(item.id)} })`;
+    return this.buildNavigationItem(item, onclick);
+  }
+
+  private async buildArtistSidebar(artistInfo: ArtistInfo, albumDetail: ArtistAlbumDetail, playerContext: PlayerContext) {
+    return `<div class="flex flex-col w-full space-y-2">
+      <div class="flex justify-between items-center space-x-2 py-3">
+        <div class="flex flex-col truncate">
+          <div class="text-xs font-semibold truncate">${escapeHtml(artistInfo.artist.name)}</div>
+          <div class="text-gray-500 text-xs font-medium truncate">${escapeHtml(artistInfo.artist['description'])}</div>
+        </div>
+        <div class="flex items-center space-x-2">
+          ${this.getSearchIconButton()}
+          ${await this.getTrackControlButton(playerContext)}
+        </div>
+      </div>
+      ${albumDetail ? this.buildArtistAlbumDetail(albumDetail) : this.buildArtistSections(artistInfo)}
+    </div>`
+  }
+
+  private buildArtistSections(artistInfo: ArtistInfo) {
+    const sections = [
+      {
+        label: 'Top tracks',
+        items: artistInfo.top_tracks.map((track: PlaylistItem) => this.buildViewTrackItem(track, ARTIST_PLAYLIST_ID, 'playArtistTrack')),
+      },
+      {
+        label: 'Albums',
+        items: artistInfo.albums.map((album: PlaylistItem) => this.buildNavigationItem(album, `onCmdClick('showArtistAlbum', { albumId: ${toAttributeArg(album.id)} })`)),
+      },
+      {
+        label: 'Singles and EPs',
+        items: artistInfo.singles.map((album: PlaylistItem) => this.buildNavigationItem(album, `onCmdClick('showArtistAlbum', { albumId: ${toAttributeArg(album.id)} })`)),
+      },
+      {
+        label: 'Related artists',
+        items: artistInfo.related_artists.map((artist: PlaylistItem) => this.buildNavigationItem(artist, `onCmdClick('showArtist', { artistId: ${toAttributeArg(artist.id)} })`)),
+      },
+    ].filter((section) => section.items.length);
+
+    if (!sections.length) {
+      return `<p class="text-xs text-gray-500 font-medium pl-2 py-1">No music found for this artist</p>`
+    }
+    return sections.map((section) => {
+      return `<div class="flex flex-col pb-2">
+        <div class="text-gray-500 text-xs font-semibold py-2">${section.label}</div>
+        ${section.items.join('\n')}
+      </div>`
+    }).join('\n');
+  }
+
+  private buildArtistAlbumDetail(albumDetail: ArtistAlbumDetail) {
+    const tracks = albumDetail.tracks.map((track: PlaylistItem) => this.buildViewTrackItem(track, ARTIST_PLAYLIST_ID, 'playArtistTrack'));
+    return `<div class="flex justify-between items-center space-x-2 pb-2">
+        <a href class="text-xs text-gray-500 font-medium hover:text-blue-500" onclick="onCmdClick('closeArtistAlbum')">&larr; Back to artist</a>
+        <div class="text-gray-500 text-xs font-semibold truncate">${escapeHtml(albumDetail.album.name)}</div>
+      </div>
+      <div>${tracks.length ? tracks.join('\n') : '<p class="text-xs text-gray-500 font-medium pl-2 py-1">No songs found</p>'}</div>`
+  }
+
+  /**
+   * A row that opens an album, artist or playlist
+   */
+  private buildNavigationItem(item: PlaylistItem, onclick: string) {
+    return `<div class="w-full flex justify-between items-center">
+      <button onclick="${onclick}"
+        class="w-full truncate pl-2 p-1 focus:outline-none">
+        <div class="flex items-center space-x-2">
+          ${this.getChevronRight()}
+          <p class="text-xs hover:text-blue-500">${escapeHtml(item.name)}</p>
+        </div>
+        <p class="text-left text-xs text-gray-500 font-medium">${escapeHtml(item['description'])}</p>
+      </button>
+    </div>`
+  }
+
+  /**
+   * A track row of the search or artist view
+   */
+  private buildViewTrackItem(track: PlaylistItem, playlistId: string, playAction: string) {
+    const trackPlaylistId = escapeHtml(`${track.id}_${playlistId}`);
+    return `<div data-track-container="${trackPlaylistId}" class="w-full flex justify-between items-center">
+      <button onclick="onCmdClick('${playAction}', { playlistId: ${toAttributeArg(playlistId)}, trackId: ${toAttributeArg(track.id)} })"
+        data-track-id="${trackPlaylistId}"
+        class="w-full truncate pl-2 p-1 focus:outline-none">
+        <div class="flex items-center space-x-2">
+          <div class="w-3">
+            <svg xmlns="http://www.w3.org/2000/svg" class="h-3 w-3 text-blue-600" viewBox="0 0 20 20" fill="currentColor">
+              <path d="M18 3a1 1 0 00-1.196-.98l-10 2A1 1 0 006 5v9.114A4.369 4.369 0 005 14c-1.657 0-3 .895-3 2s1.343 2 3 2 3-.895 3-2V7.82l8-1.6v5.894A4.37 4.37 0 0015 12c-1.657 0-3 .895-3 2s1.343 2 3 2 3-.895 3-2V3z" />
+            </svg>
+          </div>
+          <p class="text-xs hover:text-blue-500">
+            ${escapeHtml(track.name)}
+          </p>
+        </div>
+        <p class="text-left text-xs text-gray-500 font-medium">${escapeHtml(track['description'])}</p>
+      </button>
+      ${this.getDotsVerticalMenuButton(track, playlistId)}
+    </div>`
+  }
+
+  private getPendingMutationsHtml(pendingMutations: MusicMutation[]) {
+    if (!pendingMutations?.length) {
+      return '';
+    }
+    const items = pendingMutations.map((mutation: MusicMutation) => {
+      return `<p class="text-xs text-gray-500 font-medium truncate pl-2" title="${escapeHtml(mutation.last_error)}">${escapeHtml(describeMusicMutation(mutation))}</p>`
+    });
+    return `<div class="flex flex-col w-full pb-2">
+      <div class="flex justify-between items-center space-x-2 py-3">
+        <div class="text-gray-500 text-xs font-semibold">Waiting to sync with Spotify</div>
+        <button type="button" title="Sync now" onclick="onCmdClick('syncPendingChanges')"
+          class="relative font-medium focus:outline-none">
+          <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5 text-gray-400 hover:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+            <path stroke-linecap="round" stroke-linejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+        </button>
+      </div>
+      ${items.join('')}
+    </div>`
+  }
+
+  private getQueueHtml(queue: PlaylistItem[]) {
+    if (!queue?.length) {
+      return '';
+    }
+    const items = queue.slice(0, QUEUE_DISPLAY_LIMIT).map((track: PlaylistItem) => {
+      return `<div class="flex flex-col pl-2 py-1">
+        <p class="text-xs truncate">${escapeHtml(track.name)}</p>
+        <p class="text-xs text-gray-500 font-medium truncate">${escapeHtml(track.artist)}</p>
+      </div>`
+    });
+    const more = queue.length > QUEUE_DISPLAY_LIMIT ? `<p class="text-xs text-gray-500 font-medium pl-2 py-1">and ${queue.length - QUEUE_DISPLAY_LIMIT} more</p>` : '';
+    return `<div class="flex flex-col w-full pb-2">
+      <div class="flex justify-between items-center space-x-2 py-3">
+        <div class="text-gray-500 text-xs font-semibold">Up next</div>
+      </div>
+      ${items.join('')}
+      ${more}
+    </div>`
+  }
+
   private buildPlaylistItem(item: any, playlistId: any, tracks: any, refreshOpenFolder: boolean = false) {
     let chevronSvg = this.getChevronRight();
     let tracksHtml = '';
+    let editButton = '';
     if (item.id === playlistId) {
       if ((getExpandedPlaylistId() !== playlistId) || getExpandedPlaylistId() === playlistId && refreshOpenFolder) {
         // expand or refresh
         updateExpandedPlaylistId(playlistId);
         chevronSvg = this.getChevronDown();
 
-        if (tracks.length) {
+        const editable = getMusicProvider().canEditPlaylist(item);
+        editButton = editable ? this.getEditPlaylistButton(item) : '';
+        if (editable && getEditingPlaylistId() === playlistId) {
+          tracksHtml = this.buildPlaylistEditor(item, tracks ?? []);
+        } else if (tracks.length) {
           tracksHtml = [
             '<div class="pl-2 -m-1">',
             ...tracks.map((item: any) => this.buildTrackItem(item, playlistId)),
-            '</div>'
+            '</div>',
+            this.buildTrackSelection(item)
           ].join('\n');
         }
       } else {
@@ -233,16 +481,170 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
     return `
       <div class="flex flex-col">
         <div class="w-full flex justify-between items-center py-1">
-          <button type="button" onclick="onCmdClick('refreshMusicTimeView', { tabView: 'playlists', playlistId: '${item.id}' })"
+          <button type="button" onclick="onCmdClick('refreshMusicTimeView', { tabView: 'playlists', playlistId: ${toAttributeArg(item.id)} })"
             class="flex truncate items-center space-x-2 focus:outline-none">
             ${chevronSvg}
-            <span class="truncate text-xs hover:text-blue-500">${item.name}</span>
+            <span class="truncate text-xs hover:text-blue-500">${escapeHtml(item.name)}</span>
           </button>
+          ${editButton}
         </div>
         ${tracksHtml}
       </div>`
   }
 
+  private getEditPlaylistButton(item: PlaylistItem) {
+    const editing = getEditingPlaylistId() === item.id;
+    return `<button type="button" title="${editing ? 'Done editing' : 'Edit playlist'}"
+      onclick="onCmdClick('editPlaylist', { playlistId: ${toAttributeArg(item.id)} })"
+      class="relative font-medium focus:outline-none">
+      <svg xmlns="http://www.w3.org/2000/svg" class="h-4 w-4 ${editing ? 'text-blue-500' : 'text-gray-400'} hover:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+        <path stroke-linecap="round" stroke-linejoin="round" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+      </svg>
+    </button>`
+  }
+
+  /**
+   * The playlist settings and its tracks, which can be dragged to a new position
+   */
+  private buildPlaylistEditor(item: PlaylistItem, tracks: PlaylistItem[]) {
+    const action = (label: string, command: string) => {
+      return `<a href class="text-xs text-gray-500 font-medium hover:text-blue-500" onclick="onCmdClick('${command}', { playlistId: ${toAttributeArg(item.id)} })">${label}</a>`
+    };
+    const trackRows = tracks.map((track: PlaylistItem, idx: number) => {
+      return `<div draggable="true" data-track-index="${idx}" class="w-full flex items-center space-x-2 pl-2 p-1" title="Drag to reorder">
+        <svg xmlns="http://www.w3.org/2000/svg" class="h-4 w-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+          <path stroke-linecap="round" stroke-linejoin="round" d="M4 8h16M4 16h16" />
+        </svg>
+        <div class="flex flex-col truncate">
+          <p class="text-xs truncate">${escapeHtml(track.name)}</p>
+          <p class="text-xs text-gray-500 font-medium truncate">${escapeHtml(track['description'])}</p>
+        </div>
+      </div>`
+    });
+    return `<div class="flex flex-col pl-2 pb-2 space-y-2">
+      <p class="text-xs text-gray-500 font-medium">${escapeHtml(item['description']) || 'No description'}</p>
+      <div class="flex items-center space-x-2">
+        ${action('Rename', 'renamePlaylist')}
+        ${action('Description', 'editPlaylistDescription')}
+        ${action('Cover image', 'uploadPlaylistCover')}
+      </div>
+      <div class="flex items-center space-x-2">
+        ${action(item.public ? 'Make private' : 'Make public', 'togglePlaylistPublic')}
+        ${action(item.collaborative ? 'Stop collaborating' : 'Make collaborative', 'togglePlaylistCollaborative')}
+        ${action('Delete', 'deletePlaylist')}
+      </div>
+      <div id="playlist-editor-tracks">
+        ${trackRows.join('\n')}
+      </div>
+    </div>
+    <script language="javascript">
+      (function () {
+        const list = document.getElementById('playlist-editor-tracks');
+        let fromIndex = -1;
+        list.addEventListener('dragstart', (event) => {
+          fromIndex = parseInt(event.target.closest('[data-track-index]').getAttribute('data-track-index'), 10);
+          event.dataTransfer.effectAllowed = 'move';
+        });
+        list.addEventListener('dragover', (event) => {
+          event.preventDefault();
+        });
+        list.addEventListener('drop', (event) => {
+          event.preventDefault();
+          const row = event.target.closest('[data-track-index]');
+          const toIndex = row ? parseInt(row.getAttribute('data-track-index'), 10) : -1;
+          if (fromIndex !== -1 && toIndex !== -1 && toIndex !== fromIndex) {
+            onCmdClick('reorderPlaylistTrack', { playlistId: ${toScriptString(item.id)}, fromIndex, toIndex });
+          }
+          fromIndex = -1;
+        });
+      })();
+    </script>`
+  }
+
+  /**
+   * Shift and ctrl click select the playlist's tracks instead of playing
+   * them, the actions apply to every selected track
+   */
+  private buildTrackSelection(item: PlaylistItem) {
+    const provider = getMusicProvider();
+    const removable = item.id === provider.getLikedPlaylist()?.id || provider.canEditPlaylist(item);
+    const action = (label: string, batchAction: string) => {
+      return `<a href class="text-xs text-gray-500 font-medium hover:text-blue-500" data-batch-action="${batchAction}">${label}</a>`
+    };
+    return `<div id="track-selection-actions" style="display: none" class="pl-2 py-2 space-y-1">
+      <p id="track-selection-count" class="text-xs font-semibold"></p>
+      <div class="flex flex-wrap items-center space-x-2">
+        ${action('Like', 'like')}
+        ${action('Unlike', 'unlike')}
+        ${action('Add to playlist', 'addToPlaylist')}
+        ${removable ? action('Remove', 'removeFromPlaylist') : ''}
+        ${action('Copy links', 'copyLinks')}
+        ${action('Clear', 'clear')}
+      </div>
+    </div>
+    <script language="javascript">
+      (function () {
+        const playlistId = ${toScriptString(item.id)};
+        const suffix = '_' + playlistId;
+        const actions = document.getElementById('track-selection-actions');
+        const count = document.getElementById('track-selection-count');
+        const rows = Array.from(document.querySelectorAll('[data-name="trackItem"]'))
+          .filter((row) => row.getAttribute('data-track-id').endsWith(suffix));
+        let selected = [];
+        let anchor = -1;
+        function getTrackId(row) {
+          const id = row.getAttribute('data-track-id');
+          return id.substring(0, id.length - suffix.length);
+        }
+        function render() {
+          rows.forEach((row) => {
+            row.style.backgroundColor = selected.includes(row) ? 'var(--vscode-list-inactiveSelectionBackground)' : '';
+          });
+          count.textContent = selected.length === 1 ? '1 song selected' : selected.length + ' songs selected';
+          actions.style.display = selected.length ? '' : 'none';
+        }
+        // capture the click before the row's handler plays the track
+        document.addEventListener('click', (event) => {
+          const idx = rows.indexOf(event.target.closest('[data-name="trackItem"]'));
+          if (idx === -1 || !(event.shiftKey || event.ctrlKey || event.metaKey)) {
+            return;
+          }
+          event.preventDefault();
+          event.stopPropagation();
+          const row = rows[idx];
+          if (event.shiftKey && anchor !== -1) {
+            const from = Math.min(anchor, idx);
+            const to = Math.max(anchor, idx);
+            rows.slice(from, to + 1).forEach((n) => {
+              if (!selected.includes(n)) {
+                selected.push(n);
+              }
+            });
+          } else {
+            selected = selected.includes(row) ? selected.filter((n) => n !== row) : [...selected, row];
+            anchor = idx;
+          }
+          render();
+        }, true);
+        actions.addEventListener('click', (event) => {
+          const link = event.target.closest('[data-batch-action]');
+          if (!link) {
+            return;
+          }
+          event.preventDefault();
+          const action = link.getAttribute('data-batch-action');
+          if (action === 'clear') {
+            selected = [];
+            anchor = -1;
+            render();
+          } else {
+            onCmdClick('batchTrackAction', { action, playlistId, trackIds: selected.map(getTrackId) });
+          }
+        });
+      })();
+    </script>`
+  }
+
   private buildRecommendationTracks(recommendationInfo: any) {
     return [
       '<div>',
@@ -252,9 +654,9 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
   }
 
   private buildTrackItem(track: any, playlistId: string = '') {
-    const trackPlaylistId = `${track.id}_${playlistId}`;
+    const trackPlaylistId = escapeHtml(`${track.id}_${playlistId}`);
     return `<div data-track-container="${trackPlaylistId}" class="w-full flex justify-between">
-      <button onclick="onCmdClick('playTrack', { playlistId: '${playlistId}', trackId: '${track.id}' })"
+      <button onclick="onCmdClick('playTrack', { playlistId: ${toAttributeArg(playlistId)}, trackId: ${toAttributeArg(track.id)} })"
         data-track-id="${trackPlaylistId}"
         data-name="trackItem"
         class="w-full truncate pl-2 p-1 focus:outline-none">
@@ -265,10 +667,10 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
             </svg>
           </div>
           <p class="text-xs hover:text-blue-500">
-            ${track.name}
+            ${escapeHtml(track.name)}
           </p>
         </div>
-        <p class="text-left text-xs text-gray-500 font-medium">${track['description']}</p>
+        <p class="text-left text-xs text-gray-500 font-medium">${escapeHtml(track['description'])}</p>
       </button>
       ${this.getDotsVerticalMenuButton(track, playlistId)}
     </div>`
@@ -276,9 +678,9 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
 
   private buildRecommendationTrackItem(track: PlaylistItem) {
     const playlistId = RECOMMENDATION_PLAYLIST_ID;
-    const trackPlaylistId = `${track.id}_${playlistId}`;
+    const trackPlaylistId = escapeHtml(`${track.id}_${playlistId}`);
     return `<div class="w-full flex justify-between items-center">
-      <button onclick="onCmdClick('playRecommendations', { playlistId: '${playlistId}', trackId: '${track.id}' })"
+      <button onclick="onCmdClick('playRecommendations', { playlistId: ${toAttributeArg(playlistId)}, trackId: ${toAttributeArg(track.id)} })"
         data-track-id="${trackPlaylistId}"
         class="w-full truncate pl-2 p-1 focus:outline-none">
         <div class="flex items-center space-x-2">
@@ -288,10 +690,10 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
             </svg>
           </div>
           <p class="text-xs hover:text-blue-500">
-            ${track.name}
+            ${escapeHtml(track.name)}
           </p>
         </div>
-        <p class="text-left text-xs text-gray-500 font-medium">${track['description']}</p>
+        <p class="text-left text-xs text-gray-500 font-medium">${escapeHtml(track['description'])}</p>
       </button>
       ${this.getDotsVerticalMenuButton(track, playlistId)}
     </div>`
@@ -310,7 +712,7 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
   }
 
   private getDotsVerticalMenuButton(track: PlaylistItem, playlistId = '') {
-    const trackPlaylistId = `${track.id}_${playlistId}`;
+    const trackPlaylistId = escapeHtml(`${track.id}_${playlistId}`);
     return `<div class="hidden relative inline-block text-left" id="${trackPlaylistId}">
       <div>
         <button
@@ -338,12 +740,14 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
         <div
           class="text-sm p-1 space-y-2 divide-y focus:outline-none" role="none" data-track-options-id="${trackPlaylistId}">
           <div class="pl-1 pr-2 py-2" role="none">
-            <p class="text-sm text-blue-500">${track.name}</p>
-            <p class="text-xs text-gray-500 font-medium">${track['description']}</p>
+            <p class="text-sm text-blue-500">${escapeHtml(track.name)}</p>
+            <p class="text-xs text-gray-500 font-medium">${escapeHtml(track['description'])}</p>
           </div>
           <div class="pl-1 pr-2" role="none">
             ${this.getLikedActionButton(track, playlistId)}
+            ${this.getQueueButtons(track, playlistId)}
             ${this.getAlbumButton(track, playlistId)}
+            ${this.getArtistButton(track, playlistId)}
             ${this.getTrackRecommendationsButton(track, playlistId)}
             ${this.getShareTrackButton(track, playlistId)}
             ${this.getPlaylistAddButton(track, playlistId)}
@@ -363,7 +767,7 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
   private getRemoveLikedSongButton(trackId, playlistId, showText) {
     return `<a href class="rounded block py-2 text-xs focus:outline-none"
       title="Remove from your library"
-      onclick="onCmdClick('unlike', { trackId: '${trackId}', playlistId: '${playlistId}' })"
+      onclick="onCmdClick('unlike', { trackId: ${toAttributeArg(trackId)}, playlistId: ${toAttributeArg(playlistId)} })"
       role="menuitem" tabindex="-1" id="menu-item-1">
       <div class="flex items-center space-x-2">
         <svg xmlns="http://www.w3.org/2000/svg" class="h-4 w-4 text-gray-400 hover:text-blue-500" viewBox="0 0 20 20" fill="currentColor">
@@ -377,7 +781,7 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
   private getAddToLikedPlaylistButton(trackId, playlistId, showText) {
     return `<a href class="rounded block py-2 text-xs focus:outline-none"
       title="Save to your library"
-      onclick="onCmdClick('like', { trackId: '${trackId}', playlistId: '${playlistId}' })"
+      onclick="onCmdClick('like', { trackId: ${toAttributeArg(trackId)}, playlistId: ${toAttributeArg(playlistId)} })"
       role="menuitem" tabindex="-1" id="menu-item-1">
       <div class="flex items-center space-x-2">
         <svg xmlns="http://www.w3.org/2000/svg" class="h-4 w-4 text-gray-400 hover:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
@@ -390,7 +794,7 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
 
   private getShareTrackButton(track: PlaylistItem, playlistId) {
     return `<a href class="rounded block py-2 text-xs focus:outline-none"
-      onclick="onCmdClick('shareTrack', { trackId: '${track.id}', playlistId: '${playlistId}' })"
+      onclick="onCmdClick('shareTrack', { trackId: ${toAttributeArg(track.id)}, playlistId: ${toAttributeArg(playlistId)} })"
       role="menuitem" tabindex="-1" id="menu-item-2">
       <div class="flex items-center space-x-2">
         <svg xmlns="http://www.w3.org/2000/svg" class="h-4 w-4 text-gray-400 hover:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
@@ -403,7 +807,7 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
 
   private getTrackRecommendationsButton(track: PlaylistItem, playlistId) {
     return `<a href class="rounded block py-2 text-xs focus:outline-none"
-      onclick="onCmdClick('getTrackRecommendations', { trackId: '${track.id}', playlistId: '${playlistId}' })"
+      onclick="onCmdClick('getTrackRecommendations', { trackId: ${toAttributeArg(track.id)}, playlistId: ${toAttributeArg(playlistId)} })"
       role="menuitem" tabindex="-1" id="menu-item-2">
       <div class="flex items-center space-x-2">
         <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5 text-gray-400 hover:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
@@ -416,7 +820,7 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
 
   private getAlbumButton(track: PlaylistItem, playlistId) {
     return `<a href class="rounded block py-2 text-xs focus:outline-none"
-      onclick="onCmdClick('showAlbum', { trackId: '${track.id}', playlistId: '${playlistId}' })"
+      onclick="onCmdClick('showAlbum', { trackId: ${toAttributeArg(track.id)}, playlistId: ${toAttributeArg(playlistId)} })"
       role="menuitem" tabindex="-1" id="menu-item-1">
         <div class="flex items-center space-x-2">
           <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5 text-gray-400 hover:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
@@ -427,9 +831,47 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
       </a>`
   }
 
+  private getArtistButton(track: PlaylistItem, playlistId) {
+    return `<a href class="rounded block py-2 text-xs focus:outline-none"
+      onclick="onCmdClick('showArtist', { trackId: ${toAttributeArg(track.id)}, playlistId: ${toAttributeArg(playlistId)} })"
+      role="menuitem" tabindex="-1">
+        <div class="flex items-center space-x-2">
+          <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5 text-gray-400 hover:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+            <path stroke-linecap="round" stroke-linejoin="round" d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+          </svg>
+          <p>Show artist</p>
+        </div>
+      </a>`
+  }
+
+  private getQueueButtons(track: PlaylistItem, playlistId) {
+    // spotify can only add tracks to the end of the queue
+    const playNextButton = !getMusicProvider().canPlayNext() ? '' : `<a href class="rounded block py-2 text-xs focus:outline-none"
+      onclick="onCmdClick('playNext', { trackId: ${toAttributeArg(track.id)}, playlistId: ${toAttributeArg(playlistId)} })"
+      role="menuitem" tabindex="-1">
+        <div class="flex items-center space-x-2">
+          <svg xmlns="http://www.w3.org/2000/svg" class="h-4 w-4 text-gray-400 hover:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+            <path stroke-linecap="round" stroke-linejoin="round" d="M13 5l7 7-7 7M5 5l7 7-7 7" />
+          </svg>
+          <p>Play next</p>
+        </div>
+      </a>`;
+    return `${playNextButton}
+      <a href class="rounded block py-2 text-xs focus:outline-none"
+      onclick="onCmdClick('addToQueue', { trackId: ${toAttributeArg(track.id)}, playlistId: ${toAttributeArg(playlistId)} })"
+      role="menuitem" tabindex="-1">
+        <div class="flex items-center space-x-2">
+          <svg xmlns="http://www.w3.org/2000/svg" class="h-4 w-4 text-gray-400 hover:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+            <path stroke-linecap="round" stroke-linejoin="round" d="M4 6h16M4 10h16M4 14h10m4 0v6m-3-3h6" />
+          </svg>
+          <p>Add to queue</p>
+        </div>
+      </a>`
+  }
+
   private getPlaylistAddButton(track: PlaylistItem, playlistId) {
     return `<a href class="rounded block py-2 text-xs focus:outline-none"
-      onclick="onCmdClick('showAlbum', { trackId: '${track.id}', playlistId: '${playlistId}' })"
+      onclick="onCmdClick('addToPlaylist', { trackId: ${toAttributeArg(track.id)}, playlistId: ${toAttributeArg(playlistId)} })"
       role="menuitem" tabindex="-1" id="menu-item-1">
         <div class="flex items-center space-x-2">
           <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5 text-gray-400 hover:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
@@ -500,6 +942,7 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
           </div>
           <div class="flex flex-col pl-1 pr-2 py-2 space-y-2" role="none">
             ${await this.getPlayingTrackItemHtml(playerContext)}
+            ${this.getPlaybackProgressHtml(playerContext)}
             ${this.getPlayControlButtonsItemHtml(playerContext)}
           </div>
         </div>
@@ -512,7 +955,7 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
     let selectedDeviceText = 'Connect to a Spotify device';
     let deviceInfoText = 'Launch the web or desktop player';
     if (ctx.device?.name) {
-      selectedDeviceText = `Listening on your ${playerContext.device.name}`
+      selectedDeviceText = `Listening on your ${escapeHtml(playerContext.device.name)}`
       deviceInfoText = ctx.device.is_active ? `Active at ${ctx.device.volume_percent}% volume` : `Inactive at ${ctx.device.volume_percent}% volume`;
     }
 
@@ -520,17 +963,31 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
       <a href class="rounded py-2 text-xs focus:outline-none"
         onclick="onCmdClick('deviceSelector')">
         ${deviceInfoText}
-      </a>`
+      </a>
+      ${this.getVolumeSliderHtml(ctx)}`
+  }
+
+  private getVolumeSliderHtml(playerContext: PlayerContext) {
+    if (!playerContext.device?.id) {
+      return '';
+    }
+    return `<div class="flex items-center space-x-2">
+      <svg xmlns="http://www.w3.org/2000/svg" class="h-4 w-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+        <path stroke-linecap="round" stroke-linejoin="round" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+      </svg>
+      <input type="range" class="w-full" min="0" max="100" step="5" value="${playerContext.device.volume_percent ?? 0}" title="Volume"
+        onchange="onCmdClick('setVolume', { volume_percent: parseInt(this.value, 10) })">
+    </div>`
   }
 
   private async getPlayingTrackItemHtml(playerContext: PlayerContext) {
     if (playerContext?.item?.name) {
-      const isLikedTrack = await isLikedTrackId(playerContext.item.id);
+      const isLikedTrack = await getMusicProvider().isLiked(playerContext.item.id);
       const playlistId = getSelectedPlaylistId();
       return `<div class="flex items-center justify-between">
         <div class="flex flex-col py-2 space-y-1">
-          <p class="text-sm text-blue-500">${playerContext.item.name}</p>
-          <p class="text-xs text-gray-500 font-medium">${playerContext.item.artist}</p>
+          <p class="text-sm text-blue-500">${escapeHtml(playerContext.item.name)}</p>
+          <p class="text-xs text-gray-500 font-medium">${escapeHtml(playerContext.item.artist)}</p>
         </div>
         <div>${(isLikedTrack) ? this.getRemoveLikedSongButton(playerContext.item.id, playlistId, false) : this.getAddToLikedPlaylistButton(playerContext.item.id, playlistId, false)}</div>
       </div>`
@@ -540,6 +997,57 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
     </div>`
   }
 
+  /**
+   * The progress bar moves forward on its own between player polls and
+   * starts over from the player's position each time the sidebar is refreshed
+   */
+  private getPlaybackProgressHtml(playerContext: PlayerContext) {
+    const durationMs = playerContext?.item?.duration_ms;
+    if (!durationMs) {
+      return '';
+    }
+    const progressMs = Math.min(parseInt(playerContext.progress_ms, 10) || 0, durationMs);
+    return `<div class="flex flex-col space-y-1">
+      <input id="track-progress" type="range" class="w-full" min="0" max="${durationMs}" step="1000" value="${progressMs}" title="Seek">
+      <div class="flex justify-between text-xs text-gray-500 font-medium">
+        <span id="track-progress-elapsed">${formatTrackTime(progressMs)}</span>
+        <span>${formatTrackTime(durationMs)}</span>
+      </div>
+    </div>
+    <script language="javascript">
+      (function () {
+        const progress = document.getElementById('track-progress');
+        const elapsed = document.getElementById('track-progress-elapsed');
+        const startMs = ${progressMs};
+        const loadedAt = Date.now();
+        const isPlaying = ${!!playerContext.is_playing};
+        let scrubbing = false;
+
+        function formatTime(millis) {
+          const totalSeconds = Math.floor(millis / 1000);
+          const seconds = totalSeconds % 60;
+          return Math.floor(totalSeconds / 60) + ':' + (seconds < 10 ? '0' : '') + seconds;
+        }
+
+        if (isPlaying) {
+          setInterval(() => {
+            if (!scrubbing) {
+              progress.value = Math.min(startMs + Date.now() - loadedAt, ${durationMs});
+              elapsed.textContent = formatTime(progress.value);
+            }
+          }, 1000);
+        }
+        progress.addEventListener('input', () => {
+          scrubbing = true;
+          elapsed.textContent = formatTime(progress.value);
+        });
+        progress.addEventListener('change', () => {
+          onCmdClick('seek', { position_ms: parseInt(progress.value, 10) });
+        });
+      })();
+    </script>`
+  }
+
   private getPlayControlButtonsItemHtml(playerContext: PlayerContext) {
     this.getRepeatButton(playerContext);
     return `<div class="flex items-center justify-center space-x-2">
@@ -700,8 +1208,9 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
     </button>`
   }
 
-  private getMetricsSidebar(audioMetrics: any) {
+  private getMetricsSidebar(audioMetrics: any, productiveSongs: MusicMetrics[]) {
     return `<div class="flex flex-col w-full space-y-2 pt-2 pb-4">
+      ${this.getProductiveSongs(productiveSongs)}
       <div class="flex justify-between items-center space-x-2 py-1">
         <div class="text-gray-500 text-xs font-semibold">Your favorite audio</div>
         <div class="flex items-center space-x-2">
@@ -712,6 +1221,42 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
     </div>`
   }
 
+  private getProductiveSongs(productiveSongs: MusicMetrics[]) {
+    if (!productiveSongs.length) {
+      return '';
+    }
+    const songItems = productiveSongs.map((song: MusicMetrics) => {
+      return `<button onclick="onCmdClick('playProductiveSong', { trackId: ${toAttributeArg(song.song_id)} })"
+        title="${song.keystrokes} keystrokes over ${song.plays} plays"
+        class="w-full flex justify-between items-center truncate pl-2 p-1 focus:outline-none">
+        <div class="flex flex-col truncate text-left">
+          <p class="text-xs hover:text-blue-500 truncate">${song.song_rank}. ${escapeHtml(song.song_name)}</p>
+          <p class="text-xs text-gray-500 font-medium truncate">${escapeHtml(song.artist_name)}</p>
+        </div>
+        <p class="text-xs text-gray-500 font-medium">${song.productivity_score}</p>
+      </button>`
+    });
+    return `<div class="flex flex-col pb-2">
+      <div class="flex justify-between items-center space-x-2 py-1">
+        <div class="text-gray-500 text-xs font-semibold">My most productive songs</div>
+        <div class="flex items-center space-x-2">
+          ${this.getGenerateFlowPlaylistButton()}
+        </div>
+      </div>
+      ${songItems.join('')}
+    </div>`
+  }
+
+  private getGenerateFlowPlaylistButton() {
+    return `<button type="button" title="Generate your flow playlist"
+      onclick="onCmdClick('generateFlowPlaylist')"
+      class="relative text-gray-500 hover:text-blue-500 font-medium focus:outline-none">
+      <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5 text-gray-400 hover:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+        <path stroke-linecap="round" stroke-linejoin="round" d="M12 4v16m8-8H4" />
+      </svg>
+    </button>`
+  }
+
   private getFeatureRanges(audioMetrics: any) {
     const featureRanges = Object.keys(audioMetrics).map((key) => {
       const value = (parseFloat(audioMetrics[key].avg) / audioMetrics[key].max) * 100
@@ -735,36 +1280,54 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
     </button>`
   }
 
-  private async getViewData(selectedTabView, playlist_id, spotifyUser) {
+  private async getViewData(selectedTabView, playlist_id, useSharedState: boolean = false) {
+    const provider: MusicProvider = getMusicProvider();
+    const user = await provider.getUser();
     let playlistTracks = {};
-    let spotifyPlaylists = [];
-    let softwareTop40Playlist = undefined;
+    let playlists = [];
     let selectedPlaylistId = undefined;
     let audioMetrics: any = {};
+    let productiveSongs: MusicMetrics[] = [];
     let recommendationInfo = {tracks: [], label: ''};
-    let likedPlaylistItem = getSpotifyLikedPlaylist();
+    let likedPlaylistItem = provider.getLikedPlaylist();
     let likedTracks = [];
     let playerContext: PlayerContext = undefined;
-
-    if (spotifyUser?.id) {
-      const playerContextP = getPlayerContext();
+    let pendingMutations: MusicMutation[] = [];
+    let queue: PlaylistItem[] = [];
+    let searchState: SearchState = undefined;
+    let artistInfo: ArtistInfo = undefined;
+    let artistAlbumDetail: ArtistAlbumDetail = undefined;
+
+    if (user?.id) {
+      const playerContextP = provider.getPlayerContext(useSharedState);
       if (selectedTabView === "playlists") {
-        playlistTracks = getCachedPlaylistTracks();
-        const softwareTop40PlaylistP = getCachedSoftwareTop40Playlist();
-        const spotifyPlaylistsP = getCachedSpotifyPlaylists();
-        const likedTracksP = getCachedLikedSongsTracks();
-        softwareTop40Playlist = await softwareTop40PlaylistP ?? [];
-        spotifyPlaylists = await spotifyPlaylistsP ?? [];
-        likedPlaylistItem.tracks.total = spotifyPlaylists.length || 1;
-        likedTracks = await likedTracksP;
-
         selectedPlaylistId = playlist_id ? playlist_id : getSelectedPlaylistId();
+        const playlistsP = provider.getPlaylists();
+        const likedTracksP = provider.getLikedTracks();
+        if (selectedPlaylistId && selectedPlaylistId !== SPOTIFY_LIKED_SONGS_PLAYLIST_ID) {
+          playlistTracks[selectedPlaylistId] = await provider.getPlaylistTracks(selectedPlaylistId);
+        }
+        playlists = await playlistsP;
+        likedPlaylistItem.tracks.total = playlists.length || 1;
+        likedTracks = await likedTracksP;
+        // the spotify library changes that haven't been sent yet
+        pendingMutations = provider.id === "spotify" ? getPendingMusicMutations() : [];
       } else if (selectedTabView === "metrics") {
-        audioMetrics = await getCachedAudioMetrics();
+        audioMetrics = await provider.getAudioMetrics();
+        // scored locally from the recorded coding sessions
+        productiveSongs = getMostProductiveSongs();
       } else if (selectedTabView === "recommendations") {
-        recommendationInfo = getCachedRecommendationInfo();
+        recommendationInfo = provider.getRecommendationInfo();
+      } else if (selectedTabView === "search") {
+        searchState = getSearchState();
+      } else if (selectedTabView === "artist") {
+        artistInfo = getArtistInfo();
+        artistAlbumDetail = getArtistAlbumDetail();
       }
       playerContext = await playerContextP;
+      if (selectedTabView === "playlists" && playerContext?.item?.id) {
+        queue = await provider.getQueue();
+      }
     }
 
     return {
@@ -772,11 +1335,32 @@ export class MusicTimeWebviewSidebar implements Disposable, WebviewViewProvider
       playerContext,
       likedPlaylistItem,
       likedTracks,
-      spotifyPlaylists,
-      softwareTop40Playlist,
+      playlists,
       selectedPlaylistId,
       audioMetrics,
+      productiveSongs,
       recommendationInfo,
+      pendingMutations,
+      queue,
+      searchState,
+      artistInfo,
+      artistAlbumDetail,
     };
   }
 }
+
+/**
+ * An id as a javascript string for the onclick attributes, the quotes
+ * are escaped so an id with a quote can't end the string
+ */
+function toAttributeArg(value: string): string {
+  return escapeHtml(JSON.stringify(value ?? ''));
+}
+
+/**
+ * An id as a javascript string inside a script tag, where the
+ * html entities aren't decoded but a closing tag would end it
+ */
+function toScriptString(value: string): string {
+  return JSON.stringify(value ?? '').replace(/</g, '\\u003c');
+}
@@ -156,6 +156,12 @@ export class SocialShareManager {
             cb: this.copyLink
         });
 
+        menuOptions.items.push({
+            label: `Copy Music Time ${context} Link`,
+            detail: `Copy a link that plays the ${context.toLowerCase()} in VS Code, i.e. from a README or pull request.`,
+            cb: this.copyDeepLink
+        });
+
         const hasSlackAccess = await hasSlackWorkspaces();
         if (!hasSlackAccess) {
             // show divider
@@ -186,6 +192,14 @@ export class SocialShareManager {
         );
     }
 
+    copyDeepLink() {
+        MusicControlManager.getInstance().copySpotifyLink(
+            musicId,
+            playlistSelected,
+            true
+        );
+    }
+
     async showSlackMessageInputPrompt() {
         return await window.showInputBox({
             value: `${title}`,
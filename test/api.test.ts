@@ -0,0 +1,84 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { MUSIC_TIME_API_VERSION, MusicTimeApi, MusicTimePlayerStateEvent } from "../src/managers/MusicTimeApiManager";
+import { waitFor } from "./testUtil";
+
+// The "Extension Tests" launch config and the test script set MUSIC_TIME_PROVIDER=fake
+const USES_FAKE_PROVIDER = process.env.MUSIC_TIME_PROVIDER === "fake";
+
+// The api other extensions depend on, members can be added but these have to stay
+suite("Music Time API", () => {
+    let api: MusicTimeApi;
+
+    suiteSetup(async () => {
+        const extension = vscode.extensions.getExtension<MusicTimeApi>("softwaredotcom.music-time");
+        assert(extension, "the extension is installed");
+        api = await extension.activate();
+    });
+
+    test("activate returns the versioned api", () => {
+        assert(api, "activate returns the api");
+        assert.strictEqual(api.version, MUSIC_TIME_API_VERSION);
+        assert.strictEqual(api.version, 1);
+    });
+
+    test("has the playback methods", () => {
+        ["getNowPlaying", "play", "pause", "next", "like", "getPlaylists"].forEach((name) => {
+            assert.strictEqual(typeof api[name], "function", `${name} is a function`);
+        });
+    });
+
+    test("has the playback events", () => {
+        ["onDidChangeTrack", "onDidChangePlayerState"].forEach((name) => {
+            assert.strictEqual(typeof api[name], "function", `${name} is an event`);
+            const listener: vscode.Disposable = api[name](() => {});
+            assert.strictEqual(typeof listener.dispose, "function", `${name} returns a disposable`);
+            listener.dispose();
+        });
+    });
+});
+
+suite("Music Time API on the fake provider", () => {
+    let api: MusicTimeApi;
+
+    suiteSetup(async function () {
+        this.timeout(30000);
+        if (!USES_FAKE_PROVIDER) {
+            this.skip();
+        }
+        api = await vscode.extensions.getExtension<MusicTimeApi>("softwaredotcom.music-time").activate();
+        // the running track is tracked once the plugin is initialized
+        const registered = await waitFor(async () => (await vscode.commands.getCommands(true)).includes("musictime.play"), 25000);
+        if (!registered) {
+            this.skip();
+        }
+    });
+
+    test("nothing is playing before play", () => {
+        assert.strictEqual(api.getNowPlaying(), undefined);
+    });
+
+    test("like resolves to false for an unknown id", async () => {
+        assert.strictEqual(await api.like("unknown-id"), false);
+    });
+
+    test("play resolves to false for a uri it can't play", async () => {
+        assert.strictEqual(await api.play("not-a-uri"), false);
+    });
+
+    test("pause fires a player state change", async function () {
+        this.timeout(30000);
+        assert.strictEqual(await api.play(), true);
+        assert(await waitFor(async () => api.getNowPlaying()?.state === "playing"), "the track plays");
+
+        const events: MusicTimePlayerStateEvent[] = [];
+        const listener: vscode.Disposable = api.onDidChangePlayerState((e) => events.push(e));
+        try {
+            await api.pause();
+            assert(await waitFor(async () => events.some((n) => n.state === "paused")), "the paused state is fired");
+            assert.strictEqual(events.find((n) => n.state === "paused").track?.state, "paused");
+        } finally {
+            listener.dispose();
+        }
+    });
+});
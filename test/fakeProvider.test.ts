@@ -0,0 +1,133 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { MusicTimeApi, MusicTimeApiTrack } from "../src/managers/MusicTimeApiManager";
+import { createDemoMusicData, FakeMusicProvider } from "../src/providers/FakeMusicProvider";
+import { MusicTimeWebviewSidebar } from "../src/sidebar/MusicTimeWebviewSidebar";
+import { waitFor } from "./testUtil";
+
+// The "Extension Tests" launch config sets MUSIC_TIME_PROVIDER=fake so the UI runs on the demo library
+const USES_FAKE_PROVIDER = process.env.MUSIC_TIME_PROVIDER === "fake";
+
+suite("Fake music provider", () => {
+    let provider: FakeMusicProvider;
+
+    setup(() => {
+        provider = new FakeMusicProvider(createDemoMusicData());
+    });
+
+    test("returns the demo playlists and tracks", async () => {
+        const playlists = await provider.getPlaylists();
+        assert.deepStrictEqual(playlists.map((n) => n.name), ["Focus", "Chill"]);
+        const tracks = await provider.getPlaylistTracks("demo-focus");
+        assert.deepStrictEqual(tracks.map((n) => n.name), ["Deep Work", "Null Pointer", "Refactor"]);
+    });
+
+    test("plays, skips and wraps around", async () => {
+        await provider.play();
+        assert.strictEqual((await provider.getRunningTrack()).id, "demo-1");
+        await provider.previous();
+        assert.strictEqual((await provider.getRunningTrack()).id, "demo-5");
+        await provider.next();
+        await provider.next();
+        assert.strictEqual((await provider.getRunningTrack()).id, "demo-2");
+        await provider.pause();
+        assert.strictEqual((await provider.getPlayerContext()).is_playing, false);
+    });
+
+    test("plays queued tracks first", async () => {
+        await provider.play();
+        const chill = await provider.getPlaylistTracks("demo-chill");
+        await provider.addToQueue(chill[0], false);
+        await provider.addToQueue(chill[1], true);
+        await provider.next();
+        assert.strictEqual((await provider.getRunningTrack()).id, "demo-5");
+        await provider.next();
+        assert.strictEqual((await provider.getRunningTrack()).id, "demo-4");
+    });
+
+    test("likes and unlikes tracks", async () => {
+        const track = await provider.getTrack("demo-focus", "demo-2");
+        await provider.setLiked(track, true);
+        assert.strictEqual(await provider.isLiked("demo-2"), true);
+        await provider.setLiked(track, false);
+        assert.strictEqual(await provider.isLiked("demo-2"), false);
+        assert.deepStrictEqual((await provider.getLikedTracks()).map((n) => n.id), ["demo-1", "demo-4"]);
+    });
+
+    test("searches tracks and playlists", async () => {
+        const tracks = await provider.search("deep", "track", 0, 10);
+        assert.deepStrictEqual(tracks.items.map((n) => n.id), ["demo-1"]);
+        const playlists = await provider.search("chill", "playlist", 0, 10);
+        assert.deepStrictEqual(playlists.items.map((n) => n.id), ["demo-chill"]);
+    });
+});
+
+suite("Sidebar on the fake provider", () => {
+    suiteSetup(function () {
+        if (!USES_FAKE_PROVIDER) {
+            this.skip();
+        }
+    });
+
+    test("lists the demo playlists", async () => {
+        const view = createWebviewView();
+        const sidebar = new MusicTimeWebviewSidebar(vscode.Uri.file(__dirname));
+        await sidebar.resolveWebviewView(view, { state: undefined }, new vscode.CancellationTokenSource().token);
+        await sidebar.refresh(true);
+        assert(view.webview.html.includes("Focus"), "the sidebar lists the Focus playlist");
+        assert(view.webview.html.includes("Chill"), "the sidebar lists the Chill playlist");
+        sidebar.dispose();
+    });
+});
+
+suite("Commands on the fake provider", () => {
+    let api: MusicTimeApi;
+
+    suiteSetup(async function () {
+        this.timeout(30000);
+        if (!USES_FAKE_PROVIDER) {
+            this.skip();
+        }
+        api = await vscode.extensions.getExtension<MusicTimeApi>("softwaredotcom.music-time").activate();
+        // the commands are registered once the plugin is initialized
+        const registered = await waitFor(async () => (await vscode.commands.getCommands(true)).includes("musictime.play"), 25000);
+        if (!registered) {
+            this.skip();
+        }
+    });
+
+    test("the api returns the demo playlists", async () => {
+        const playlists = await api.getPlaylists();
+        assert.deepStrictEqual(playlists.map((n) => n.id), ["demo-focus", "demo-chill"]);
+    });
+
+    test("play, next and pause update the running track", async function () {
+        this.timeout(30000);
+        await vscode.commands.executeCommand("musictime.play");
+        assert(await waitFor(async () => api.getNowPlaying()?.state === "playing"), "the track plays");
+
+        const playing: MusicTimeApiTrack = api.getNowPlaying();
+        await vscode.commands.executeCommand("musictime.next");
+        assert(await waitFor(async () => !!api.getNowPlaying() && api.getNowPlaying().id !== playing.id), "the next track plays");
+
+        await vscode.commands.executeCommand("musictime.pause");
+        assert(await waitFor(async () => api.getNowPlaying()?.state === "paused"), "the track is paused");
+    });
+
+    test("refreshes the sidebar", async () => {
+        assert((await vscode.commands.getCommands(true)).includes("musictime.refreshMusicTimeView"), "the refresh command is registered");
+        await assert.doesNotReject(Promise.resolve(vscode.commands.executeCommand("musictime.refreshMusicTimeView")));
+        // the reload keeps the demo library
+        assert.deepStrictEqual((await api.getPlaylists()).map((n) => n.id), ["demo-focus", "demo-chill"]);
+    });
+});
+
+/**
+ * A sidebar view that keeps the html set on it
+ */
+function createWebviewView(): vscode.WebviewView {
+    const noop = () => new vscode.Disposable(() => {});
+    const webview: any = { html: "", options: {}, onDidReceiveMessage: noop, asWebviewUri: (uri: vscode.Uri) => uri, cspSource: "" };
+    const view: any = { webview, visible: true, onDidDispose: noop, onDidChangeVisibility: noop, show: () => {} };
+    return view;
+}
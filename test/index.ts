@@ -1,22 +1,26 @@
-//
-// PLEASE DO NOT MODIFY / DELETE UNLESS YOU KNOW WHAT YOU ARE DOING
-//
-// This file is providing the test runner to use when running extension tests.
-// By default the test runner in use is Mocha based.
-//
-// You can provide your own test runner if you want to override it by exporting
-// a function run(testRoot: string, clb: (error:Error) => void) that the extension
-// host can call to run the tests. The test runner is expected to use console.log
-// to report the results back to the caller. When the tests are finished, return
-// a possible error to the callback or null if none.
+import * as path from "path";
+import * as Mocha from "mocha";
+import * as glob from "glob";
 
-// import * as testRunner from "vscode/lib/testrunner";
+/**
+ * Runs the test suites inside the extension host, called by
+ * VS Code with --extensionTestsPath pointing at this folder
+ */
+export function run(): Promise<void> {
+    const mocha = new Mocha({ ui: "tdd", color: true, timeout: 10000 });
+    const testsRoot = __dirname;
 
-// // You can directly control Mocha options by uncommenting the following lines
-// // See https://github.com/mochajs/mocha/wiki/Using-mocha-programmatically#set-options for more info
-// testRunner.configure({
-//     ui: "tdd",
-//     useColors: true // colored output from test results,
-// });
-
-// module.exports = testRunner;
+    return new Promise((resolve, reject) => {
+        glob("**/*.test.js", { cwd: testsRoot }, (err, files) => {
+            if (err) {
+                return reject(err);
+            }
+            files.forEach((file) => mocha.addFile(path.resolve(testsRoot, file)));
+            try {
+                mocha.run((failures) => (failures ? reject(new Error(`${failures} tests failed.`)) : resolve()));
+            } catch (e) {
+                reject(e);
+            }
+        });
+    });
+}
@@ -0,0 +1,168 @@
+import * as assert from "assert";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TrackStatus } from "cody-music";
+import { parseDbusReply } from "../src/providers/MprisClient";
+import { MprisProvider } from "../src/providers/MprisProvider";
+
+const REPLY_HEADER = "method return time=1700000000.000000 sender=:1.42 -> destination=:1.43 serial=7 reply_serial=2";
+
+// dbus-send --print-reply output for the calls a player answers
+const REPLIES = {
+    "org.freedesktop.DBus.ListNames": [
+        "   array [",
+        '      string "org.freedesktop.DBus"',
+        '      string "org.mpris.MediaPlayer2.vlc"',
+        '      string ":1.42"',
+        "   ]",
+    ],
+    Identity: ['   variant       string "VLC media player"'],
+    PlaybackStatus: ['   variant       string "Playing"'],
+    Volume: ["   variant       double 0.5"],
+    Position: ["   variant       int64 61000000"],
+    Metadata: [
+        "   variant       array [",
+        "         dict entry(",
+        '            string "mpris:trackid"',
+        '            variant                object path "/org/videolan/vlc/playlist/7"',
+        "         )",
+        "         dict entry(",
+        '            string "xesam:title"',
+        '            variant                string "Deep Work"',
+        "         )",
+        "         dict entry(",
+        '            string "xesam:artist"',
+        "            variant                array [",
+        '                  string "The Compilers"',
+        '                  string "Stack Trace"',
+        "               ]",
+        "         )",
+        "         dict entry(",
+        '            string "xesam:album"',
+        '            variant                string "Focus"',
+        "         )",
+        "         dict entry(",
+        '            string "xesam:url"',
+        '            variant                string "file:///home/dev/Music/It\'s%20Deep%20Work.mp3"',
+        "         )",
+        "         dict entry(",
+        '            string "mpris:length"',
+        "            variant                int64 215000000",
+        "         )",
+        "      ]",
+    ],
+};
+
+function reply(name: string): string {
+    return [REPLY_HEADER, ...REPLIES[name]].join("\n") + "\n";
+}
+
+suite("MPRIS reply parsing", () => {
+    test("parses simple values", () => {
+        assert.strictEqual(parseDbusReply(reply("Identity")), "VLC media player");
+        assert.strictEqual(parseDbusReply(reply("Volume")), 0.5);
+        assert.strictEqual(parseDbusReply(reply("Position")), 61000000);
+        assert.strictEqual(parseDbusReply(`${REPLY_HEADER}\n   variant       boolean true\n`), true);
+    });
+
+    test("parses arrays", () => {
+        assert.deepStrictEqual(parseDbusReply(reply("org.freedesktop.DBus.ListNames")), [
+            "org.freedesktop.DBus",
+            "org.mpris.MediaPlayer2.vlc",
+            ":1.42",
+        ]);
+    });
+
+    test("parses dict entries into an object", () => {
+        assert.deepStrictEqual(parseDbusReply(reply("Metadata")), {
+            "mpris:trackid": "/org/videolan/vlc/playlist/7",
+            "xesam:title": "Deep Work",
+            "xesam:artist": ["The Compilers", "Stack Trace"],
+            "xesam:album": "Focus",
+            "xesam:url": "file:///home/dev/Music/It's%20Deep%20Work.mp3",
+            "mpris:length": 215000000,
+        });
+    });
+
+    test("keeps the quotes inside strings", () => {
+        assert.strictEqual(parseDbusReply(`${REPLY_HEADER}\n   variant       string "Say "Hi""\n`), 'Say "Hi"');
+    });
+
+    test("returns undefined for an empty reply", () => {
+        assert.strictEqual(parseDbusReply(`${REPLY_HEADER}\n`), undefined);
+        assert.strictEqual(parseDbusReply(""), undefined);
+    });
+});
+
+// runs the provider against a dbus-send on the PATH that answers from the replies above
+suite("MPRIS provider with a stubbed dbus-send", () => {
+    const origPath = process.env.PATH;
+    let stubDir: string;
+    let callsFile: string;
+
+    suiteSetup(function () {
+        if (process.platform === "win32") {
+            this.skip();
+        }
+        stubDir = fs.mkdtempSync(path.join(os.tmpdir(), "musictime-dbus-"));
+        callsFile = path.join(stubDir, "calls.log");
+        Object.keys(REPLIES).forEach((name) => fs.writeFileSync(path.join(stubDir, `${name}.reply`), reply(name)));
+        // the reply is picked by the last argument, the method or the "string:<property>" of a Get
+        const script = [
+            "#!/bin/sh",
+            `echo "$*" >> "${callsFile}"`,
+            "for last; do :; done",
+            `file="${stubDir}/\${last#string:}.reply"`,
+            'if [ -f "$file" ]; then cat "$file"; else echo "' + REPLY_HEADER + '"; fi',
+        ].join("\n");
+        fs.writeFileSync(path.join(stubDir, "dbus-send"), script + "\n", { mode: 0o755 });
+        process.env.PATH = `${stubDir}${path.delimiter}${origPath}`;
+    });
+
+    suiteTeardown(() => {
+        process.env.PATH = origPath;
+        if (stubDir) {
+            fs.rmSync(stubDir, { recursive: true, force: true });
+        }
+    });
+
+    setup(() => {
+        fs.writeFileSync(callsFile, "");
+    });
+
+    test("lists the running players as devices", async () => {
+        const provider = new MprisProvider();
+        const devices = await provider.getDevices();
+        assert.strictEqual(devices.length, 1);
+        assert.strictEqual(devices[0].id, "org.mpris.MediaPlayer2.vlc");
+        assert.strictEqual(devices[0].name, "VLC media player");
+        assert.strictEqual(devices[0].volume_percent, 50);
+        assert.strictEqual(provider.getActiveDevice()?.id, "org.mpris.MediaPlayer2.vlc");
+    });
+
+    test("reads the running track from the metadata", async () => {
+        const track = await new MprisProvider().getRunningTrack();
+        // the playlist entry "7" is reused by other songs, the id comes from the url
+        const urlHash = crypto.createHash("md5").update("file:///home/dev/Music/It's%20Deep%20Work.mp3").digest("hex");
+        assert.strictEqual(track.id, `mpris-${urlHash}`);
+        assert.strictEqual(track.uri, "file:///home/dev/Music/It's%20Deep%20Work.mp3");
+        assert.strictEqual(track.name, "Deep Work");
+        assert.strictEqual(track.artist, "The Compilers, Stack Trace");
+        assert.strictEqual(track.album, "Focus");
+        assert.strictEqual(track.duration_ms, 215000);
+        assert.strictEqual(track.progress_ms, 61000);
+        assert.strictEqual(track.state, TrackStatus.Playing);
+    });
+
+    test("sends the player methods to the selected player", async () => {
+        const provider = new MprisProvider();
+        await provider.getDevices();
+        await provider.pause();
+        await provider.next();
+        const calls: string = fs.readFileSync(callsFile, "utf8");
+        assert(calls.includes("--dest=org.mpris.MediaPlayer2.vlc /org/mpris/MediaPlayer2 org.mpris.MediaPlayer2.Player.Pause"), calls);
+        assert(calls.includes("--dest=org.mpris.MediaPlayer2.vlc /org/mpris/MediaPlayer2 org.mpris.MediaPlayer2.Player.Next"), calls);
+    });
+});
@@ -0,0 +1,24 @@
+import * as path from "path";
+import { runTests } from "@vscode/test-electron";
+
+/**
+ * Downloads VS Code and runs the suites in test/index.ts against the
+ * extension. The fake provider is used so the tests don't need Spotify.
+ */
+async function main() {
+    try {
+        const extensionDevelopmentPath = path.resolve(__dirname, "../../");
+        const extensionTestsPath = path.resolve(__dirname, "./index");
+        await runTests({
+            extensionDevelopmentPath,
+            extensionTestsPath,
+            extensionTestsEnv: { MUSIC_TIME_PROVIDER: "fake" },
+            launchArgs: ["--disable-extensions"],
+        });
+    } catch (e) {
+        console.error("Failed to run the tests");
+        process.exit(1);
+    }
+}
+
+main();
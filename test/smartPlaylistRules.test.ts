@@ -0,0 +1,74 @@
+import * as assert from "assert";
+import { PlaylistItem } from "cody-music";
+import { matchesSmartPlaylistRules, parseSmartPlaylistRules, SmartPlaylistCandidate } from "../src/managers/SmartPlaylistRules";
+
+const DAY_SECONDS = 60 * 60 * 24;
+
+function createCandidate(features: any, details: any = {}, added_at: number = 0, last_played: number = 0): SmartPlaylistCandidate {
+    const track: PlaylistItem = new PlaylistItem();
+    Object.assign(track, { id: "track-1", name: "One More Time", artist: "Daft Punk", albumName: "Discovery", popularity: 80 }, details);
+    return { track, features, added_at, last_played };
+}
+
+suite("Smart playlist rules", () => {
+    test("parses comparisons", () => {
+        assert.deepStrictEqual(parseSmartPlaylistRules("energy > 0.7"), [{ field: "energy", op: ">", value: 0.7 }]);
+        assert.deepStrictEqual(parseSmartPlaylistRules("popularity>=50"), [{ field: "popularity", op: ">=", value: 50 }]);
+        assert.deepStrictEqual(parseSmartPlaylistRules("loudness < -8"), [{ field: "loudness", op: "<", value: -8 }]);
+    });
+
+    test("parses ranges in either order", () => {
+        assert.deepStrictEqual(parseSmartPlaylistRules("tempo 120-140"), [{ field: "tempo", op: "between", value: 120, to: 140 }]);
+        assert.deepStrictEqual(parseSmartPlaylistRules("tempo 140 - 120"), [{ field: "tempo", op: "between", value: 120, to: 140 }]);
+    });
+
+    test("parses text rules", () => {
+        assert.deepStrictEqual(parseSmartPlaylistRules("artist contains Daft Punk"), [{ field: "artist", op: "contains", value: "daft punk" }]);
+        assert.deepStrictEqual(parseSmartPlaylistRules('Album is "Discovery"'), [{ field: "album", op: "contains", value: "discovery" }]);
+    });
+
+    test("parses added and played periods", () => {
+        assert.deepStrictEqual(parseSmartPlaylistRules("added in last 90 days"), [{ field: "added", op: "within", value: 90 * DAY_SECONDS }]);
+        assert.deepStrictEqual(parseSmartPlaylistRules("not played this week"), [{ field: "played", op: "notWithin", value: 7 * DAY_SECONDS }]);
+        assert.deepStrictEqual(parseSmartPlaylistRules("played today"), [{ field: "played", op: "within", value: DAY_SECONDS }]);
+        assert.deepStrictEqual(parseSmartPlaylistRules("added in the last 2 months"), [{ field: "added", op: "within", value: 60 * DAY_SECONDS }]);
+    });
+
+    test("splits the rules on AND", () => {
+        const rules = parseSmartPlaylistRules("energy > 0.7 AND tempo 120-140 and added in last 90 days AND not played this week");
+        assert.deepStrictEqual(
+            rules.map((n) => `${n.field} ${n.op}`),
+            ["energy >", "tempo between", "added within", "played notWithin"]
+        );
+    });
+
+    test("rejects empty and unknown rules", () => {
+        assert.throws(() => parseSmartPlaylistRules(""), /at least one rule/);
+        assert.throws(() => parseSmartPlaylistRules("   "), /at least one rule/);
+        assert.throws(() => parseSmartPlaylistRules("energy > 0.7 AND mood is happy"), /'mood is happy'/);
+        assert.throws(() => parseSmartPlaylistRules("genre > 3"), /'genre > 3'/);
+        assert.throws(() => parseSmartPlaylistRules("energy > high"), /'energy > high'/);
+    });
+
+    test("matches the audio features, popularity and text", () => {
+        const candidate = createCandidate({ energy: 0.8, tempo: 123 });
+        const now = 1700000000;
+        assert.strictEqual(matchesSmartPlaylistRules(candidate, parseSmartPlaylistRules("energy > 0.7 AND tempo 120-140"), now), true);
+        assert.strictEqual(matchesSmartPlaylistRules(candidate, parseSmartPlaylistRules("energy > 0.9"), now), false);
+        assert.strictEqual(matchesSmartPlaylistRules(candidate, parseSmartPlaylistRules("popularity >= 80 AND artist contains daft"), now), true);
+        assert.strictEqual(matchesSmartPlaylistRules(candidate, parseSmartPlaylistRules("album is homework"), now), false);
+        // tracks without audio features don't match feature rules
+        assert.strictEqual(matchesSmartPlaylistRules(createCandidate(null), parseSmartPlaylistRules("energy > 0.1"), now), false);
+    });
+
+    test("matches the added and played periods", () => {
+        const now = 1700000000;
+        const recent = createCandidate({}, {}, now - 10 * DAY_SECONDS, now - 2 * DAY_SECONDS);
+        assert.strictEqual(matchesSmartPlaylistRules(recent, parseSmartPlaylistRules("added in last 30 days"), now), true);
+        assert.strictEqual(matchesSmartPlaylistRules(recent, parseSmartPlaylistRules("not played this week"), now), false);
+        // a track that was never played wasn't played this week
+        const neverPlayed = createCandidate({}, {}, now - 100 * DAY_SECONDS, 0);
+        assert.strictEqual(matchesSmartPlaylistRules(neverPlayed, parseSmartPlaylistRules("not played this week"), now), true);
+        assert.strictEqual(matchesSmartPlaylistRules(neverPlayed, parseSmartPlaylistRules("added in last 30 days"), now), false);
+    });
+});
@@ -0,0 +1,137 @@
+import * as assert from "assert";
+import { RequestPriority, SpotifyRequestScheduler } from "../src/music/SpotifyRequestScheduler";
+
+// requests the fake spotify call hasn't answered yet
+let unanswered: { name: string; answer: (resp: any) => void }[] = [];
+let sentNames: string[] = [];
+
+/**
+ * Stands in for a cody-music call, it resolves when the test answers it
+ */
+function fakeRequest(name: string): Promise<any> {
+    sentNames.push(name);
+    return new Promise((resolve) => unanswered.push({ name, answer: resolve }));
+}
+
+async function answerAll(resp: any = { status: 200 }) {
+    while (unanswered.length) {
+        unanswered.shift().answer(resp);
+        // let the scheduler send the next requests
+        await new Promise((resolve) => setImmediate(resolve));
+    }
+}
+
+// fills the concurrent request slots so the next requests are queued
+function blockScheduler(scheduler: SpotifyRequestScheduler): Promise<any>[] {
+    return [1, 2, 3, 4].map((n) => scheduler.schedule(fakeRequest, [`blocking-${n}`]));
+}
+
+suite("Spotify request scheduler", () => {
+    const scheduler = SpotifyRequestScheduler.getInstance();
+
+    setup(() => {
+        unanswered = [];
+        sentNames = [];
+        scheduler.resetMetrics();
+    });
+
+    test("sends user requests before background requests", async () => {
+        const blocking = blockScheduler(scheduler);
+        const background = scheduler.schedule(fakeRequest, ["background"], { priority: RequestPriority.Background });
+        const user = scheduler.schedule(fakeRequest, ["user"], { priority: RequestPriority.User });
+        assert.strictEqual(scheduler.getMetrics().queued, 2);
+
+        await answerAll();
+        await Promise.all([...blocking, background, user]);
+        assert.deepStrictEqual(sentNames.slice(4), ["user", "background"]);
+
+        const metrics = scheduler.getMetrics();
+        assert.strictEqual(metrics.user_requests, 5);
+        assert.strictEqual(metrics.background_requests, 1);
+        assert.strictEqual(metrics.sent, 6);
+        assert.strictEqual(metrics.queued, 0);
+        assert.strictEqual(metrics.in_flight, 0);
+    });
+
+    test("sends identical coalesced requests once", async () => {
+        const first = scheduler.schedule(fakeRequest, ["playlists"], { coalesce: true });
+        const second = scheduler.schedule(fakeRequest, ["playlists"], { coalesce: true });
+        const other = scheduler.schedule(fakeRequest, ["tracks"], { coalesce: true });
+        assert.strictEqual(first, second);
+
+        await answerAll({ status: 200, data: "ok" });
+        assert.deepStrictEqual(await first, { status: 200, data: "ok" });
+        await other;
+        assert.deepStrictEqual(sentNames, ["playlists", "tracks"]);
+
+        const metrics = scheduler.getMetrics();
+        assert.strictEqual(metrics.requests, 3);
+        assert.strictEqual(metrics.coalesced, 1);
+        assert.strictEqual(metrics.sent, 2);
+    });
+
+    test("promotes a queued background request when a user asks for it", async () => {
+        const blocking = blockScheduler(scheduler);
+        const queued = scheduler.schedule(fakeRequest, ["older-background"], { priority: RequestPriority.Background });
+        const background = scheduler.schedule(fakeRequest, ["devices"], { priority: RequestPriority.Background, coalesce: true });
+        const user = scheduler.schedule(fakeRequest, ["devices"], { priority: RequestPriority.User, coalesce: true });
+        assert.strictEqual(background, user);
+
+        await answerAll();
+        await Promise.all([...blocking, queued, user]);
+        assert.deepStrictEqual(sentNames.slice(4), ["devices", "older-background"]);
+    });
+
+    test("pauses for the Retry-After time and retries a rate limited request", async function () {
+        this.timeout(5000);
+        const rateLimited = { status: 429, retrySeconds: 1 };
+        let calls = 0;
+        const limitedOnce = async () => (++calls === 1 ? rateLimited : { status: 200 });
+
+        const start = Date.now();
+        const request = scheduler.schedule(limitedOnce);
+        await new Promise((resolve) => setImmediate(resolve));
+        assert(scheduler.getMetrics().rate_limited_until > Date.now(), "the queue is paused");
+
+        // requests scheduled during the pause wait for it too
+        const waiting = scheduler.schedule(fakeRequest, ["waiting"]);
+        assert.deepStrictEqual(sentNames, []);
+
+        assert.deepStrictEqual(await request, { status: 200 });
+        assert(Date.now() - start >= 900, "waited for the Retry-After time");
+        await answerAll();
+        await waiting;
+
+        const metrics = scheduler.getMetrics();
+        assert.strictEqual(calls, 2);
+        assert.strictEqual(metrics.rate_limited, 1);
+        assert.strictEqual(metrics.retries, 1);
+        assert.strictEqual(metrics.rate_limited_until, 0);
+    });
+
+    test("returns the rate limited response once the retries run out", async function () {
+        this.timeout(10000);
+        const rateLimited = { status: 429, retrySeconds: 1 };
+        let calls = 0;
+        const alwaysLimited = async () => {
+            calls++;
+            return rateLimited;
+        };
+
+        assert.strictEqual(await scheduler.schedule(alwaysLimited), rateLimited);
+        assert.strictEqual(calls, 4);
+        assert.strictEqual(scheduler.getMetrics().retries, 3);
+    });
+
+    test("rejects when the request throws", async () => {
+        const failing = async () => {
+            throw new Error("offline");
+        };
+        await assert.rejects(scheduler.schedule(failing, [], { coalesce: true }), /offline/);
+
+        // the failed request isn't shared with the next one
+        const next = scheduler.schedule(fakeRequest, ["after-failure"], { coalesce: true });
+        await answerAll();
+        assert.deepStrictEqual(await next, { status: 200 });
+    });
+});
@@ -0,0 +1,13 @@
+/**
+ * Poll until the condition is true, resolves to false after the timeout
+ */
+export async function waitFor(condition: () => Promise<boolean>, timeout_ms: number = 10000): Promise<boolean> {
+    const end = Date.now() + timeout_ms;
+    while (Date.now() < end) {
+        if (await condition()) {
+            return true;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 250));
+    }
+    return false;
+}